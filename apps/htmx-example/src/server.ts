@@ -11,8 +11,14 @@ import { html, raw } from 'hono/html';
 
 import type { CMI5Course, CMI5ObjectiveState } from 'cmi5-core';
 import { CMI5LearningEngine } from 'cmi5-engine';
-import type { LearnerState } from 'cmi5-fsrs-types';
-import { createInitialFSRSState, calculateMastery, createLearnerState } from 'cmi5-fsrs-types';
+import type { FSRSRating, LearnerState } from 'cmi5-fsrs-types';
+import {
+  createInitialFSRSState,
+  calculateMastery,
+  createLearnerState,
+  scheduleReview,
+  updateActivityMastery,
+} from 'cmi5-fsrs-types';
 
 const app = new Hono();
 
@@ -69,6 +75,14 @@ const sampleCourse: CMI5Course = {
 // Initialize engine
 const engine = new CMI5LearningEngine(sampleCourse);
 
+// Helper to show a review interval; learning steps are minutes, not days
+const formatInterval = (ms: number) => {
+  const minutes = Math.max(1, Math.round(ms / 60000));
+  if (minutes < 60) return `${minutes} minute(s)`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} hour(s)`;
+  return `${Math.round(minutes / (24 * 60))} day(s)`;
+};
+
 // Helper to render layout
 const layout = (title: string, content: unknown) => html`
   <!DOCTYPE html>
@@ -408,7 +422,8 @@ app.get('/practice/:auId', (c) => {
 // Review endpoint - processes rating and returns updated card
 app.post('/review/:nodeId', (c) => {
   const nodeId = c.req.param('nodeId');
-  const rating = parseInt(c.req.query('rating') || '3');
+  const requested = parseInt(c.req.query('rating') || '3') || 3;
+  const rating = Math.min(4, Math.max(1, requested)) as FSRSRating;
 
   // Get or create learner state
   let state = learnerStates.get(nodeId);
@@ -416,30 +431,30 @@ app.post('/review/:nodeId', (c) => {
     state = createLearnerState(nodeId, 'demo-user');
   }
 
-  // Apply FSRS-like update (simplified)
-  const newFsrs = { ...state.state };
-  newFsrs.reps += 1;
-
-  if (rating === 1) {
-    newFsrs.lapses += 1;
-    newFsrs.stability = Math.max(0.1, newFsrs.stability * 0.5);
-    newFsrs.state = 'relearning';
-  } else {
-    const multiplier = 1 + (rating - 2) * 0.5;
-    newFsrs.stability = Math.max(0.1, newFsrs.stability * multiplier);
-    if (newFsrs.stability >= 1) {
-      newFsrs.state = 'review';
-    }
-  }
-
-  newFsrs.scheduledDays = Math.max(1, Math.round(newFsrs.stability));
+  // Schedule with FSRS; a new item has no last review yet
+  const now = new Date();
+  const scheduled = scheduleReview(
+    {
+      state: state.state,
+      lastReview: state.state.reps > 0 ? state.lastReviewed : undefined,
+      nextReview: state.nextReview,
+    },
+    rating,
+    now
+  );
 
-  // Update state
+  // Update state; the flashcards are untimed recognition practice and Again counts as wrong
+  const review = { activity: 'recognition' as const, responseTime: 0, wasCorrect: rating > 1 };
   const updatedState: LearnerState = {
     ...state,
-    state: newFsrs,
-    lastReviewed: new Date(),
-    nextReview: new Date(Date.now() + newFsrs.scheduledDays * 24 * 60 * 60 * 1000),
+    state: scheduled.state,
+    activityMastery: updateActivityMastery(state.activityMastery, review, now),
+    lastReviewed: scheduled.lastReview,
+    nextReview: scheduled.nextReview,
+    reviewLog: [
+      ...(state.reviewLog ?? []),
+      { ...review, timestamp: now, rating, stateBefore: state.state, stateAfter: scheduled.state },
+    ],
   };
   updatedState.mastery = calculateMastery(updatedState);
   learnerStates.set(nodeId, updatedState);
@@ -455,7 +470,7 @@ app.post('/review/:nodeId', (c) => {
         <strong>${nodeId}</strong> - Rating: ${ratingNames[rating - 1]}
       </p>
       <p>New mastery: ${Math.round(updatedState.mastery * 100)}%</p>
-      <p>Next review in: ${newFsrs.scheduledDays} day(s)</p>
+      <p>Next review in: ${formatInterval(updatedState.nextReview.getTime() - now.getTime())}</p>
       ${au
         ? `
             <button
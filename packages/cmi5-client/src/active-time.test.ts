@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ActiveTimeTracker } from './active-time';
+
+describe('ActiveTimeTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('pauses after the idle timeout and resumes on activity', () => {
+    const onPause = vi.fn();
+    const tracker = new ActiveTimeTracker({ idleTimeout: 60_000, onPause });
+    tracker.start();
+
+    vi.advanceTimersByTime(30_000);
+    tracker.recordActivity();
+    vi.advanceTimersByTime(60_000);
+    expect(tracker.isActive()).toBe(false);
+    expect(onPause).toHaveBeenCalledWith(90_000);
+
+    vi.advanceTimersByTime(600_000);
+    expect(tracker.getActiveTime()).toBe(90_000);
+
+    tracker.recordActivity();
+    vi.advanceTimersByTime(10_000);
+    expect(tracker.getActiveTime()).toBe(100_000);
+    tracker.stop();
+  });
+
+  it('pauses while the page is hidden', () => {
+    const listeners = new Map<string, () => void>();
+    const page = { visibilityState: 'visible' };
+    vi.stubGlobal('document', page);
+    vi.stubGlobal('addEventListener', (type: string, listener: () => void) =>
+      listeners.set(type, listener)
+    );
+    vi.stubGlobal('removeEventListener', (type: string) => listeners.delete(type));
+    try {
+      const tracker = new ActiveTimeTracker({ initialTime: 5_000 });
+      tracker.start();
+      vi.advanceTimersByTime(10_000);
+
+      page.visibilityState = 'hidden';
+      listeners.get('visibilitychange')!();
+      listeners.get('keydown')!();
+      vi.advanceTimersByTime(20_000);
+      expect(tracker.getActiveTime()).toBe(15_000);
+
+      page.visibilityState = 'visible';
+      listeners.get('visibilitychange')!();
+      vi.advanceTimersByTime(1_000);
+      expect(tracker.getActiveTime()).toBe(16_000);
+
+      tracker.stop();
+      expect(listeners.size).toBe(0);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Active Time Tracking
+ *
+ * Measures how long a learner actually spends in an AU: the clock pauses while
+ * the page is hidden and after a stretch without input, and resumes when the
+ * page is visible again or the learner interacts with it.
+ */
+
+/** Input that counts as learner activity */
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart', 'scroll'];
+
+/**
+ * Active Time Tracker Options
+ */
+export interface ActiveTimeTrackerOptions {
+  /** Time without input after which the learner counts as idle in milliseconds (default: 300000) */
+  idleTimeout?: number;
+  /** Active time carried over from earlier in the session in milliseconds (default: 0) */
+  initialTime?: number;
+  /** Called when the clock pauses, e.g. to checkpoint the active time */
+  onPause?: (activeTime: number) => void;
+}
+
+/**
+ * Active Time Tracker
+ *
+ * Usage:
+ * ```typescript
+ * const tracker = new ActiveTimeTracker({ idleTimeout: 120000 });
+ * tracker.start();
+ *
+ * const duration = tracker.getActiveTime(); // Milliseconds
+ * tracker.stop();
+ * ```
+ *
+ * Activity the page cannot see, such as a playing video, can be reported with
+ * `recordActivity()`.
+ */
+export class ActiveTimeTracker {
+  private options: Required<Omit<ActiveTimeTrackerOptions, 'onPause'>> &
+    Pick<ActiveTimeTrackerOptions, 'onPause'>;
+  private accumulated: number;
+  /** When the clock last resumed, or null while paused */
+  private runningSince: number | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private listening = false;
+
+  constructor(options: ActiveTimeTrackerOptions = {}) {
+    this.options = {
+      idleTimeout: options.idleTimeout ?? 300000,
+      initialTime: options.initialTime ?? 0,
+      onPause: options.onPause,
+    };
+    this.accumulated = this.options.initialTime;
+  }
+
+  /**
+   * Start the clock and follow page visibility and input
+   * Starts paused if the page is hidden
+   */
+  start(): void {
+    if (typeof globalThis.addEventListener === 'function' && !this.listening) {
+      globalThis.addEventListener('visibilitychange', this.handleVisibilityChange);
+      for (const type of ACTIVITY_EVENTS) {
+        globalThis.addEventListener(type, this.handleActivity, { passive: true });
+      }
+      this.listening = true;
+    }
+    if (!isHidden()) this.recordActivity();
+  }
+
+  /**
+   * Stop the clock and stop listening
+   */
+  stop(): void {
+    this.pause();
+    if (this.listening && typeof globalThis.removeEventListener === 'function') {
+      globalThis.removeEventListener('visibilitychange', this.handleVisibilityChange);
+      for (const type of ACTIVITY_EVENTS) {
+        globalThis.removeEventListener(type, this.handleActivity);
+      }
+    }
+    this.listening = false;
+  }
+
+  /**
+   * Note learner activity: resumes a paused clock and restarts the idle timeout
+   */
+  recordActivity(now = Date.now()): void {
+    if (this.runningSince === null) this.runningSince = now;
+
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = setTimeout(() => this.pause(), this.options.idleTimeout);
+  }
+
+  /**
+   * Pause the clock until the next activity
+   */
+  pause(now = Date.now()): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    if (this.runningSince === null) return;
+
+    this.accumulated += Math.max(0, now - this.runningSince);
+    this.runningSince = null;
+    this.options.onPause?.(this.accumulated);
+  }
+
+  /**
+   * Whether the clock is running
+   */
+  isActive(): boolean {
+    return this.runningSince !== null;
+  }
+
+  /**
+   * Active time so far in milliseconds
+   */
+  getActiveTime(now = Date.now()): number {
+    return (
+      this.accumulated + (this.runningSince === null ? 0 : Math.max(0, now - this.runningSince))
+    );
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (isHidden()) {
+      this.pause();
+    } else {
+      this.recordActivity();
+    }
+  };
+
+  private handleActivity = (): void => {
+    if (!isHidden()) this.recordActivity();
+  };
+}
+
+function isHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
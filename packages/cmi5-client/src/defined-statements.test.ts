@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import {
+  CMI5_CATEGORY_ACTIVITIES,
+  CMI5_CONTEXT_EXTENSIONS,
+  CMI5_RESULT_EXTENSIONS,
+  CMI5_VERBS,
+} from 'cmi5-core';
+import { CMI5StatementBuilder, CMI5StatementRuleError, toISODuration } from './defined-statements';
+import type { CMI5StatementContext } from './defined-statements';
+import type { CMI5LaunchData } from './session';
+
+const SESSION_ID = '7c3a9e1f-5b2d-4c8e-a6f4-0b1d3e5f7a9c';
+
+function createContext(launchData: Partial<CMI5LaunchData> = {}): CMI5StatementContext {
+  return {
+    actor: { mbox: 'mailto:learner@example.com' },
+    activityId: 'https://example.com/au/1',
+    registration: '2f6e4c1a-8b3d-4e5f-9a7c-1d2e3f4a5b6c',
+    sessionId: SESSION_ID,
+    launchData: {
+      contextTemplate: {
+        contextActivities: { grouping: [{ id: 'https://example.com/course' }] },
+      },
+      launchMode: 'Normal',
+      moveOn: 'CompletedAndPassed',
+      masteryScore: 0.8,
+      ...launchData,
+    },
+  };
+}
+
+function initialized(context = createContext()): CMI5StatementBuilder {
+  const builder = new CMI5StatementBuilder(context);
+  builder.initialized();
+  return builder;
+}
+
+function categories(statement: {
+  context?: { contextActivities?: { category?: { id: string }[] } };
+}) {
+  return statement.context?.contextActivities?.category?.map((activity) => activity.id);
+}
+
+describe('toISODuration', () => {
+  it('formats milliseconds as ISO 8601 durations', () => {
+    expect(toISODuration(0)).toBe('PT0S');
+    expect(toISODuration(1_500)).toBe('PT1.5S');
+    expect(toISODuration(3_723_450)).toBe('PT1H2M3.45S');
+    expect(toISODuration(120_000)).toBe('PT2M');
+  });
+});
+
+describe('CMI5StatementBuilder', () => {
+  it('applies the context template, categories, duration and mastery score', () => {
+    const builder = initialized();
+
+    const passed = builder.passed({ score: { scaled: 0.9 }, duration: 61_000 });
+
+    expect(passed.verb.id).toBe(CMI5_VERBS.PASSED);
+    expect(passed.result).toEqual({ success: true, score: { scaled: 0.9 }, duration: 'PT1M1S' });
+    expect(passed.context).toMatchObject({
+      registration: '2f6e4c1a-8b3d-4e5f-9a7c-1d2e3f4a5b6c',
+      contextActivities: { grouping: [{ id: 'https://example.com/course' }] },
+      extensions: {
+        [CMI5_CONTEXT_EXTENSIONS.SESSION_ID]: SESSION_ID,
+        [CMI5_CONTEXT_EXTENSIONS.MASTERY_SCORE]: 0.8,
+        [CMI5_CONTEXT_EXTENSIONS.LAUNCH_MODE]: 'Normal',
+      },
+    });
+    expect(categories(passed)).toEqual([
+      CMI5_CATEGORY_ACTIVITIES.CMI5,
+      CMI5_CATEGORY_ACTIVITIES.MOVE_ON,
+    ]);
+
+    const terminated = builder.terminated();
+    expect(categories(terminated)).toEqual([CMI5_CATEGORY_ACTIVITIES.CMI5]);
+    expect(terminated.result?.duration).toMatch(/^PT[\d.]+S$/);
+  });
+
+  it('builds the LMS statements', () => {
+    const builder = new CMI5StatementBuilder(createContext());
+
+    expect(builder.waived({ reason: 'Tested out' }).result).toEqual({
+      success: true,
+      completion: true,
+      extensions: { [CMI5_RESULT_EXTENSIONS.REASON]: 'Tested out' },
+    });
+    expect(builder.abandoned({ duration: 'PT5M' }).result).toEqual({ duration: 'PT5M' });
+    expect(
+      builder.satisfied({ object: { id: 'https://example.com/course', objectType: 'Activity' } })
+        .object
+    ).toEqual({ id: 'https://example.com/course', objectType: 'Activity' });
+    expect(() => builder.waived()).toThrow('Waiving requires a reason');
+  });
+
+  it('refuses to complete twice in a registration', () => {
+    const builder = initialized();
+    expect(builder.completed().result).toMatchObject({ completion: true });
+    expect(() => builder.completed()).toThrow(CMI5StatementRuleError);
+
+    const nextSession = new CMI5StatementBuilder(createContext(), { completed: true });
+    nextSession.initialized();
+    expect(() => nextSession.completed()).toThrow('already completed');
+  });
+
+  it('refuses to pass or fail again after failing in the same session', () => {
+    const builder = initialized();
+    builder.failed({ score: { scaled: 0.5 } });
+    expect(() => builder.passed({ score: { scaled: 0.9 } })).toThrow('requires a new session');
+    expect(() => builder.failed({ score: { scaled: 0.4 } })).toThrow('already failed');
+
+    const nextSession = initialized();
+    expect(nextSession.passed({ score: { scaled: 0.9 } }).result?.success).toBe(true);
+    expect(() => nextSession.failed({ score: { scaled: 0.5 } })).toThrow('already passed');
+    expect(() => nextSession.passed({ score: { scaled: 0.9 } })).toThrow('already passed');
+  });
+
+  it('checks scores against the mastery score', () => {
+    const builder = initialized();
+    expect(() => builder.passed({ score: { scaled: 0.7 } })).toThrow('at least the mastery score');
+    expect(() => builder.passed()).toThrow(CMI5StatementRuleError);
+    expect(() => builder.failed({ score: { scaled: 0.8 } })).toThrow('below the mastery score');
+  });
+
+  it('refuses completion and success in Browse and Review mode', () => {
+    for (const launchMode of ['Browse', 'Review'] as const) {
+      const builder = initialized(createContext({ launchMode }));
+      expect(() => builder.completed()).toThrow(`in ${launchMode} mode`);
+      expect(() => builder.passed({ score: { scaled: 0.9 } })).toThrow(`in ${launchMode} mode`);
+      expect(builder.terminated().verb.id).toBe(CMI5_VERBS.TERMINATED);
+    }
+  });
+
+  it('keeps AU statements between initialized and terminated', () => {
+    const builder = new CMI5StatementBuilder(createContext());
+    expect(() => builder.completed()).toThrow('must follow initialized');
+
+    builder.initialized();
+    expect(() => builder.initialized()).toThrow('already initialized');
+    builder.terminated();
+    expect(() => builder.completed()).toThrow('cannot follow terminated');
+    expect(() => builder.terminated()).toThrow(CMI5StatementRuleError);
+  });
+});
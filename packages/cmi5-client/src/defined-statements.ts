@@ -0,0 +1,375 @@
+/**
+ * cmi5 Defined Statements
+ *
+ * Builders for the statements the cmi5 specification defines (initialized,
+ * completed, passed, failed, abandoned, waived, terminated and satisfied),
+ * with the context, categories and results conformance tests check for.
+ */
+
+import type { Activity, Agent, Result, ResultScore, Statement } from '@xapi/xapi';
+import {
+  CMI5_CATEGORY_ACTIVITIES,
+  CMI5_CONTEXT_EXTENSIONS,
+  CMI5_RESULT_EXTENSIONS,
+  CMI5_VERBS,
+} from 'cmi5-core';
+import type { CMI5LaunchData } from './session';
+
+/**
+ * Verbs of the cmi5 defined statements
+ */
+export type CMI5DefinedVerb =
+  | 'initialized'
+  | 'completed'
+  | 'passed'
+  | 'failed'
+  | 'abandoned'
+  | 'waived'
+  | 'terminated'
+  | 'satisfied';
+
+const DEFINED_VERB_IDS: Record<CMI5DefinedVerb, string> = {
+  initialized: CMI5_VERBS.INITIALIZED,
+  completed: CMI5_VERBS.COMPLETED,
+  passed: CMI5_VERBS.PASSED,
+  failed: CMI5_VERBS.FAILED,
+  abandoned: CMI5_VERBS.ABANDONED,
+  waived: CMI5_VERBS.WAIVED,
+  terminated: CMI5_VERBS.TERMINATED,
+  satisfied: CMI5_VERBS.SATISFIED,
+};
+
+/**
+ * Thrown when a defined statement would break a cmi5 rule
+ */
+export class CMI5StatementRuleError extends Error {
+  constructor(
+    message: string,
+    public readonly verb: CMI5DefinedVerb
+  ) {
+    super(message);
+    this.name = 'CMI5StatementRuleError';
+  }
+}
+
+/**
+ * The launch a builder makes statements for
+ */
+export interface CMI5StatementContext {
+  actor: Agent;
+  activityId: string;
+  registration: string;
+  sessionId: string;
+  launchData: CMI5LaunchData;
+  /** Active time of the session in milliseconds (default: time since initialized) */
+  getDuration?: () => number;
+}
+
+/**
+ * What earlier sessions of the registration already recorded
+ */
+export interface CMI5RegistrationHistory {
+  completed?: boolean;
+  passed?: boolean;
+}
+
+/**
+ * Options of a defined statement
+ */
+export interface DefinedStatementOptions {
+  /** Duration as an ISO 8601 duration or in milliseconds (default: the session's active time) */
+  duration?: string | number;
+  /** Score of passed and failed; required for them when the launch has a mastery score */
+  score?: ResultScore;
+  /** Why the AU was waived (waived only) */
+  reason?: string;
+  /** Block or course that was satisfied (satisfied only; default: the AU) */
+  object?: Activity;
+  /** Timestamp (default: now) */
+  timestamp?: string;
+  /** Session the statement is about (abandoned only; default: this session) */
+  sessionId?: string;
+}
+
+/**
+ * Format milliseconds as an ISO 8601 duration, e.g. PT1H2M3.45S
+ * Hundredths of a second are the finest precision LRSs must keep
+ */
+export function toISODuration(ms: number): string {
+  const centiseconds = Math.max(0, Math.round(ms / 10));
+  const hours = Math.floor(centiseconds / 360000);
+  const minutes = Math.floor((centiseconds % 360000) / 6000);
+  const seconds = (centiseconds % 6000) / 100;
+
+  return `PT${hours ? `${hours}H` : ''}${minutes ? `${minutes}M` : ''}${
+    seconds || (!hours && !minutes) ? `${seconds}S` : ''
+  }`;
+}
+
+/**
+ * cmi5 Statement Builder
+ *
+ * One builder per session. Building a statement records it, so the builder
+ * refuses statements the specification forbids:
+ * - completed more than once in a registration
+ * - passed after passed, failed after passed, or passed or failed after failed in the same session
+ * - completed, passed or failed in Browse or Review mode
+ * - AU statements before initialized or after terminated
+ *
+ * Usage:
+ * ```typescript
+ * const statements = new CMI5StatementBuilder(context);
+ * await client.sendStatement(statements.initialized());
+ * await client.sendStatement(statements.passed({ score: { scaled: 0.9 } }));
+ * await client.sendStatement(statements.terminated());
+ * ```
+ */
+export class CMI5StatementBuilder {
+  private context: CMI5StatementContext;
+  private completedInRegistration: boolean;
+  private passedInRegistration: boolean;
+  private failedInSession = false;
+  private initializedAt: number | null = null;
+  private terminatedAt: number | null = null;
+
+  constructor(context: CMI5StatementContext, history: CMI5RegistrationHistory = {}) {
+    this.context = context;
+    this.completedInRegistration = history.completed ?? false;
+    this.passedInRegistration = history.passed ?? false;
+  }
+
+  /**
+   * Build a statement about the AU in the context of the session
+   * The context template is applied and the registration, session ID and launch mode set.
+   * Without the cmi5 category, as fits statements the specification does not define.
+   */
+  buildStatement(verbId: string, display: string, statement: Partial<Statement> = {}): Statement {
+    const template = this.context.launchData.contextTemplate ?? {};
+
+    return {
+      id: crypto.randomUUID(),
+      timestamp: new Date().toISOString(),
+      actor: this.context.actor,
+      verb: { id: verbId, display: { 'en-US': display } },
+      object: { id: this.context.activityId, objectType: 'Activity' },
+      ...statement,
+      context: {
+        ...template,
+        ...statement.context,
+        registration: this.context.registration,
+        contextActivities: {
+          ...template.contextActivities,
+          ...statement.context?.contextActivities,
+        },
+        extensions: {
+          ...template.extensions,
+          ...statement.context?.extensions,
+          [CMI5_CONTEXT_EXTENSIONS.SESSION_ID]: this.context.sessionId,
+          [CMI5_CONTEXT_EXTENSIONS.LAUNCH_MODE]: this.context.launchData.launchMode,
+        },
+      },
+    };
+  }
+
+  initialized(options: DefinedStatementOptions = {}): Statement {
+    if (this.initializedAt !== null) {
+      throw new CMI5StatementRuleError('The session is already initialized', 'initialized');
+    }
+    const statement = this.build('initialized', options);
+    this.initializedAt = Date.now();
+    return statement;
+  }
+
+  /**
+   * Carry on a session whose initialized was sent before, e.g. by a reloaded AU
+   */
+  resume(): void {
+    if (this.initializedAt !== null) {
+      throw new CMI5StatementRuleError('The session is already initialized', 'initialized');
+    }
+    this.initializedAt = Date.now();
+  }
+
+  completed(options: DefinedStatementOptions = {}): Statement {
+    this.assertActive('completed');
+    this.assertNormalMode('completed');
+    if (this.completedInRegistration) {
+      throw new CMI5StatementRuleError(
+        'The AU is already completed in this registration',
+        'completed'
+      );
+    }
+
+    const statement = this.build('completed', options, {
+      moveOn: true,
+      result: { completion: true, duration: this.duration(options) },
+    });
+    this.completedInRegistration = true;
+    return statement;
+  }
+
+  passed(options: DefinedStatementOptions = {}): Statement {
+    this.assertActive('passed');
+    this.assertNormalMode('passed');
+    if (this.passedInRegistration) {
+      throw new CMI5StatementRuleError('The AU is already passed in this registration', 'passed');
+    }
+    if (this.failedInSession) {
+      throw new CMI5StatementRuleError(
+        'The AU failed in this session; passing requires a new session',
+        'passed'
+      );
+    }
+    const { masteryScore } = this.context.launchData;
+    if (masteryScore !== undefined && !((options.score?.scaled ?? -1) >= masteryScore)) {
+      throw new CMI5StatementRuleError(
+        `Passing requires a scaled score of at least the mastery score ${masteryScore}`,
+        'passed'
+      );
+    }
+
+    const statement = this.build('passed', options, {
+      moveOn: true,
+      masteryScore: true,
+      result: { success: true, score: options.score, duration: this.duration(options) },
+    });
+    this.passedInRegistration = true;
+    return statement;
+  }
+
+  failed(options: DefinedStatementOptions = {}): Statement {
+    this.assertActive('failed');
+    this.assertNormalMode('failed');
+    if (this.passedInRegistration) {
+      throw new CMI5StatementRuleError('The AU is already passed in this registration', 'failed');
+    }
+    if (this.failedInSession) {
+      throw new CMI5StatementRuleError('The AU already failed in this session', 'failed');
+    }
+    const { masteryScore } = this.context.launchData;
+    if (masteryScore !== undefined && !((options.score?.scaled ?? Infinity) < masteryScore)) {
+      throw new CMI5StatementRuleError(
+        `Failing requires a scaled score below the mastery score ${masteryScore}`,
+        'failed'
+      );
+    }
+
+    const statement = this.build('failed', options, {
+      moveOn: true,
+      masteryScore: true,
+      result: { success: false, score: options.score, duration: this.duration(options) },
+    });
+    this.failedInSession = true;
+    return statement;
+  }
+
+  /**
+   * Statement for a session that ended without terminated
+   * Pass the abandoned session's ID and duration, as the builder did not see it
+   */
+  abandoned(options: DefinedStatementOptions = {}): Statement {
+    return this.build('abandoned', options, {
+      result: { duration: this.duration(options) },
+    });
+  }
+
+  /**
+   * LMS statement for an AU the learner does not have to take
+   */
+  waived(options: DefinedStatementOptions = {}): Statement {
+    if (!options.reason) {
+      throw new CMI5StatementRuleError('Waiving requires a reason', 'waived');
+    }
+    return this.build('waived', options, {
+      moveOn: true,
+      result: {
+        success: true,
+        completion: true,
+        extensions: { [CMI5_RESULT_EXTENSIONS.REASON]: options.reason },
+      },
+    });
+  }
+
+  terminated(options: DefinedStatementOptions = {}): Statement {
+    this.assertActive('terminated');
+    const statement = this.build('terminated', options, {
+      result: { duration: this.duration(options) },
+    });
+    this.terminatedAt = Date.now();
+    return statement;
+  }
+
+  /**
+   * LMS statement for a block or course whose moveOn criteria are met
+   */
+  satisfied(options: DefinedStatementOptions = {}): Statement {
+    return this.build('satisfied', options, {
+      object: options.object ?? { id: this.context.activityId, objectType: 'Activity' },
+    });
+  }
+
+  private build(
+    verb: CMI5DefinedVerb,
+    options: DefinedStatementOptions,
+    parts: { moveOn?: boolean; masteryScore?: boolean; result?: Result; object?: Activity } = {}
+  ): Statement {
+    const template = this.context.launchData.contextTemplate ?? {};
+    const categories: string[] = [CMI5_CATEGORY_ACTIVITIES.CMI5];
+    if (parts.moveOn) categories.push(CMI5_CATEGORY_ACTIVITIES.MOVE_ON);
+
+    const category = [...(template.contextActivities?.category ?? [])];
+    for (const id of categories) {
+      if (!category.some((activity) => activity.id === id)) category.push({ id });
+    }
+
+    const { masteryScore } = this.context.launchData;
+    const statement = this.buildStatement(DEFINED_VERB_IDS[verb], verb, {
+      ...(options.timestamp && { timestamp: options.timestamp }),
+      ...(parts.object && { object: parts.object }),
+      ...(parts.result && { result: withoutUndefined(parts.result) }),
+      context: {
+        contextActivities: { category },
+        extensions:
+          parts.masteryScore && masteryScore !== undefined
+            ? { [CMI5_CONTEXT_EXTENSIONS.MASTERY_SCORE]: masteryScore }
+            : {},
+      },
+    });
+    if (options.sessionId) {
+      statement.context!.extensions![CMI5_CONTEXT_EXTENSIONS.SESSION_ID] = options.sessionId;
+    }
+    return statement;
+  }
+
+  private duration(options: DefinedStatementOptions): string | undefined {
+    if (typeof options.duration === 'string') return options.duration;
+    if (typeof options.duration === 'number') return toISODuration(options.duration);
+    if (this.initializedAt === null) return undefined;
+    return toISODuration(this.context.getDuration?.() ?? Date.now() - this.initializedAt);
+  }
+
+  private assertActive(verb: CMI5DefinedVerb): void {
+    if (this.initializedAt === null) {
+      throw new CMI5StatementRuleError(`${verb} must follow initialized`, verb);
+    }
+    if (this.terminatedAt !== null) {
+      throw new CMI5StatementRuleError(`${verb} cannot follow terminated`, verb);
+    }
+  }
+
+  /**
+   * Browse and Review launches must not change the AU's completion or success
+   */
+  private assertNormalMode(verb: CMI5DefinedVerb): void {
+    const { launchMode } = this.context.launchData;
+    if (launchMode !== 'Normal') {
+      throw new CMI5StatementRuleError(`${verb} cannot be sent in ${launchMode} mode`, verb);
+    }
+  }
+}
+
+function withoutUndefined(result: Result): Result {
+  return Object.fromEntries(
+    Object.entries(result).filter(([, value]) => value !== undefined)
+  ) as Result;
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { FSRSReviewHistory } from 'cmi5-fsrs-types';
+import { InsufficientReviewsError, optimizeFSRSWeights } from 'cmi5-fsrs-types';
+import { optimizeFSRSWeightsInWorker, runFSRSOptimizerWorker } from './fsrs-optimizer';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Reviews of a learner who forgets much faster than the default weights expect:
+ * stability starts at half a day, doubles on recall and resets on a lapse
+ */
+function forgetfulLearner(items: number, reviewsPerItem: number): FSRSReviewHistory[] {
+  let seed = 42;
+  const random = () => {
+    seed = (seed * 16807) % 2147483647;
+    return seed / 2147483647;
+  };
+
+  return Array.from({ length: items }, () => {
+    let time = Date.parse('2026-01-01T09:00:00Z');
+    let stability = 0.5;
+    const history: FSRSReviewHistory = [{ timestamp: new Date(time), rating: 3 }];
+    for (let i = 1; i < reviewsPerItem; i++) {
+      const elapsedDays = 1 + Math.floor(random() * 6);
+      time += elapsedDays * DAY;
+      const recalled = random() < Math.pow(1 + (19 / 81) * (elapsedDays / stability), -0.5);
+      stability = recalled ? stability * 2 : 0.5;
+      history.push({ timestamp: new Date(time), rating: recalled ? 3 : 1 });
+    }
+    return history;
+  });
+}
+
+describe('FSRS optimizer', () => {
+  const histories = forgetfulLearner(60, 6);
+
+  it('fits weights that predict the reviews better than the defaults', () => {
+    const progress: number[] = [];
+    const result = optimizeFSRSWeights(histories, {
+      minReviews: 100,
+      iterations: 30,
+      onProgress: (_, logLoss) => progress.push(logLoss),
+    });
+
+    expect(result.reviewCount).toBe(300);
+    expect(result.weights).toHaveLength(19);
+    expect(result.after.logLoss).toBeLessThan(result.before.logLoss);
+    expect(result.after.rmse).toBeLessThan(result.before.rmse);
+    expect(progress).toHaveLength(30);
+  });
+
+  it('refuses to run with too few reviews', () => {
+    expect(() => optimizeFSRSWeights(histories.slice(0, 10))).toThrow(InsufficientReviewsError);
+    expect(() => optimizeFSRSWeights(histories.slice(0, 10))).toThrow(
+      'Optimizing FSRS weights requires 400 reviews, found 50'
+    );
+  });
+
+  it('runs in a worker', async () => {
+    const { port1: worker, port2: scope } = new MessageChannel();
+    runFSRSOptimizerWorker(scope);
+    scope.start();
+    worker.start();
+
+    try {
+      const result = await optimizeFSRSWeightsInWorker(worker, histories, {
+        minReviews: 100,
+        iterations: 5,
+      });
+      expect(result.after.logLoss).toBeLessThan(result.before.logLoss);
+      expect(result.weights).toEqual(
+        optimizeFSRSWeights(histories, { minReviews: 100, iterations: 5 }).weights
+      );
+
+      const error = await optimizeFSRSWeightsInWorker(worker, histories.slice(0, 10)).catch(
+        (error: unknown) => error
+      );
+      expect(error).toBeInstanceOf(InsufficientReviewsError);
+      expect(error).toMatchObject({ reviewCount: 50, minReviews: 400 });
+    } finally {
+      worker.close();
+    }
+  });
+
+  it('rejects when the worker fails', async () => {
+    const worker = Object.assign(new EventTarget(), { postMessage: () => {} });
+
+    const result = optimizeFSRSWeightsInWorker(worker, histories);
+    worker.dispatchEvent(Object.assign(new Event('error'), { message: 'Uncaught ReferenceError' }));
+
+    await expect(result).rejects.toThrow('Uncaught ReferenceError');
+  });
+
+  it('stops waiting for the worker when aborted', async () => {
+    const worker = Object.assign(new EventTarget(), { postMessage: () => {} });
+    const controller = new AbortController();
+
+    const result = optimizeFSRSWeightsInWorker(worker, histories, { signal: controller.signal });
+    controller.abort(new Error('Cancelled'));
+
+    await expect(result).rejects.toThrow('Cancelled');
+    await expect(
+      optimizeFSRSWeightsInWorker(worker, histories, { signal: controller.signal })
+    ).rejects.toThrow('Cancelled');
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * FSRS Optimizer Worker
+ *
+ * Runs the FSRS optimizer from `cmi5-fsrs-types` in a worker, so fitting
+ * weights to a long review history does not block the page.
+ */
+
+import type {
+  FSRSOptimizationResult,
+  FSRSOptimizerOptions,
+  FSRSReviewHistory,
+} from 'cmi5-fsrs-types';
+import { InsufficientReviewsError, optimizeFSRSWeights } from 'cmi5-fsrs-types';
+
+/**
+ * Where optimizer messages are exchanged: a Worker, the worker's global scope
+ * or a MessagePort
+ */
+export interface FSRSOptimizerPort {
+  postMessage(message: unknown): void;
+  addEventListener(type: 'message' | 'messageerror', listener: (event: MessageEvent) => void): void;
+  addEventListener(type: 'error', listener: (event: Event) => void): void;
+  removeEventListener(
+    type: 'message' | 'messageerror',
+    listener: (event: MessageEvent) => void
+  ): void;
+  removeEventListener(type: 'error', listener: (event: Event) => void): void;
+}
+
+/**
+ * Options of an optimization in a worker
+ */
+export interface FSRSWorkerOptimizerOptions extends FSRSOptimizerOptions {
+  /**
+   * Stops waiting for the worker, rejecting with the abort reason
+   * The worker finishes the run it is in; terminate it to stop that too
+   */
+  signal?: AbortSignal;
+}
+
+/** Message asking a worker to optimize */
+interface OptimizeRequest {
+  type: 'optimize';
+  id: string;
+  histories: FSRSReviewHistory[];
+  options: Omit<FSRSOptimizerOptions, 'onProgress'>;
+}
+
+/** Messages a worker answers with */
+type OptimizeResponse =
+  | { type: 'progress'; id: string; iteration: number; logLoss: number }
+  | { type: 'result'; id: string; result: FSRSOptimizationResult }
+  | { type: 'insufficient-reviews'; id: string; reviewCount: number; minReviews: number }
+  | { type: 'error'; id: string; name: string; message: string };
+
+/**
+ * Serve optimization requests in a worker
+ *
+ * Usage (the worker script):
+ * ```typescript
+ * import { runFSRSOptimizerWorker } from 'cmi5-client';
+ * runFSRSOptimizerWorker(self);
+ * ```
+ */
+export function runFSRSOptimizerWorker(scope: FSRSOptimizerPort): void {
+  scope.addEventListener('message', (event) => {
+    const request = event.data as OptimizeRequest;
+    if (request?.type !== 'optimize') return;
+
+    const respond = (response: OptimizeResponse) => scope.postMessage(response);
+    try {
+      const result = optimizeFSRSWeights(request.histories, {
+        ...request.options,
+        onProgress: (iteration, logLoss) =>
+          respond({ type: 'progress', id: request.id, iteration, logLoss }),
+      });
+      respond({ type: 'result', id: request.id, result });
+    } catch (error) {
+      if (error instanceof InsufficientReviewsError) {
+        const { reviewCount, minReviews } = error;
+        respond({ type: 'insufficient-reviews', id: request.id, reviewCount, minReviews });
+        return;
+      }
+      const { name, message } = error instanceof Error ? error : new Error(String(error));
+      respond({ type: 'error', id: request.id, name, message });
+    }
+  });
+}
+
+/**
+ * Optimize in a worker running `runFSRSOptimizerWorker`, keeping the page responsive
+ * Rejects if the worker fails (an uncaught error or a message that cannot be
+ * read) or the signal aborts.
+ *
+ * Usage:
+ * ```typescript
+ * const worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), {
+ *   type: 'module',
+ * });
+ * const result = await optimizeFSRSWeightsInWorker(worker, histories, {
+ *   signal: AbortSignal.timeout(60_000),
+ * });
+ * ```
+ */
+export function optimizeFSRSWeightsInWorker(
+  worker: FSRSOptimizerPort,
+  histories: FSRSReviewHistory[],
+  options: FSRSWorkerOptimizerOptions = {}
+): Promise<FSRSOptimizationResult> {
+  const { onProgress, signal, ...workerOptions } = options;
+  const id = crypto.randomUUID();
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const cleanup = () => {
+      worker.removeEventListener('message', onMessage);
+      worker.removeEventListener('messageerror', onMessageError);
+      worker.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const fail = (error: unknown) => {
+      cleanup();
+      reject(error);
+    };
+    const onMessage = (event: MessageEvent) => {
+      const response = event.data as OptimizeResponse;
+      if (response?.id !== id) return;
+
+      if (response.type === 'progress') {
+        onProgress?.(response.iteration, response.logLoss);
+      } else if (response.type === 'result') {
+        cleanup();
+        resolve(response.result);
+      } else if (response.type === 'insufficient-reviews') {
+        fail(new InsufficientReviewsError(response.reviewCount, response.minReviews));
+      } else {
+        fail(Object.assign(new Error(response.message), { name: response.name }));
+      }
+    };
+    const onMessageError = () =>
+      fail(new Error('FSRS optimizer worker sent an unreadable message'));
+    const onError = (event: Event) =>
+      fail(new Error((event as ErrorEvent).message || 'FSRS optimizer worker failed'));
+    const onAbort = () => fail(signal?.reason);
+
+    worker.addEventListener('message', onMessage);
+    worker.addEventListener('messageerror', onMessageError);
+    worker.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    worker.postMessage({ type: 'optimize', id, histories, options: workerOptions });
+  });
+}
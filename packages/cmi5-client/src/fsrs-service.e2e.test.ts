@@ -0,0 +1,219 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import { FSRSService } from './fsrs-service';
+import type { CMI5LaunchParameters } from 'cmi5-core';
+import { CMI5_CONTEXT_EXTENSIONS } from 'cmi5-core';
+import type { ReviewInput } from 'cmi5-fsrs-types';
+import {
+  InsufficientReviewsError,
+  createInitialFSRSState,
+  getActivityAccuracy,
+  scheduleReview,
+} from 'cmi5-fsrs-types';
+import { LRSStore, REVIEW_VERB_IRI } from 'cmi5-lrs';
+
+describe('FSRSService (e2e)', () => {
+  let lrs: LRSStore;
+  let launchParams: CMI5LaunchParameters;
+  let service: FSRSService;
+
+  beforeEach(async () => {
+    lrs = new LRSStore({
+      dbName: 'test-fsrs-lrs.db',
+      inMemory: true,
+    });
+    await lrs.init();
+
+    launchParams = {
+      endpoint: 'https://example.com/lrs',
+      auth: 'Bearer test-token',
+      actor: JSON.stringify({
+        mbox: 'mailto:test@example.com',
+        name: 'Test User',
+      }),
+      registration: 'test-registration',
+      activityId: 'test-activity',
+    };
+
+    service = new FSRSService({ lrs, launchParams, userId: 'test-user' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns review history past the first page of statements', async () => {
+    for (let i = 0; i < 120; i++) {
+      await lrs.storeStatement({
+        actor: { mbox: 'mailto:test@example.com', name: 'Test User' },
+        verb: { id: REVIEW_VERB_IRI, display: { 'en-US': 'reviewed' } },
+        object: { id: 'https://cmi5.tools/objectives/vocab-hello', objectType: 'Activity' },
+        context: { registration: 'test-registration' },
+      });
+    }
+
+    expect(await service.getReviewHistory('vocab:hello')).toHaveLength(120);
+    expect(await service.getReviewHistory('vocab:hello', 10)).toHaveLength(10);
+  });
+
+  const review: ReviewInput = {
+    itemId: 'vocab:hello',
+    activity: 'recognition',
+    rating: 3,
+    responseTime: 1200,
+    wasCorrect: true,
+  };
+
+  it('does not store reviews of Browse and Review launches', async () => {
+    const reviewing = new FSRSService({
+      lrs,
+      launchParams,
+      userId: 'test-user',
+      launchMode: 'Review',
+    });
+
+    const learnerState = await reviewing.recordReview(review);
+
+    expect(learnerState?.state.reps).toBe(1);
+    expect(await reviewing.hasLearnerState('vocab:hello')).toBe(false);
+    expect(await reviewing.getReviewLog('vocab:hello')).toEqual([]);
+    expect((await lrs.queryStatements({ verb: REVIEW_VERB_IRI })).statements).toHaveLength(0);
+  });
+
+  it('marks review statements with the launch mode', async () => {
+    await service.recordReview(review);
+
+    const [statement] = (await lrs.queryStatements({ verb: REVIEW_VERB_IRI })).statements;
+    expect(statement?.context?.extensions?.[CMI5_CONTEXT_EXTENSIONS.LAUNCH_MODE]).toBe('Normal');
+  });
+
+  const DAY = 24 * 60 * 60 * 1000;
+
+  async function reviewAt(
+    scheduling: FSRSService,
+    time: string,
+    rating: ReviewInput['rating'] = 3
+  ) {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.parse(time));
+    return (await scheduling.recordReview({ ...review, rating }))!;
+  }
+
+  it('schedules from the time actually elapsed since the last review', async () => {
+    const late = new FSRSService({ lrs, launchParams, userId: 'test-user', registration: 'late' });
+    for (const scheduling of [service, late]) {
+      await reviewAt(scheduling, '2026-01-01T00:00:00Z');
+      await reviewAt(scheduling, '2026-01-01T00:10:00Z');
+    }
+
+    const onTime = await reviewAt(service, '2026-01-03T00:10:00Z');
+    const overdue = await reviewAt(late, '2026-01-20T00:10:00Z');
+
+    expect(overdue.state.elapsedDays).toBe(19);
+    expect(overdue.state.stability).toBeGreaterThan(onTime.state.stability);
+    expect(overdue.nextReview.getTime() - overdue.lastReviewed.getTime()).toBeGreaterThan(
+      onTime.nextReview.getTime() - onTime.lastReviewed.getTime()
+    );
+    expect((await service.getLearnerState('vocab:hello'))?.nextReview).toEqual(onTime.nextReview);
+  });
+
+  it('keeps a failed item in short-term relearning', async () => {
+    await reviewAt(service, '2026-01-01T00:00:00Z', 4);
+    const lapsed = await reviewAt(service, '2026-01-10T00:00:00Z', 1);
+
+    expect(lapsed.state).toMatchObject({ state: 'relearning', lapses: 1 });
+    expect(lapsed.nextReview.getTime() - lapsed.lastReviewed.getTime()).toBeLessThan(DAY);
+  });
+
+  it('applies the scheduler configuration', async () => {
+    const strict = new FSRSService({
+      lrs,
+      launchParams,
+      userId: 'test-user',
+      registration: 'strict',
+      scheduler: { requestRetention: 0.95 },
+    });
+    for (const scheduling of [service, strict]) {
+      await reviewAt(scheduling, '2026-01-01T00:00:00Z', 4);
+    }
+
+    const standard = await reviewAt(service, '2026-01-10T00:00:00Z');
+    const stricter = await reviewAt(strict, '2026-01-10T00:00:00Z');
+
+    expect(stricter.nextReview.getTime()).toBeLessThan(standard.nextReview.getTime());
+  });
+
+  it('logs every review with the card state before and after', async () => {
+    await reviewAt(service, '2026-01-01T00:00:00Z');
+    await reviewAt(service, '2026-01-01T00:10:00Z');
+    const third = await reviewAt(service, '2026-01-03T00:10:00Z', 1);
+
+    const log = await service.getReviewLog('vocab:hello');
+    expect(log).toHaveLength(3);
+    expect(log[0]).toMatchObject({
+      timestamp: new Date('2026-01-01T00:00:00Z'),
+      activity: 'recognition',
+      rating: 3,
+      responseTime: 1200,
+      wasCorrect: true,
+      stateBefore: { state: 'new', reps: 0 },
+    });
+    expect(log[1]!.stateBefore).toEqual(log[0]!.stateAfter);
+    expect(log[2]).toMatchObject({ rating: 1, stateAfter: third.state });
+    expect((await service.getLearnerState('vocab:hello'))?.reviewLog).toBeUndefined();
+    expect(
+      (await service.getLearnerState('vocab:hello', { includeReviewLog: true }))?.reviewLog
+    ).toEqual(log);
+    // Statements are only sent for milestones
+    expect((await lrs.queryStatements({ verb: REVIEW_VERB_IRI })).statements.length).toBeLessThan(
+      log.length
+    );
+  });
+
+  it('tracks accuracy and response time per activity', async () => {
+    await service.recordReview(review);
+    await service.recordReview({ ...review, responseTime: 1800, wasCorrect: false, rating: 1 });
+    await service.recordReview({ ...review, activity: 'production', responseTime: 3000 });
+
+    const learnerState = (await service.getLearnerState('vocab:hello'))!;
+    expect(learnerState.activityMastery.recognition).toMatchObject({
+      attempts: 2,
+      correct: 1,
+      avgResponseTime: 1500,
+    });
+    expect(learnerState.activityMastery.production).toMatchObject({ attempts: 1, correct: 1 });
+    expect(getActivityAccuracy(learnerState, 'recognition')).toBe(0.5);
+    expect(getActivityAccuracy(learnerState, 'listening')).toBeNull();
+
+    expect(await service.getDueLearnerStates({ activity: 'listening' })).toEqual([]);
+  });
+
+  it('fits the scheduler to the registration and uses the fitted weights', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    for (let day = 0; day < 5; day++) {
+      vi.setSystemTime(Date.parse('2026-01-01T00:00:00Z') + day * 3 * DAY);
+      for (let item = 0; item < 15; item++) {
+        const rating = (item + day) % 4 === 0 ? 1 : 3;
+        await service.recordReview({ ...review, itemId: `vocab:${item}`, rating });
+      }
+    }
+
+    await expect(service.optimizeScheduler()).rejects.toBeInstanceOf(InsufficientReviewsError);
+
+    const result = await service.optimizeScheduler({ minReviews: 50, iterations: 5 });
+    expect(result.reviewCount).toBe(60);
+    expect(await service.getSchedulerConfig()).toMatchObject({
+      weights: result.weights,
+      reviewCount: 60,
+    });
+
+    const later = new FSRSService({ lrs, launchParams, userId: 'test-user' });
+    const learnerState = await reviewAt(later, '2026-02-01T00:00:00Z', 4);
+    const expected = scheduleReview(
+      { state: createInitialFSRSState() },
+      4,
+      new Date('2026-02-01T00:00:00Z'),
+      { weights: result.weights }
+    );
+    expect(learnerState.nextReview).toEqual(expected.nextReview);
+  });
+});
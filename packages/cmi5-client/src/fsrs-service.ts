@@ -10,14 +10,31 @@ import type { Statement, Actor } from '@xapi/xapi';
 import type {
   FSRSState,
   FSRSRating,
+  FSRSSchedulerOptions,
+  FSRSOptimizationResult,
+  FSRSOptimizerOptions,
+  FSRSReviewHistory,
   ReviewInput,
   ActivityType,
+  ActivityMasteryMap,
   LearnerState,
+  ReviewLogEntry,
 } from 'cmi5-fsrs-types';
-import { createInitialFSRSState, calculateMastery } from 'cmi5-fsrs-types';
-import type { CMI5LaunchParameters } from 'cmi5-core';
-import { CMI5_ACTIVITY_TYPES } from 'cmi5-core';
-import type { FSRSExtension } from 'cmi5-lrs';
+import {
+  createInitialFSRSState,
+  calculateMastery,
+  optimizeFSRSWeights,
+  scheduleReview,
+  updateActivityMastery,
+} from 'cmi5-fsrs-types';
+import type { CMI5LaunchMode, CMI5LaunchParameters } from 'cmi5-core';
+import { CMI5_ACTIVITY_TYPES, CMI5_CONTEXT_EXTENSIONS } from 'cmi5-core';
+import type {
+  FSRSActivityMastery,
+  FSRSExtension,
+  FSRSReviewLogEntry,
+  FSRSSchedulerConfig,
+} from 'cmi5-lrs';
 import { FSRS_EXTENSION_IRI, REVIEW_VERB_IRI } from 'cmi5-lrs';
 
 // -----------------------------------------------------------------------------
@@ -53,6 +70,7 @@ function generateReviewStatement(
   objectiveId: string,
   launchParams: CMI5LaunchParameters,
   reviewDetails: ReviewDetails,
+  launchMode: CMI5LaunchMode,
   auId?: string,
   auTitle?: string
 ): Statement {
@@ -111,6 +129,9 @@ function generateReviewStatement(
             ],
           }
         : undefined,
+      extensions: {
+        [CMI5_CONTEXT_EXTENSIONS.LAUNCH_MODE]: launchMode,
+      },
     },
     timestamp: new Date().toISOString(),
   };
@@ -133,6 +154,16 @@ export interface FSRSServiceOptions {
   masteryThreshold?: number;
   /** Periodic review milestone interval (default: 10) */
   periodicMilestoneInterval?: number;
+  /**
+   * Launch mode of this launch, from LMS.LaunchData (default: 'Normal')
+   * Browse and Review launches practise without changing stored FSRS state
+   */
+  launchMode?: CMI5LaunchMode;
+  /**
+   * FSRS scheduler configuration (default: the ts-fsrs defaults)
+   * A configuration stored for the registration, e.g. by `optimizeScheduler()`, takes precedence
+   */
+  scheduler?: FSRSSchedulerOptions;
 }
 
 export interface DueQueryOptions {
@@ -157,6 +188,9 @@ export class FSRSService {
   private registration: string;
   private masteryThreshold: number;
   private periodicMilestoneInterval: number;
+  private launchMode: CMI5LaunchMode;
+  private scheduler: FSRSSchedulerOptions;
+  private storedScheduler: Promise<FSRSSchedulerConfig | null> | null = null;
   private agent: Statement['actor'];
 
   constructor(options: FSRSServiceOptions) {
@@ -166,6 +200,8 @@ export class FSRSService {
     this.registration = options.registration || options.launchParams.registration || 'local-registration';
     this.masteryThreshold = options.masteryThreshold ?? 0.8;
     this.periodicMilestoneInterval = options.periodicMilestoneInterval ?? 10;
+    this.launchMode = options.launchMode ?? 'Normal';
+    this.scheduler = options.scheduler ?? {};
 
     // Parse actor from launch params
     try {
@@ -181,7 +217,9 @@ export class FSRSService {
 
   /**
    * Record a review and update FSRS state
-   * Returns updated learner state
+   * Every review is appended to the item's review log and counted in its
+   * activity mastery. Returns updated learner state. In Browse and Review mode
+   * the review is a sandbox: the updated learner state is returned but nothing is stored.
    */
   async recordReview(review: ReviewInput, auId?: string, auTitle?: string): Promise<LearnerState | null> {
     // Get existing FSRS state
@@ -204,15 +242,28 @@ export class FSRSService {
       firstReview = new Date().toISOString();
     }
 
-    // Apply FSRS algorithm
-    const updatedFsrsState = this.applyFSRS(fsrsState, review);
+    // Schedule with FSRS, measuring elapsed time from the actual last review
+    const now = new Date();
+    const scheduled = scheduleReview(
+      {
+        state: fsrsState,
+        lastReview: existing ? new Date(existing.lastReview) : undefined,
+        nextReview: existing ? new Date(existing.nextReview) : undefined,
+      },
+      review.rating,
+      now,
+      await this.getSchedulerOptions()
+    );
+    const updatedFsrsState = scheduled.state;
+    const activityMastery = updateActivityMastery(
+      toActivityMasteryMap(existing?.activityMastery),
+      review,
+      now
+    );
 
     // Calculate new mastery
-    const now = new Date();
     const lastReview = now.toISOString();
-    const nextReview = new Date(
-      now.getTime() + updatedFsrsState.scheduledDays * 24 * 60 * 60 * 1000
-    ).toISOString();
+    const nextReview = scheduled.nextReview.toISOString();
 
     // Create temporary learner state for mastery calculation
     const tempState: LearnerState = {
@@ -220,7 +271,7 @@ export class FSRSService {
       userId: this.userId,
       mastery: 0, // Will be calculated
       state: updatedFsrsState,
-      activityMastery: {},
+      activityMastery,
       firstSeen: existing?.firstReview ? new Date(existing.firstReview) : now,
       lastReviewed: now,
       nextReview: new Date(nextReview),
@@ -239,17 +290,45 @@ export class FSRSService {
       newReviewCount
     );
 
-    // Save FSRS state to LRS
-    await this.lrs.saveFSRSState(
+    const learnerState: LearnerState = {
+      itemId: review.itemId,
+      userId: this.userId,
+      mastery: newMastery,
+      state: updatedFsrsState,
+      activityMastery,
+      firstSeen: existing?.firstReview ? new Date(existing.firstReview) : now,
+      lastReviewed: now,
+      nextReview: new Date(nextReview),
+    };
+
+    // Reviews outside Normal launches must not change the learner's progress
+    if (this.launchMode !== 'Normal') {
+      return learnerState;
+    }
+
+    // Save FSRS state and the review together, so no review is missing from the log
+    await this.lrs.recordFSRSReview(
       this.registration,
       review.itemId,
       this.agent,
-      updatedFsrsState,
-      newMastery,
-      lastReview,
-      nextReview,
-      newReviewCount,
-      firstReview || existing?.firstReview
+      {
+        fsrs: updatedFsrsState,
+        mastery: newMastery,
+        lastReview,
+        nextReview,
+        reviewCount: newReviewCount,
+        firstReview: firstReview || existing?.firstReview,
+        activityMastery: toStoredActivityMastery(activityMastery),
+      },
+      {
+        timestamp: lastReview,
+        activity: review.activity,
+        rating: review.rating,
+        responseTime: review.responseTime,
+        wasCorrect: review.wasCorrect,
+        stateBefore: fsrsState,
+        stateAfter: updatedFsrsState,
+      }
     );
 
     // Generate and store milestone statement if needed
@@ -272,6 +351,7 @@ export class FSRSService {
           previousMastery: reviewCount === 0 ? undefined : previousMastery,
           previousState: reviewCount === 0 ? undefined : previousState,
         },
+        this.launchMode,
         auId,
         auTitle
       );
@@ -280,22 +360,18 @@ export class FSRSService {
     }
 
     // Return updated learner state
-    return {
-      itemId: review.itemId,
-      userId: this.userId,
-      mastery: newMastery,
-      state: updatedFsrsState,
-      activityMastery: {}, // Activity mastery would need separate tracking
-      firstSeen: existing?.firstReview ? new Date(existing.firstReview) : now,
-      lastReviewed: now,
-      nextReview: new Date(nextReview),
-    };
+    return learnerState;
   }
 
   /**
    * Get learner state for an item
+   *
+   * @param options - Set `includeReviewLog` to load the item's review log as well
    */
-  async getLearnerState(itemId: string): Promise<LearnerState | null> {
+  async getLearnerState(
+    itemId: string,
+    options: { includeReviewLog?: boolean } = {}
+  ): Promise<LearnerState | null> {
     const fsrsExtension = await this.lrs.getFSRSState(
       this.registration,
       itemId,
@@ -304,18 +380,19 @@ export class FSRSService {
 
     if (!fsrsExtension) return null;
 
-    return {
-      itemId,
-      userId: this.userId,
-      mastery: fsrsExtension.mastery,
-      state: fsrsExtension.fsrs,
-      activityMastery: {}, // Activity mastery would need separate tracking
-      firstSeen: fsrsExtension.firstReview
-        ? new Date(fsrsExtension.firstReview)
-        : new Date(),
-      lastReviewed: new Date(fsrsExtension.lastReview),
-      nextReview: new Date(fsrsExtension.nextReview),
-    };
+    const learnerState = this.toLearnerState(itemId, fsrsExtension);
+    if (options.includeReviewLog) {
+      learnerState.reviewLog = await this.getReviewLog(itemId);
+    }
+    return learnerState;
+  }
+
+  /**
+   * Get every review of an item, oldest first
+   */
+  async getReviewLog(itemId: string): Promise<ReviewLogEntry[]> {
+    const log = await this.lrs.getFSRSReviewLog(this.registration, itemId, this.agent);
+    return log.map(toReviewLogEntry);
   }
 
   /**
@@ -331,14 +408,13 @@ export class FSRSService {
       const nextReview = new Date(fsrsExtension.nextReview);
 
       if (nextReview <= before) {
-        const learnerState = await this.getLearnerState(itemId);
-        if (learnerState) {
-          // Apply filters
-          if (options.lessonId && !itemId.includes(options.lessonId)) continue;
-          // Activity filter would need additional data
-
-          dueStates.push(learnerState);
-        }
+        const learnerState = this.toLearnerState(itemId, fsrsExtension);
+
+        // Apply filters
+        if (options.lessonId && !itemId.includes(options.lessonId)) continue;
+        if (options.activity && !learnerState.activityMastery[options.activity]) continue;
+
+        dueStates.push(learnerState);
       }
     }
 
@@ -355,9 +431,10 @@ export class FSRSService {
 
   /**
    * Get review history for an item
-   * Queries xAPI statements for review milestones
+   * Queries xAPI statements for review milestones, newest first, following
+   * every page of the result unless a limit is given
    */
-  async getReviewHistory(itemId: string, limit: number = 50): Promise<Array<{
+  async getReviewHistory(itemId: string, limit?: number): Promise<Array<{
     timestamp: Date;
     rating: FSRSRating;
     activity: string;
@@ -366,14 +443,18 @@ export class FSRSService {
   }>> {
     const objectiveId = this.getObjectiveIdForItem(itemId);
 
-    const results = await this.lrs.queryStatements({
+    const statements: Statement[] = [];
+    for await (const page of this.lrs.streamStatements({
       verb: REVIEW_VERB_IRI,
       activity: objectiveId,
       registration: this.registration,
       limit,
-    });
+    })) {
+      statements.push(...page);
+      if (limit !== undefined && statements.length >= limit) break;
+    }
 
-    return results.statements.map((stmt) => {
+    return statements.slice(0, limit).map((stmt) => {
       const extensions = stmt.result?.extensions?.[FSRS_EXTENSION_IRI] as any;
       return {
         timestamp: new Date(stmt.timestamp || stmt.stored || Date.now()),
@@ -385,6 +466,57 @@ export class FSRSService {
     });
   }
 
+  /**
+   * Get the scheduler configuration stored for the registration
+   */
+  async getSchedulerConfig(): Promise<FSRSSchedulerConfig | null> {
+    this.storedScheduler ??= this.lrs.getFSRSSchedulerConfig(this.registration, this.agent);
+    return this.storedScheduler;
+  }
+
+  /**
+   * Store the scheduler configuration of the registration, used for its later reviews
+   */
+  async saveSchedulerConfig(config: FSRSSchedulerConfig): Promise<void> {
+    await this.lrs.saveFSRSSchedulerConfig(this.registration, this.agent, config);
+    this.storedScheduler = Promise.resolve(config);
+  }
+
+  /**
+   * Fit FSRS weights to the registration's review logs and store them as its
+   * scheduler configuration. Starts from the weights currently in use.
+   * Pass `optimize` to run the optimizer elsewhere, e.g. with
+   * `optimizeFSRSWeightsInWorker`. In Browse and Review mode nothing is stored.
+   *
+   * @throws InsufficientReviewsError when the registration has too few reviews
+   */
+  async optimizeScheduler(
+    options: FSRSOptimizerOptions = {},
+    optimize: (
+      histories: FSRSReviewHistory[],
+      options: FSRSOptimizerOptions
+    ) => FSRSOptimizationResult | Promise<FSRSOptimizationResult> = optimizeFSRSWeights
+  ): Promise<FSRSOptimizationResult> {
+    const logs = await this.lrs.getAllFSRSReviewLogs(this.registration, this.agent);
+    const histories = [...logs.values()].map((log) => log.map(toReviewLogEntry));
+    const scheduler = await this.getSchedulerOptions();
+
+    const result = await optimize(histories, {
+      ...options,
+      initialWeights: options.initialWeights ?? scheduler.weights,
+    });
+
+    if (this.launchMode === 'Normal') {
+      await this.saveSchedulerConfig({
+        ...(await this.getSchedulerConfig()),
+        weights: result.weights,
+        optimizedAt: new Date().toISOString(),
+        reviewCount: result.reviewCount,
+      });
+    }
+    return result;
+  }
+
   /**
    * Check if an item has been reviewed
    */
@@ -397,6 +529,14 @@ export class FSRSService {
     return state !== null;
   }
 
+  /**
+   * Scheduler options in effect: the stored configuration over the `scheduler` option
+   */
+  private async getSchedulerOptions(): Promise<FSRSSchedulerOptions> {
+    const { optimizedAt, reviewCount, ...stored } = (await this.getSchedulerConfig()) ?? {};
+    return { ...this.scheduler, ...stored };
+  }
+
   /**
    * Get FSRS extension state
    */
@@ -405,47 +545,21 @@ export class FSRSService {
   }
 
   /**
-   * Apply FSRS algorithm to update state
+   * Build the learner state of an item from its stored FSRS state
    */
-  private applyFSRS(fsrsState: FSRSState, review: ReviewInput): FSRSState {
-    const rating = typeof review.rating === 'string'
-      ? (review.rating === 'again' ? 1 : review.rating === 'hard' ? 2 : review.rating === 'good' ? 3 : 4)
-      : review.rating;
-
-    const newFsrs = { ...fsrsState };
-
-    // Calculate elapsed days
-    const now = Date.now();
-    const lastReviewTime = fsrsState.reps > 0
-      ? now - (fsrsState.scheduledDays * 24 * 60 * 60 * 1000)
-      : now;
-    newFsrs.elapsedDays = Math.floor((now - lastReviewTime) / (24 * 60 * 60 * 1000));
-
-    if (rating === 1) {
-      // Again - item was forgotten
-      newFsrs.lapses += 1;
-      newFsrs.difficulty = Math.min(10, newFsrs.difficulty + 0.5);
-      newFsrs.stability = Math.max(0.1, newFsrs.stability * 0.5);
-      newFsrs.state = 'relearning';
-    } else {
-      // Hard, Good, or Easy
-      newFsrs.reps += 1;
-      const stabilityMultiplier = 1 + (rating - 2) * 0.5;
-      newFsrs.stability = Math.max(0.1, newFsrs.stability * stabilityMultiplier);
-      newFsrs.difficulty = Math.max(1, Math.min(10, newFsrs.difficulty - 0.1 * (rating - 2)));
-
-      // Update state based on stability
-      if (newFsrs.stability < 1) {
-        newFsrs.state = 'learning';
-      } else if (newFsrs.state === 'new' || newFsrs.state === 'learning') {
-        newFsrs.state = 'review';
-      }
-    }
-
-    // Calculate next scheduled review interval
-    newFsrs.scheduledDays = Math.max(1, Math.round(newFsrs.stability));
-
-    return newFsrs;
+  private toLearnerState(itemId: string, fsrsExtension: FSRSExtension): LearnerState {
+    return {
+      itemId,
+      userId: this.userId,
+      mastery: fsrsExtension.mastery,
+      state: fsrsExtension.fsrs,
+      activityMastery: toActivityMasteryMap(fsrsExtension.activityMastery),
+      firstSeen: fsrsExtension.firstReview
+        ? new Date(fsrsExtension.firstReview)
+        : new Date(),
+      lastReviewed: new Date(fsrsExtension.lastReview),
+      nextReview: new Date(fsrsExtension.nextReview),
+    };
   }
 
   /**
@@ -493,3 +607,33 @@ export class FSRSService {
     return `https://cmi5.tools/objectives/${itemId.replace(/:/g, '-')}`;
   }
 }
+
+function toActivityMasteryMap(
+  stored: Record<string, FSRSActivityMastery> = {}
+): ActivityMasteryMap {
+  return Object.fromEntries(
+    Object.entries(stored).map(([activity, mastery]) => [
+      activity,
+      { ...mastery, lastAttempt: new Date(mastery.lastAttempt) },
+    ])
+  );
+}
+
+function toStoredActivityMastery(
+  activityMastery: ActivityMasteryMap
+): Record<string, FSRSActivityMastery> {
+  return Object.fromEntries(
+    Object.entries(activityMastery).map(([activity, mastery]) => [
+      activity,
+      { ...mastery, lastAttempt: mastery.lastAttempt.toISOString() },
+    ])
+  );
+}
+
+function toReviewLogEntry(entry: FSRSReviewLogEntry): ReviewLogEntry {
+  return {
+    ...entry,
+    timestamp: new Date(entry.timestamp),
+    activity: entry.activity as ActivityType,
+  };
+}
@@ -13,6 +13,13 @@
 export * from './xapi-client';
 export * from './state-manager';
 export * from './launcher';
+export * from './session';
+export * from './defined-statements';
+export * from './active-time';
+export * from './lms-simulator';
 export * from './sync-manager';
+export * from './retry';
+export * from './outbox-flusher';
 export * from './offline-first';
 export * from './fsrs-service';
+export * from './fsrs-optimizer';
@@ -19,20 +19,22 @@ export function parseCMI5LaunchParameters(queryString: string): CMI5LaunchParame
   const endpoint = params.get('endpoint');
   const auth = params.get('auth');
   const actor = params.get('actor');
+  const fetch = params.get('fetch') || undefined;
 
-  if (!endpoint || !auth || !actor) {
+  // cmi5 launches have no auth parameter; the AU obtains the token from fetch
+  if (!endpoint || !actor || (!auth && !fetch)) {
     throw new Error(
-      'Missing required CMI5 launch parameters. Required: endpoint, auth, actor'
+      'Missing required CMI5 launch parameters. Required: endpoint, actor, and auth or fetch'
     );
   }
 
   return {
     endpoint,
-    auth,
+    auth: auth ?? '',
     actor,
     registration: params.get('registration') || undefined,
     activityId: params.get('activityId') || undefined,
-    fetch: params.get('fetch') || undefined,
+    fetch,
   };
 }
 
@@ -65,7 +67,9 @@ export function buildCMI5LaunchURL(
   const url = new URL(baseUrl);
   
   url.searchParams.set('endpoint', params.endpoint);
-  url.searchParams.set('auth', params.auth);
+  if (params.auth) {
+    url.searchParams.set('auth', params.auth);
+  }
   url.searchParams.set('actor', params.actor);
   
   if (params.registration) {
@@ -0,0 +1,207 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import { LRSStore } from 'cmi5-lrs';
+import type { CMI5Course } from 'cmi5-core';
+import { CMI5_CONTEXT_EXTENSIONS, CMI5_VERBS } from 'cmi5-core';
+import { LMSSimulator } from './lms-simulator';
+import { CMI5Session } from './session';
+
+const ACTOR = { mbox: 'mailto:learner@example.com', name: 'Learner' };
+const BLOCK_ID = 'https://example.com/course/block/1';
+
+const course: CMI5Course = {
+  id: 'https://example.com/course',
+  title: 'Course',
+  assignableUnits: [
+    {
+      id: 'https://example.com/au/read',
+      title: 'Read',
+      launchUrl: 'https://content.example.com/read.html',
+      moveOn: 'Completed',
+      objectives: [],
+    },
+    {
+      id: 'https://example.com/au/quiz',
+      title: 'Quiz',
+      launchUrl: 'https://content.example.com/quiz.html',
+      moveOn: 'Passed',
+      masteryScore: 0.8,
+      objectives: [],
+    },
+    {
+      id: 'https://example.com/au/extra',
+      title: 'Extra',
+      launchUrl: 'https://content.example.com/extra.html',
+      launchMethod: 'OwnWindow',
+      launchParameters: '{"deck":"verbs"}',
+      entitlementKey: 'vendor-key-123',
+      moveOn: 'NotApplicable',
+      objectives: [],
+    },
+  ],
+};
+
+describe('LMSSimulator (e2e)', () => {
+  let lrs: LRSStore;
+  let lms: LMSSimulator;
+
+  beforeEach(async () => {
+    lrs = new LRSStore({ dbName: 'test-lms-simulator.db', inMemory: true });
+    await lrs.init();
+
+    lms = new LMSSimulator({
+      lrs,
+      endpoint: 'https://lms.example.com/xapi',
+      fetchURL: 'https://lms.example.com/fetch',
+      returnURL: 'https://lms.example.com/course',
+    });
+    lms.importCourse(course, [
+      { id: BLOCK_ID, auIds: ['https://example.com/au/read', 'https://example.com/au/quiz'] },
+    ]);
+
+    vi.stubGlobal('fetch', (input: string, init?: RequestInit) =>
+      lms.handleFetch(new Request(input, init))
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  async function startSession(registration: string, auId: string): Promise<CMI5Session> {
+    const { url } = await lms.launch(registration, auId);
+    const session = CMI5Session.fromURL(url, {
+      client: { useLocalLRS: true, localLRS: lrs },
+      tokenStorage: null,
+    });
+    await session.start();
+    return session;
+  }
+
+  it('launches AUs and sends satisfied once blocks and the course are satisfied', async () => {
+    const registration = lms.createRegistration(course.id, ACTOR);
+
+    const read = await startSession(registration, 'https://example.com/au/read');
+    await read.client.sendStatement(read.statements.completed());
+    await read.terminate();
+    expect(await lms.evaluate(registration)).toEqual([]);
+
+    const quiz = await startSession(registration, 'https://example.com/au/quiz');
+    expect(quiz.launchData).toMatchObject({
+      moveOn: 'Passed',
+      masteryScore: 0.8,
+      returnURL: 'https://lms.example.com/course',
+    });
+    await quiz.client.sendStatement(quiz.statements.passed({ score: { scaled: 0.9 } }));
+    await quiz.terminate();
+
+    const satisfied = await lms.evaluate(registration);
+    expect(satisfied.map((statement) => statement.verb.id)).toEqual([
+      CMI5_VERBS.SATISFIED,
+      CMI5_VERBS.SATISFIED,
+    ]);
+    expect(satisfied.map((statement) => (statement.object as { id: string }).id)).toEqual([
+      BLOCK_ID,
+      course.id,
+    ]);
+    expect(satisfied[1]?.context?.extensions?.[CMI5_CONTEXT_EXTENSIONS.SESSION_ID]).toBe(
+      quiz.sessionId
+    );
+    expect(await lms.evaluate(registration)).toEqual([]);
+  });
+
+  it('satisfies CompletedOrPassed with either statement', async () => {
+    const either: CMI5Course = {
+      id: 'https://example.com/either',
+      title: 'Either',
+      assignableUnits: [
+        {
+          id: 'https://example.com/au/either',
+          title: 'Either',
+          launchUrl: 'https://content.example.com/either.html',
+          moveOn: 'CompletedOrPassed',
+          objectives: [],
+        },
+      ],
+    };
+    lms.importCourse(either);
+    const registration = lms.createRegistration(either.id, ACTOR);
+
+    const session = await startSession(registration, 'https://example.com/au/either');
+    await session.client.sendStatement(session.statements.passed());
+    await session.terminate();
+
+    const satisfied = await lms.evaluate(registration);
+    expect(satisfied.map((statement) => (statement.object as { id: string }).id)).toEqual([
+      either.id,
+    ]);
+  });
+
+  it('records the launch', async () => {
+    const registration = lms.createRegistration(course.id, ACTOR);
+
+    const { url, sessionId } = await lms.launch(registration, 'https://example.com/au/read', {
+      launchMode: 'Browse',
+    });
+
+    expect(new URL(url).searchParams.get('activityId')).toBe('https://example.com/au/read');
+    const { statements } = await lrs.queryStatements({ verb: CMI5_VERBS.LAUNCHED });
+    expect(statements[0]?.context?.extensions).toMatchObject({
+      [CMI5_CONTEXT_EXTENSIONS.SESSION_ID]: sessionId,
+      [CMI5_CONTEXT_EXTENSIONS.LAUNCH_MODE]: 'Browse',
+      [CMI5_CONTEXT_EXTENSIONS.LAUNCH_URL]: 'https://content.example.com/read.html',
+      [CMI5_CONTEXT_EXTENSIONS.MOVE_ON]: 'Completed',
+    });
+  });
+
+  it('passes the authored launch settings to the AU', async () => {
+    const registration = lms.createRegistration(course.id, ACTOR);
+
+    const launch = await lms.launch(registration, 'https://example.com/au/extra');
+    expect(launch.launchMethod).toBe('OwnWindow');
+
+    const session = CMI5Session.fromURL(launch.url, {
+      client: { useLocalLRS: true, localLRS: lrs },
+      tokenStorage: null,
+    });
+    await session.start();
+    expect(session.launchParameters).toBe('{"deck":"verbs"}');
+    expect(session.entitlementKey).toBe('vendor-key-123');
+    expect(session.returnURL).toBe('https://lms.example.com/course');
+
+    const { statements } = await lrs.queryStatements({ verb: CMI5_VERBS.LAUNCHED });
+    expect(statements[0]?.context?.extensions?.[CMI5_CONTEXT_EXTENSIONS.LAUNCH_PARAMETERS]).toBe(
+      '{"deck":"verbs"}'
+    );
+    await session.terminate();
+  });
+
+  it('answers each fetch token once', async () => {
+    const registration = lms.createRegistration(course.id, ACTOR);
+    const { url } = await lms.launch(registration, 'https://example.com/au/read');
+    const fetchURL = new URL(url).searchParams.get('fetch')!;
+
+    const first = await lms.handleFetch(new Request(fetchURL, { method: 'POST' }));
+    expect(await first.json()).toHaveProperty('auth-token');
+
+    const second = await lms.handleFetch(new Request(fetchURL, { method: 'POST' }));
+    expect(second.status).toBe(400);
+    expect(await second.json()).toMatchObject({ 'error-code': '1' });
+  });
+
+  it('refuses expired fetch tokens', async () => {
+    const expiring = new LMSSimulator({
+      lrs,
+      endpoint: 'https://lms.example.com/xapi',
+      fetchURL: 'https://lms.example.com/fetch',
+      tokenTTL: -1,
+    });
+    expiring.importCourse(course);
+    const registration = expiring.createRegistration(course.id, ACTOR);
+    const { url } = await expiring.launch(registration, 'https://example.com/au/read');
+
+    const response = await expiring.handleFetch(
+      new Request(new URL(url).searchParams.get('fetch')!, { method: 'POST' })
+    );
+    expect(await response.json()).toMatchObject({ 'error-code': '2' });
+  });
+});
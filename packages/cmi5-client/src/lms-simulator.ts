@@ -0,0 +1,348 @@
+/**
+ * LMS Simulator
+ *
+ * The LMS side of cmi5 for local development and end-to-end tests: imports a
+ * course, creates registrations, writes LMS.LaunchData and sends launched for
+ * each launch, issues one-time fetch tokens and serves the fetch endpoint, and
+ * evaluates moveOn to send satisfied for blocks and the course.
+ */
+
+import type { Agent, Statement } from '@xapi/xapi';
+import type { LRSStore } from 'cmi5-lrs';
+import type { CMI5AssignableUnit, CMI5Course, CMI5LaunchMethod, CMI5LaunchMode } from 'cmi5-core';
+import {
+  CMI5_CATEGORY_ACTIVITIES,
+  CMI5_CONTEXT_EXTENSIONS,
+  CMI5_LAUNCH_DATA_STATE_ID,
+  CMI5_VERBS,
+} from 'cmi5-core';
+import { CMI5StatementBuilder } from './defined-statements';
+import { buildCMI5LaunchURL } from './launcher';
+import type { CMI5LaunchData } from './session';
+
+/**
+ * Block of a simulated course: AUs the learner moves on from together
+ */
+export interface LMSSimulatorBlock {
+  /** Block activity ID */
+  id: string;
+  /** IDs of the block's AUs */
+  auIds: string[];
+}
+
+/**
+ * LMS Simulator Options
+ */
+export interface LMSSimulatorOptions {
+  /** LRS that stores the statements and state documents of launched AUs */
+  lrs: LRSStore;
+  /** xAPI endpoint URL the AUs are launched with */
+  endpoint: string;
+  /** URL of the fetch endpoint, served by `handleFetch` */
+  fetchURL: string;
+  /** Where AUs return the learner (default: none) */
+  returnURL?: string;
+  /** How long fetch tokens stay valid in milliseconds (default: 300000) */
+  tokenTTL?: number;
+}
+
+/**
+ * Options of a simulated launch
+ */
+export interface LMSSimulatorLaunchOptions {
+  /** Launch mode (default: 'Normal') */
+  launchMode?: CMI5LaunchMode;
+}
+
+/**
+ * A simulated launch
+ */
+export interface LMSSimulatorLaunch {
+  /** Launch URL to open the AU with */
+  url: string;
+  /** Whether the AU must be opened in a window of its own */
+  launchMethod: CMI5LaunchMethod;
+  /** cmi5 session ID of the launch */
+  sessionId: string;
+  /** Launch data written for the AU */
+  launchData: CMI5LaunchData;
+}
+
+interface SimulatedCourse {
+  course: CMI5Course;
+  blocks: LMSSimulatorBlock[];
+}
+
+interface SimulatedRegistration {
+  courseId: string;
+  actor: Agent;
+  /** Session of the latest launch, which satisfied statements are sent in */
+  lastSessionId?: string;
+}
+
+interface FetchToken {
+  registration: string;
+  expiresAt: number;
+  used: boolean;
+}
+
+/**
+ * LMS Simulator
+ *
+ * Usage:
+ * ```typescript
+ * const lms = new LMSSimulator({ lrs, endpoint, fetchURL: 'http://localhost:3000/fetch' });
+ * lms.importCourse(course, [{ id: 'https://example.com/block/1', auIds: ['au-1', 'au-2'] }]);
+ *
+ * const registration = lms.createRegistration(course.id, { mbox: 'mailto:learner@example.com' });
+ * const { url } = await lms.launch(registration, 'au-1'); // Open url in the browser
+ *
+ * app.post('/fetch', (c) => lms.handleFetch(c.req.raw));
+ *
+ * await lms.evaluate(registration); // Sends satisfied for blocks and the course
+ * ```
+ */
+export class LMSSimulator {
+  private options: LMSSimulatorOptions;
+  private courses = new Map<string, SimulatedCourse>();
+  private registrations = new Map<string, SimulatedRegistration>();
+  private tokens = new Map<string, FetchToken>();
+
+  constructor(options: LMSSimulatorOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Import a course, replacing an earlier import with the same ID
+   */
+  importCourse(course: CMI5Course, blocks: LMSSimulatorBlock[] = []): void {
+    const auIds = new Set(course.assignableUnits.map((au) => au.id));
+    for (const block of blocks) {
+      const unknown = block.auIds.find((auId) => !auIds.has(auId));
+      if (unknown) {
+        throw new Error(`Block ${block.id} refers to unknown AU ${unknown}`);
+      }
+    }
+    this.courses.set(course.id, { course, blocks });
+  }
+
+  /**
+   * Register a learner for an imported course
+   *
+   * @returns The registration ID
+   */
+  createRegistration(courseId: string, actor: Agent): string {
+    if (!this.courses.has(courseId)) {
+      throw new Error(`Unknown course: ${courseId}`);
+    }
+    const registration = crypto.randomUUID();
+    this.registrations.set(registration, { courseId, actor });
+    return registration;
+  }
+
+  /**
+   * Launch an AU: writes LMS.LaunchData, sends launched and issues a fetch token
+   */
+  async launch(
+    registration: string,
+    auId: string,
+    options: LMSSimulatorLaunchOptions = {}
+  ): Promise<LMSSimulatorLaunch> {
+    const { actor, course } = this.getRegistration(registration);
+    const au = course.assignableUnits.find((unit) => unit.id === auId);
+    if (!au) {
+      throw new Error(`Unknown AU ${auId} in course ${course.id}`);
+    }
+
+    const sessionId = crypto.randomUUID();
+    const launchData: CMI5LaunchData = {
+      contextTemplate: {
+        contextActivities: { grouping: [{ id: course.id, objectType: 'Activity' }] },
+        extensions: { [CMI5_CONTEXT_EXTENSIONS.SESSION_ID]: sessionId },
+      },
+      launchMode: options.launchMode ?? 'Normal',
+      moveOn: au.moveOn ?? 'NotApplicable',
+      ...(au.masteryScore !== undefined && { masteryScore: au.masteryScore }),
+      ...(this.options.returnURL && { returnURL: this.options.returnURL }),
+      ...(au.launchParameters !== undefined && { launchParameters: au.launchParameters }),
+      ...(au.entitlementKey !== undefined && {
+        entitlementKey: { courseStructure: au.entitlementKey },
+      }),
+    };
+    await this.options.lrs.saveCMI5State(
+      registration,
+      au.id,
+      actor,
+      CMI5_LAUNCH_DATA_STATE_ID,
+      launchData as never
+    );
+
+    const statements = this.createBuilder(registration, au.id, sessionId, launchData);
+    await this.options.lrs.storeStatement(
+      statements.buildStatement(CMI5_VERBS.LAUNCHED, 'launched', {
+        context: {
+          contextActivities: { category: [{ id: CMI5_CATEGORY_ACTIVITIES.CMI5 }] },
+          extensions: {
+            [CMI5_CONTEXT_EXTENSIONS.LAUNCH_URL]: au.launchUrl,
+            [CMI5_CONTEXT_EXTENSIONS.MOVE_ON]: launchData.moveOn,
+            ...(au.launchParameters !== undefined && {
+              [CMI5_CONTEXT_EXTENSIONS.LAUNCH_PARAMETERS]: au.launchParameters,
+            }),
+          },
+        },
+      })
+    );
+    this.registrations.get(registration)!.lastSessionId = sessionId;
+
+    const token = crypto.randomUUID();
+    this.tokens.set(token, {
+      registration,
+      expiresAt: Date.now() + (this.options.tokenTTL ?? 300000),
+      used: false,
+    });
+    const fetchURL = new URL(this.options.fetchURL);
+    fetchURL.searchParams.set('token', token);
+
+    const url = buildCMI5LaunchURL(au.launchUrl, {
+      endpoint: this.options.endpoint,
+      auth: '',
+      actor: JSON.stringify(actor),
+      registration,
+      activityId: au.id,
+      fetch: fetchURL.toString(),
+    });
+    return { url, launchMethod: au.launchMethod ?? 'AnyWindow', sessionId, launchData };
+  }
+
+  /**
+   * Serve the fetch endpoint
+   * Each token is answered with an authorization token once; later or expired
+   * requests get the cmi5 error codes 1 (already used), 2 (expired) or 3 (general)
+   */
+  async handleFetch(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return fetchError(3, 'The fetch URL must be requested with POST');
+    }
+
+    const token = this.tokens.get(new URL(request.url).searchParams.get('token') ?? '');
+    if (!token) return fetchError(3, 'Unknown fetch token');
+    if (token.used) return fetchError(1, 'The fetch URL was already used');
+    if (Date.now() > token.expiresAt) return fetchError(2, 'The fetch URL expired');
+
+    token.used = true;
+    const credentials = `${token.registration}:${crypto.randomUUID()}`;
+    return Response.json({ 'auth-token': btoa(credentials) });
+  }
+
+  /**
+   * Evaluate moveOn for a registration and send satisfied for every block and
+   * the course whose AUs are all satisfied, once per registration
+   *
+   * @returns The satisfied statements sent
+   */
+  async evaluate(registration: string): Promise<Statement[]> {
+    const { course, blocks, lastSessionId } = this.getRegistration(registration);
+
+    const recorded: Statement[] = [];
+    for await (const page of this.options.lrs.streamStatements({ registration })) {
+      recorded.push(...(page as Statement[]));
+    }
+    const verbsByAU = new Map<string, Set<string>>();
+    const satisfied = new Set<string>();
+    for (const statement of recorded) {
+      const objectId = (statement.object as { id?: string }).id;
+      if (!objectId) continue;
+      if (statement.verb.id === CMI5_VERBS.SATISFIED) {
+        satisfied.add(objectId);
+      } else if (isMoveOnStatement(statement)) {
+        verbsByAU.set(objectId, (verbsByAU.get(objectId) ?? new Set()).add(statement.verb.id));
+      }
+    }
+
+    const isSatisfied = (au: CMI5AssignableUnit) =>
+      isMoveOnMet(au.moveOn ?? 'NotApplicable', verbsByAU.get(au.id) ?? new Set());
+    const unitsById = new Map(course.assignableUnits.map((au) => [au.id, au]));
+    const candidates = [
+      ...blocks.map((block) => ({
+        id: block.id,
+        units: block.auIds.map((auId) => unitsById.get(auId)!),
+      })),
+      { id: course.id, units: course.assignableUnits },
+    ];
+
+    const statements = this.createBuilder(
+      registration,
+      course.id,
+      lastSessionId ?? crypto.randomUUID(),
+      { contextTemplate: {}, launchMode: 'Normal', moveOn: 'NotApplicable' }
+    );
+    const sent: Statement[] = [];
+    for (const { id, units } of candidates) {
+      if (satisfied.has(id) || !units.every(isSatisfied)) continue;
+
+      const statement = statements.satisfied({ object: { id, objectType: 'Activity' } });
+      await this.options.lrs.storeStatement(statement);
+      sent.push(statement);
+    }
+    return sent;
+  }
+
+  private getRegistration(registration: string): SimulatedRegistration & SimulatedCourse {
+    const entry = this.registrations.get(registration);
+    if (!entry) {
+      throw new Error(`Unknown registration: ${registration}`);
+    }
+    return { ...entry, ...this.courses.get(entry.courseId)! };
+  }
+
+  private createBuilder(
+    registration: string,
+    activityId: string,
+    sessionId: string,
+    launchData: CMI5LaunchData
+  ): CMI5StatementBuilder {
+    return new CMI5StatementBuilder({
+      actor: this.registrations.get(registration)!.actor,
+      activityId,
+      registration,
+      sessionId,
+      launchData,
+    });
+  }
+}
+
+function fetchError(code: number, text: string): Response {
+  return Response.json({ 'error-code': String(code), 'error-text': text }, { status: 400 });
+}
+
+const MOVE_ON_VERBS = new Set<string>([CMI5_VERBS.COMPLETED, CMI5_VERBS.PASSED, CMI5_VERBS.WAIVED]);
+
+/**
+ * Whether a statement counts towards moveOn (completed, passed or waived with the moveon category)
+ */
+function isMoveOnStatement(statement: Statement): boolean {
+  const category = statement.context?.contextActivities?.category ?? [];
+  return (
+    MOVE_ON_VERBS.has(statement.verb.id) &&
+    category.some((activity) => activity.id === CMI5_CATEGORY_ACTIVITIES.MOVE_ON)
+  );
+}
+
+function isMoveOnMet(moveOn: CMI5LaunchData['moveOn'], verbs: Set<string>): boolean {
+  if (verbs.has(CMI5_VERBS.WAIVED)) return true;
+
+  const completed = verbs.has(CMI5_VERBS.COMPLETED);
+  const passed = verbs.has(CMI5_VERBS.PASSED);
+  switch (moveOn) {
+    case 'Completed':
+      return completed;
+    case 'Passed':
+      return passed;
+    case 'CompletedAndPassed':
+      return completed && passed;
+    case 'CompletedOrPassed':
+      return completed || passed;
+    case 'NotApplicable':
+      return true;
+  }
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import type { Statement } from '@xapi/xapi';
+import { LRSStore } from 'cmi5-lrs';
+import { OutboxFlusher } from './outbox-flusher';
+
+const REGISTRATION_A = '5a1c7e3b-2d4f-4a6b-8c9d-0e1f2a3b4c5d';
+const REGISTRATION_B = '6b2d8f4c-3e5a-4b7c-9d0e-1f2a3b4c5d6e';
+
+function statement(n: number, registration?: string): Statement {
+  return {
+    id: `1c8e6f3b-5d2a-4f0b-9c4e-7a3b2d6f8e${String(n).padStart(2, '0')}`,
+    actor: { mbox: 'mailto:test@example.com' },
+    verb: { id: 'http://adlnet.gov/expapi/verbs/experienced' },
+    object: { id: `https://example.com/lesson/${n}` },
+    ...(registration ? { context: { registration } } : {}),
+  };
+}
+
+describe('OutboxFlusher (e2e)', () => {
+  let outbox: LRSStore;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    outbox = new LRSStore({ dbName: 'test-outbox.db', inMemory: true });
+    await outbox.init();
+
+    fetchMock = vi.fn(async () => new Response('[]', { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function createFlusher(): OutboxFlusher {
+    return new OutboxFlusher(outbox, {
+      endpoint: 'https://example.com/lrs',
+      auth: 'Bearer token',
+      batchSize: 2,
+      flushInterval: 0,
+      retry: { maxAttempts: 1 },
+    });
+  }
+
+  function sentIds(): string[][] {
+    return fetchMock.mock.calls.map(([, init]) =>
+      (JSON.parse(String(init.body)) as Statement[]).map((s) => s.id!.slice(-2))
+    );
+  }
+
+  it('delivers each registration in stored order', async () => {
+    await outbox.storeStatements([
+      statement(1, REGISTRATION_A),
+      statement(2, REGISTRATION_B),
+      statement(3, REGISTRATION_A),
+      statement(4, REGISTRATION_A),
+    ]);
+
+    await createFlusher().flush();
+
+    expect(sentIds()).toEqual([['01', '03'], ['04'], ['02']]);
+    expect(await outbox.countUnsyncedStatements()).toBe(0);
+  });
+
+  it('holds back a registration after a failed batch while others carry on', async () => {
+    await outbox.storeStatements([
+      statement(1, REGISTRATION_A),
+      statement(2, REGISTRATION_A),
+      statement(3, REGISTRATION_A),
+      statement(4, REGISTRATION_B),
+    ]);
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 503 }));
+    const flusher = createFlusher();
+
+    await flusher.flush();
+
+    expect(sentIds()).toEqual([['01', '02'], ['04']]);
+    expect(flusher.getLastError()?.message).toContain('503');
+    expect(await outbox.getStatementSyncStatus(statement(3).id!)).toEqual({ status: 'pending' });
+
+    await flusher.flush();
+    expect(sentIds().slice(2)).toEqual([['01', '02'], ['03']]);
+    expect(flusher.getLastError()).toBeUndefined();
+  });
+
+  it('sets rejected statements aside and delivers the rest of the registration', async () => {
+    await outbox.storeStatements([
+      statement(1, REGISTRATION_A),
+      statement(2, REGISTRATION_A),
+      statement(3, REGISTRATION_A),
+    ]);
+    fetchMock.mockImplementation(async (_url: string, init: RequestInit) =>
+      String(init.body).includes(statement(2).id!)
+        ? new Response('', { status: 409, statusText: 'Conflict' })
+        : new Response('[]', { status: 200 })
+    );
+    const flusher = createFlusher();
+
+    await flusher.flush();
+
+    expect(sentIds()).toEqual([['01', '02'], ['01'], ['02'], ['03']]);
+    expect(await outbox.getStatementSyncStatus(statement(2).id!)).toEqual({
+      status: 'rejected',
+      error: 'Outbox delivery failed: 409 Conflict',
+    });
+    expect(await outbox.countUnsyncedStatements()).toBe(0);
+    expect(flusher.getLastError()).toBeUndefined();
+  });
+
+  it('sends enqueued statements with keepalive on pagehide', async () => {
+    const flusher = createFlusher();
+    const earlier = [statement(1, REGISTRATION_B)];
+    const first = [statement(2, REGISTRATION_A)];
+    const second = [statement(3, REGISTRATION_B)];
+    await outbox.storeStatements(earlier);
+    await flusher.flush();
+
+    // The request for registration A never completes
+    fetchMock.mockImplementationOnce(() => new Promise(() => {}));
+    await outbox.storeStatements(first);
+    flusher.enqueue(first);
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    await outbox.storeStatements(second);
+    flusher.enqueue(second);
+
+    flusher.flushOnPageHide();
+
+    // Registration A is in flight and left alone so its statements stay in order
+    expect(sentIds()).toEqual([['01'], ['02'], ['03']]);
+    expect(fetchMock.mock.calls[2]![1]).toMatchObject({ method: 'POST', keepalive: true });
+    await vi.waitFor(async () =>
+      expect(await outbox.getStatementSyncStatus(statement(3).id!)).toEqual({ status: 'synced' })
+    );
+  });
+
+  it('leaves registrations with older statements in the outbox alone on pagehide', async () => {
+    const flusher = createFlusher();
+    // Stored by an earlier page; its request never completes
+    await outbox.storeStatements([statement(1, REGISTRATION_A)]);
+    fetchMock.mockImplementationOnce(() => new Promise(() => {}));
+    flusher.flush().catch(() => {});
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1));
+
+    const terminated = [statement(2, REGISTRATION_A)];
+    await outbox.storeStatements(terminated);
+    flusher.enqueue(terminated);
+    flusher.flushOnPageHide();
+
+    expect(sentIds()).toEqual([['01']]);
+  });
+
+  it('keeps a failed registration held back while the circuit is open', async () => {
+    const flusher = new OutboxFlusher(outbox, {
+      endpoint: 'https://example.com/lrs',
+      auth: 'Bearer token',
+      flushInterval: 0,
+      retry: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 1 },
+    });
+    await outbox.storeStatements([statement(1, REGISTRATION_A)]);
+    fetchMock.mockResolvedValueOnce(new Response('', { status: 503 }));
+    await flusher.flush();
+
+    const terminated = [statement(2, REGISTRATION_A)];
+    await outbox.storeStatements(terminated);
+    flusher.enqueue(terminated);
+    await flusher.flush();
+    flusher.flushOnPageHide();
+
+    expect(sentIds()).toEqual([['01']]);
+    expect(await outbox.countUnsyncedStatements()).toBe(2);
+  });
+
+  it('delivers statements enqueued after pagehide with keepalive', async () => {
+    const listeners = new Map<string, () => void>();
+    vi.stubGlobal('addEventListener', (type: string, listener: () => void) =>
+      listeners.set(type, listener)
+    );
+    vi.stubGlobal('removeEventListener', (type: string) => listeners.delete(type));
+    const flusher = createFlusher();
+    await flusher.start();
+
+    listeners.get('pagehide')!();
+    const terminated = [statement(1, REGISTRATION_A)];
+    await outbox.storeStatements(terminated);
+    flusher.enqueue(terminated);
+    await flusher.flush();
+
+    expect(sentIds()).toEqual([['01']]);
+    expect(fetchMock.mock.calls[0]![1]).toMatchObject({ method: 'POST', keepalive: true });
+    flusher.stop();
+  });
+});
@@ -0,0 +1,355 @@
+/**
+ * Outbox Flusher
+ *
+ * Background delivery of statements kept in a local LRS outbox to a remote LRS.
+ * Statements are written to the outbox before anything is sent, so they survive
+ * closed tabs and lost connections; the flusher sends them in stored order per
+ * registration and marks them synced once the remote LRS acknowledges them.
+ */
+
+import type { Statement } from '@xapi/xapi';
+import type { AttachmentContent, LRSStore } from 'cmi5-lrs';
+import { buildMultipartStatements } from 'cmi5-lrs';
+import {
+  CircuitBreaker,
+  classifySendError,
+  isStatementRejection,
+  toResponseError,
+  withRetry,
+} from './retry';
+import type { CircuitBreakerOptions, RetryOptions } from './retry';
+
+/** Browsers refuse keepalive requests once their bodies add up to 64 KiB */
+const KEEPALIVE_BODY_LIMIT = 60 * 1024;
+
+/**
+ * Outbox Flusher Options
+ */
+export interface OutboxFlusherOptions {
+  /** Remote xAPI endpoint URL */
+  endpoint: string;
+  /** Authorization header value */
+  auth: string;
+  /** Maximum number of statements per request (default: 50) */
+  batchSize?: number;
+  /** Interval of background flushes in milliseconds (default: 30000; 0 = only on new statements) */
+  flushInterval?: number;
+  /** Backoff for retryable failures */
+  retry?: RetryOptions;
+  /** When to pause delivery after repeated failures */
+  circuitBreaker?: CircuitBreakerOptions;
+}
+
+/**
+ * Load the stored content of attachments without a fileUrl
+ */
+export async function loadAttachmentContent(
+  lrs: LRSStore,
+  statements: Statement[]
+): Promise<AttachmentContent[]> {
+  const hashes = new Set(
+    statements.flatMap((statement) =>
+      (statement.attachments ?? [])
+        .filter((attachment) => !attachment.fileUrl)
+        .map((attachment) => attachment.sha2.toLowerCase())
+    )
+  );
+
+  const attachments: AttachmentContent[] = [];
+  for (const sha2 of hashes) {
+    const attachment = await lrs.getAttachment(sha2);
+    if (attachment) attachments.push(attachment);
+  }
+  return attachments;
+}
+
+function byteLength(statements: Statement[]): number {
+  return new TextEncoder().encode(JSON.stringify(statements)).length;
+}
+
+/**
+ * Outbox Flusher
+ *
+ * Delivery never lets a statement overtake an earlier one of the same
+ * registration: a registration stops at its first failed batch until the next
+ * flush, while other registrations carry on. Statements the remote LRS rejects
+ * for good (e.g. 400 or 409) are marked rejected and skipped.
+ *
+ * Usage:
+ * ```typescript
+ * const flusher = new OutboxFlusher(outbox, { endpoint, auth });
+ * await flusher.start(); // Flushes now, periodically, when back online and on pagehide
+ *
+ * await outbox.storeStatements(statements);
+ * flusher.enqueue(statements);
+ * ```
+ */
+export class OutboxFlusher {
+  private outbox: LRSStore;
+  private options: Required<OutboxFlusherOptions>;
+  private circuitBreaker: CircuitBreaker;
+  /** Statements enqueued in this page and not yet delivered, for the pagehide flush */
+  private queue = new Map<string, Statement>();
+  private inFlight = new Set<string>();
+  /** Registrations whose last delivery failed */
+  private blocked = new Set<string | null>();
+  /** Oldest unsynced statement of each registration as of its last delivery (undefined: none) */
+  private oldestUnsynced = new Map<string | null, string | undefined>();
+  private flushing: Promise<void> | null = null;
+  private flushAgain = false;
+  private intervalId: ReturnType<typeof setInterval> | null = null;
+  private lastError: Error | undefined;
+  /** Once the page is hidden, deliveries use keepalive requests so they outlive it */
+  private pageHidden = false;
+
+  constructor(outbox: LRSStore, options: OutboxFlusherOptions) {
+    this.outbox = outbox;
+    this.options = {
+      batchSize: options.batchSize ?? 50,
+      flushInterval: options.flushInterval ?? 30000,
+      retry: options.retry ?? {},
+      circuitBreaker: options.circuitBreaker ?? {},
+      endpoint: options.endpoint,
+      auth: options.auth,
+    };
+    this.circuitBreaker = new CircuitBreaker(this.options.circuitBreaker);
+  }
+
+  /**
+   * Start background delivery
+   * Statements left in flight by a closed tab are delivered again; their ids
+   * make the remote LRS ignore those it already stored
+   */
+  async start(): Promise<void> {
+    await this.outbox.resetInFlightStatements();
+
+    if (typeof globalThis.addEventListener === 'function') {
+      globalThis.addEventListener('pagehide', this.handlePageHide);
+      globalThis.addEventListener('online', this.handleOnline);
+    }
+    if (this.options.flushInterval > 0) {
+      this.intervalId = setInterval(this.handleOnline, this.options.flushInterval);
+    }
+
+    await this.flush();
+  }
+
+  /**
+   * Stop background delivery; statements stay in the outbox
+   */
+  stop(): void {
+    if (typeof globalThis.removeEventListener === 'function') {
+      globalThis.removeEventListener('pagehide', this.handlePageHide);
+      globalThis.removeEventListener('online', this.handleOnline);
+    }
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+    }
+  }
+
+  /**
+   * Note statements just written to the outbox and deliver them in the background
+   */
+  enqueue(statements: Statement[]): void {
+    for (const statement of statements) {
+      if (statement.id) this.queue.set(statement.id, statement);
+    }
+    this.flush().catch((error) => {
+      console.error('Outbox flush failed:', error);
+    });
+  }
+
+  /**
+   * Deliver everything in the outbox
+   * Concurrent calls share one run, followed by another if statements arrived meanwhile
+   */
+  flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true;
+      return this.flushing;
+    }
+
+    this.flushing = (async () => {
+      try {
+        do {
+          this.flushAgain = false;
+          await this.deliver();
+        } while (this.flushAgain);
+      } finally {
+        this.flushing = null;
+      }
+    })();
+    return this.flushing;
+  }
+
+  /**
+   * Error of the last failed delivery, until a flush delivers everything
+   */
+  getLastError(): Error | undefined {
+    return this.lastError;
+  }
+
+  /**
+   * Send what the page enqueued with keepalive requests, which outlive the page
+   * Registrations with failed or running deliveries, or with older statements in
+   * the outbox than the page enqueued, are left to the next session so
+   * statements stay in order; statements enqueued afterwards (e.g. terminated)
+   * are delivered with keepalive requests too. Statements are marked synced if the page lives
+   * to see the response; otherwise they are sent again and ignored by the remote LRS.
+   */
+  flushOnPageHide(): void {
+    const byRegistration = new Map<string | null, Statement[]>();
+    for (const statement of this.queue.values()) {
+      const registration = statement.context?.registration ?? null;
+      byRegistration.set(registration, [...(byRegistration.get(registration) ?? []), statement]);
+    }
+
+    let budget = KEEPALIVE_BODY_LIMIT;
+    for (const [registration, statements] of byRegistration) {
+      if (this.blocked.has(registration)) continue;
+      if (statements.some((statement) => this.inFlight.has(statement.id!))) continue;
+      if (!this.oldestUnsynced.has(registration)) continue;
+      const oldest = this.oldestUnsynced.get(registration);
+      if (oldest !== undefined && oldest !== statements[0]!.id) continue;
+
+      // Attachment content would have to be read from the outbox; stop before it
+      const end = statements.findIndex((statement) =>
+        (statement.attachments ?? []).some((attachment) => !attachment.fileUrl)
+      );
+      const batch = statements.slice(0, end === -1 ? undefined : end);
+      while (batch.length > 0 && byteLength(batch) > budget) batch.pop();
+      if (batch.length === 0) continue;
+      budget -= byteLength(batch);
+
+      const ids = batch.map((statement) => statement.id!);
+      this.post(batch, [], true)
+        .then(() => this.outbox.markStatementsSynced(ids))
+        .then(() => ids.forEach((id) => this.queue.delete(id)))
+        .catch(() => {
+          // Still pending in the outbox
+        });
+    }
+  }
+
+  private handlePageHide = (): void => {
+    this.pageHidden = true;
+    this.flushOnPageHide();
+  };
+
+  private handleOnline = (): void => {
+    this.flush().catch((error) => {
+      console.error('Outbox flush failed:', error);
+    });
+  };
+
+  /**
+   * Deliver each registration's statements, oldest registration first
+   */
+  private async deliver(): Promise<void> {
+    const registrations = await this.outbox.listUnsyncedRegistrations();
+    for (const registration of [...this.blocked, ...this.oldestUnsynced.keys()]) {
+      if (!registrations.includes(registration)) {
+        this.blocked.delete(registration);
+        this.oldestUnsynced.set(registration, undefined);
+      }
+    }
+
+    for (const registration of registrations) {
+      if (this.circuitBreaker.getState() === 'open') return;
+      this.blocked.delete(registration);
+      await this.deliverRegistration(registration);
+    }
+    if (this.blocked.size === 0) this.lastError = undefined;
+  }
+
+  /**
+   * Deliver a registration's statements in stored order, stopping at the first failed batch
+   */
+  private async deliverRegistration(registration: string | null): Promise<void> {
+    for (;;) {
+      const statements = await this.outbox.getUnsyncedStatements(this.options.batchSize, {
+        registration,
+      });
+      this.oldestUnsynced.set(registration, statements[0]?.id);
+      if (statements.length === 0) return;
+
+      try {
+        await this.deliverBatch(statements);
+      } catch (error) {
+        const sendError = classifySendError(error);
+        this.circuitBreaker.recordFailure(sendError);
+        this.blocked.add(registration);
+        this.lastError = sendError;
+        return;
+      }
+    }
+  }
+
+  /**
+   * Deliver a batch and mark it synced
+   * A rejected batch is split in halves until the rejected statements are found;
+   * those are marked rejected and set aside so the rest of the registration
+   * still gets through
+   */
+  private async deliverBatch(statements: Statement[]): Promise<void> {
+    const ids = statements.map((statement) => statement.id!);
+    await this.outbox.markStatementsInFlight(ids);
+    ids.forEach((id) => this.inFlight.add(id));
+
+    try {
+      this.circuitBreaker.assertCanSend();
+      const attachments = await loadAttachmentContent(this.outbox, statements);
+      await withRetry(
+        () => this.post(statements, attachments, this.pageHidden),
+        this.options.retry
+      );
+      this.circuitBreaker.recordSuccess();
+      await this.outbox.markStatementsSynced(ids);
+    } catch (error) {
+      const sendError = classifySendError(error);
+      await this.outbox.markStatementsFailed(ids, sendError.message);
+      if (!isStatementRejection(sendError)) throw sendError;
+
+      if (statements.length === 1) {
+        await this.outbox.markStatementsRejected(ids, sendError.message);
+      } else {
+        const middle = Math.ceil(statements.length / 2);
+        await this.deliverBatch(statements.slice(0, middle));
+        await this.deliverBatch(statements.slice(middle));
+        return;
+      }
+    } finally {
+      ids.forEach((id) => this.inFlight.delete(id));
+    }
+    ids.forEach((id) => this.queue.delete(id));
+  }
+
+  /**
+   * POST statements to the remote LRS, as multipart/mixed when there is attachment content
+   */
+  private async post(
+    statements: Statement[],
+    attachments: AttachmentContent[],
+    keepalive = false
+  ): Promise<void> {
+    const { body, contentType } =
+      attachments.length > 0
+        ? buildMultipartStatements(statements, attachments)
+        : { body: JSON.stringify(statements), contentType: 'application/json' };
+
+    const response = await fetch(`${this.options.endpoint}/statements`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': contentType,
+        Authorization: this.options.auth,
+        'X-Experience-API-Version': '1.0.3',
+      },
+      body: body as BodyInit,
+      keepalive,
+    });
+    if (!response.ok) {
+      throw toResponseError(response, 'Outbox delivery failed');
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  RemoteSendError,
+  classifySendError,
+  getBackoffDelay,
+  isStatementRejection,
+  parseRetryAfter,
+  withRetry,
+} from './retry';
+
+function httpError(status: number, headers: Record<string, string> = {}): Error {
+  return Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status, headers },
+  });
+}
+
+describe('classifySendError', () => {
+  it('retries rate limits, server errors and network failures', () => {
+    expect(classifySendError(httpError(429, { 'retry-after': '2' }))).toMatchObject({
+      status: 429,
+      retryable: true,
+      retryAfter: 2000,
+    });
+    expect(classifySendError(httpError(503)).retryable).toBe(true);
+    expect(classifySendError(new TypeError('fetch failed'))).toMatchObject({
+      status: undefined,
+      retryable: true,
+    });
+  });
+
+  it('does not retry client errors or aborted requests', () => {
+    for (const status of [400, 401, 403, 409]) {
+      expect(classifySendError(httpError(status)).retryable).toBe(false);
+    }
+    expect(classifySendError(new DOMException('Aborted', 'AbortError')).retryable).toBe(false);
+  });
+
+  it('tells rejected statements from rejected requests', () => {
+    for (const status of [400, 409, 413]) {
+      expect(isStatementRejection(classifySendError(httpError(status)))).toBe(true);
+    }
+    for (const status of [401, 403, 404, 429, 503]) {
+      expect(isStatementRejection(classifySendError(httpError(status)))).toBe(false);
+    }
+    expect(isStatementRejection(classifySendError(new TypeError('fetch failed')))).toBe(false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads delays in seconds and HTTP dates', () => {
+    const now = Date.parse('2026-01-01T00:00:00Z');
+    expect(parseRetryAfter('30', now)).toBe(30_000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', now)).toBe(5_000);
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
+
+describe('withRetry', () => {
+  it('backs off exponentially with full jitter up to the maximum delay', () => {
+    const options = { baseDelay: 100, maxDelay: 1000 };
+    expect(getBackoffDelay(1, options, () => 0.999)).toBe(99);
+    expect(getBackoffDelay(3, options, () => 0.999)).toBe(399);
+    expect(getBackoffDelay(10, options, () => 0.999)).toBe(999);
+    expect(getBackoffDelay(10, options, () => 0)).toBe(0);
+  });
+
+  it('retries retryable failures until the request succeeds', async () => {
+    const send = vi
+      .fn()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValue('ok');
+
+    await expect(withRetry(send, { baseDelay: 0 })).resolves.toBe('ok');
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('waits at least as long as Retry-After asks for', async () => {
+    vi.useFakeTimers();
+    try {
+      const send = vi
+        .fn()
+        .mockRejectedValueOnce(httpError(429, { 'retry-after': '2' }))
+        .mockResolvedValue('ok');
+
+      const result = withRetry(send, { baseDelay: 0 });
+      await vi.advanceTimersByTimeAsync(1_999);
+      expect(send).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toBe('ok');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('throws permanent failures and exhausted retries as RemoteSendError', async () => {
+    const permanent = vi.fn().mockRejectedValue(httpError(400));
+    await expect(withRetry(permanent, { baseDelay: 0 })).rejects.toMatchObject({
+      status: 400,
+      retryable: false,
+    });
+    expect(permanent).toHaveBeenCalledTimes(1);
+
+    const unavailable = vi.fn().mockRejectedValue(httpError(503));
+    await expect(withRetry(unavailable, { maxAttempts: 3, baseDelay: 0 })).rejects.toBeInstanceOf(
+      RemoteSendError
+    );
+    expect(unavailable).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const unavailable = new RemoteSendError('Unavailable', 503, true);
+
+  it('opens after consecutive failures and allows a trial request after the timeout', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeout: 1_000 });
+
+    breaker.recordFailure(unavailable, 0);
+    expect(breaker.getState(0)).toBe('closed');
+    breaker.recordFailure(unavailable, 0);
+    expect(breaker.getState(500)).toBe('open');
+    expect(() => breaker.assertCanSend(500)).toThrow(CircuitOpenError);
+
+    expect(breaker.getState(1_000)).toBe('half-open');
+    breaker.recordFailure(unavailable, 1_000);
+    expect(breaker.getOpenUntil(1_000)).toEqual(new Date(2_000));
+
+    breaker.recordSuccess();
+    expect(breaker.getState(1_000)).toBe('closed');
+  });
+
+  it('ignores permanent failures and stays open for a longer Retry-After', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 1_000 });
+
+    breaker.recordFailure(new RemoteSendError('Bad request', 400, false), 0);
+    expect(breaker.getState(0)).toBe('closed');
+
+    breaker.recordFailure(new RemoteSendError('Too many requests', 429, true, 5_000), 0);
+    expect(breaker.getOpenUntil(0)).toEqual(new Date(5_000));
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Remote Send Retries
+ *
+ * Error classification, exponential backoff and circuit breaking for requests
+ * to remote LRSs. Rate limits (429), server errors (5xx) and network failures
+ * are retried; other client errors (400, 401, 403, 409, ...) are permanent.
+ */
+
+/**
+ * Error of a request to a remote LRS
+ */
+export class RemoteSendError extends Error {
+  constructor(
+    message: string,
+    /** HTTP status, or undefined for network failures */
+    public readonly status: number | undefined,
+    /** Whether the request may succeed when sent again */
+    public readonly retryable: boolean,
+    /** Delay the remote LRS asked for with Retry-After (milliseconds) */
+    public readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'RemoteSendError';
+  }
+}
+
+/**
+ * Thrown without sending while the circuit breaker is open
+ */
+export class CircuitOpenError extends RemoteSendError {
+  constructor(retryAfter: number) {
+    super('Remote LRS is paused after repeated failures', undefined, true, retryAfter);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Whether an HTTP status is worth retrying (timeouts, rate limits and server errors)
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Whether an error rejects the statements sent rather than the request itself
+ * Permanent client errors (400, 409, 413, ...) do; authorization failures (401,
+ * 403) and a missing endpoint (404) reject every request alike and do not
+ */
+export function isStatementRejection(error: unknown): error is RemoteSendError {
+  if (!(error instanceof RemoteSendError) || error.retryable) return false;
+  const { status } = error;
+  return status !== undefined && status >= 400 && status < 500 && ![401, 403, 404].includes(status);
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or HTTP date)
+ *
+ * @returns The delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(
+  value: string | null | undefined,
+  now = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) return Number(value) * 1000;
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Build a RemoteSendError for a fetch response that is not ok
+ */
+export function toResponseError(response: Response, message: string): RemoteSendError {
+  return new RemoteSendError(
+    `${message}: ${response.status} ${response.statusText}`,
+    response.status,
+    isRetryableStatus(response.status),
+    parseRetryAfter(response.headers.get('Retry-After'))
+  );
+}
+
+/**
+ * Fields of errors thrown by fetch wrappers and @xapi/xapi (axios)
+ */
+interface HTTPErrorFields {
+  name?: string;
+  code?: string;
+  status?: number;
+  response?: {
+    status?: number;
+    headers?: { get?: (name: string) => string | null } & Record<string, unknown>;
+  };
+}
+
+function hasHTTPErrorFields(error: unknown): error is HTTPErrorFields {
+  return typeof error === 'object' && error !== null;
+}
+
+/**
+ * HTTP status of an error from a remote LRS, if any
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (!hasHTTPErrorFields(error)) return undefined;
+  const status = error.status ?? error.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Classify an error thrown by fetch or @xapi/xapi (axios)
+ * Errors without an HTTP response are network failures and retryable,
+ * except aborted requests
+ */
+export function classifySendError(error: unknown): RemoteSendError {
+  if (error instanceof RemoteSendError) return error;
+
+  const status = getErrorStatus(error);
+  const message = error instanceof Error ? error.message : String(error);
+  const fields = hasHTTPErrorFields(error) ? error : {};
+
+  if (status === undefined) {
+    const aborted = fields.name === 'AbortError' || fields.code === 'ERR_CANCELED';
+    return new RemoteSendError(message, undefined, !aborted);
+  }
+
+  const headers = fields.response?.headers;
+  const retryAfter =
+    typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  return new RemoteSendError(
+    message,
+    status,
+    isRetryableStatus(status),
+    parseRetryAfter(typeof retryAfter === 'string' ? retryAfter : undefined)
+  );
+}
+
+/**
+ * Backoff between attempts
+ */
+export interface RetryOptions {
+  /** Attempts in total, including the first (default: 4) */
+  maxAttempts?: number;
+  /** Delay cap of the first retry in milliseconds, doubled per retry (default: 500) */
+  baseDelay?: number;
+  /** Longest delay in milliseconds; a longer Retry-After ends retrying (default: 30000) */
+  maxDelay?: number;
+}
+
+/**
+ * Delay before a retry: exponential backoff with full jitter
+ *
+ * @param attempt - Number of attempts made so far (1 for the first retry)
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: RetryOptions = {},
+  random: () => number = Math.random
+): number {
+  const { baseDelay = 500, maxDelay = 30000 } = options;
+  return Math.floor(random() * Math.min(maxDelay, baseDelay * 2 ** (attempt - 1)));
+}
+
+/**
+ * Run a request, retrying retryable failures with backoff
+ * Waits at least as long as Retry-After asks for. Throws the classified error
+ * of the last attempt.
+ */
+export async function withRetry<T>(
+  send: () => Promise<T>,
+  options: RetryOptions = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const { maxAttempts = 4, maxDelay = 30000 } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await send();
+    } catch (error) {
+      const sendError = classifySendError(error);
+      if (!sendError.retryable || attempt >= maxAttempts || signal?.aborted) throw sendError;
+      if ((sendError.retryAfter ?? 0) > maxDelay) throw sendError;
+
+      const delay = Math.max(getBackoffDelay(attempt, options), sendError.retryAfter ?? 0);
+      await sleep(delay, signal);
+    }
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timeout);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Circuit breaker thresholds
+ */
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default: 3) */
+  failureThreshold?: number;
+  /** How long the circuit stays open in milliseconds (default: 60000) */
+  resetTimeout?: number;
+}
+
+/**
+ * Circuit breaker state: closed (sending), open (paused) or half-open (one trial request)
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker for a remote LRS
+ * Opens after consecutive retryable failures so a down or rate limiting LRS is
+ * not hammered; after the reset timeout (or a longer Retry-After) one trial
+ * request decides whether it closes again
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openUntil = 0;
+  private readonly failureThreshold: number;
+  private readonly resetTimeout: number;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.resetTimeout = options.resetTimeout ?? 60000;
+  }
+
+  /**
+   * Current state
+   */
+  getState(now = Date.now()): CircuitState {
+    if (this.failures < this.failureThreshold) return 'closed';
+    return now < this.openUntil ? 'open' : 'half-open';
+  }
+
+  /**
+   * When the circuit closes for a trial request, if it is open
+   */
+  getOpenUntil(now = Date.now()): Date | undefined {
+    return this.getState(now) === 'open' ? new Date(this.openUntil) : undefined;
+  }
+
+  /**
+   * Throw CircuitOpenError if requests are paused
+   */
+  assertCanSend(now = Date.now()): void {
+    if (this.getState(now) === 'open') throw new CircuitOpenError(this.openUntil - now);
+  }
+
+  /**
+   * Close the circuit after a successful request
+   */
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openUntil = 0;
+  }
+
+  /**
+   * Count a failed request; permanent errors say nothing about availability and are ignored
+   */
+  recordFailure(error: RemoteSendError, now = Date.now()): void {
+    if (!error.retryable || error instanceof CircuitOpenError) return;
+
+    this.failures++;
+    if (this.failures >= this.failureThreshold) {
+      this.openUntil = now + Math.max(this.resetTimeout, error.retryAfter ?? 0);
+    }
+  }
+}
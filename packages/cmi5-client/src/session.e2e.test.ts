@@ -0,0 +1,307 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import XAPI from '@xapi/xapi';
+import type { Statement } from '@xapi/xapi';
+import { LRSStore } from 'cmi5-lrs';
+import { CMI5_CATEGORY_ACTIVITIES, CMI5_CONTEXT_EXTENSIONS, CMI5_VERBS } from 'cmi5-core';
+import { CMI5Session, CMI5SessionError } from './session';
+import type { CMI5LaunchData } from './session';
+
+const ACTOR = { mbox: 'mailto:learner@example.com', name: 'Learner' };
+const ACTIVITY_ID = 'https://example.com/au/1';
+const REGISTRATION = '2f6e4c1a-8b3d-4e5f-9a7c-1d2e3f4a5b6c';
+const SESSION_ID = '7c3a9e1f-5b2d-4c8e-a6f4-0b1d3e5f7a9c';
+const FETCH_URL = 'https://lms.example.com/fetch/one-time-token';
+
+const launchData: CMI5LaunchData = {
+  contextTemplate: {
+    contextActivities: {
+      grouping: [{ id: 'https://example.com/course' }],
+    },
+    extensions: { [CMI5_CONTEXT_EXTENSIONS.SESSION_ID]: SESSION_ID },
+  },
+  launchMode: 'Normal',
+  moveOn: 'CompletedAndPassed',
+  masteryScore: 0.8,
+  returnURL: 'https://lms.example.com/course',
+};
+
+function launchURL(): string {
+  const params = new URLSearchParams({
+    endpoint: 'https://lms.example.com/xapi',
+    fetch: FETCH_URL,
+    actor: JSON.stringify(ACTOR),
+    registration: REGISTRATION,
+    activityId: ACTIVITY_ID,
+  });
+  return `https://content.example.com/au/index.html?${params}`;
+}
+
+describe('CMI5Session (e2e)', () => {
+  let lrs: LRSStore;
+  let fetchMock: ReturnType<typeof vi.fn>;
+  let tokenStorage: Map<string, string> & Pick<Storage, 'getItem' | 'setItem'>;
+
+  beforeEach(async () => {
+    lrs = new LRSStore({ dbName: 'test-session.db', inMemory: true });
+    await lrs.init();
+    await lrs.saveCMI5State(
+      REGISTRATION,
+      ACTIVITY_ID,
+      ACTOR,
+      'LMS.LaunchData',
+      launchData as never
+    );
+
+    fetchMock = vi.fn(async () => Response.json({ 'auth-token': 'dGVzdDp0b2tlbg==' }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const entries = new Map<string, string>();
+    tokenStorage = Object.assign(entries, {
+      getItem: (key: string) => entries.get(key) ?? null,
+      setItem: (key: string, value: string) => void entries.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  function createSession(): CMI5Session {
+    return CMI5Session.fromURL(launchURL(), {
+      client: { useLocalLRS: true, localLRS: lrs },
+      tokenStorage,
+    });
+  }
+
+  async function storedVerbs(): Promise<string[]> {
+    const { statements } = await lrs.queryStatements({
+      registration: REGISTRATION,
+      ascending: true,
+    });
+    return statements.map((statement: Statement) => statement.verb.id);
+  }
+
+  it('obtains the auth token, reads the launch data and sends initialized', async () => {
+    const session = createSession();
+
+    expect(await session.start()).toEqual(launchData);
+
+    expect(fetchMock).toHaveBeenCalledWith(FETCH_URL, { method: 'POST' });
+    expect(tokenStorage.getItem(`cmi5.auth:${FETCH_URL}`)).toBe('Basic dGVzdDp0b2tlbg==');
+    expect(session.getState()).toBe('initialized');
+    expect(session.sessionId).toBe(SESSION_ID);
+
+    const [initialized] = (await lrs.queryStatements({ registration: REGISTRATION })).statements;
+    expect(initialized?.verb.id).toBe(CMI5_VERBS.INITIALIZED);
+    expect(initialized?.context).toMatchObject({
+      registration: REGISTRATION,
+      contextActivities: {
+        grouping: [{ id: 'https://example.com/course' }],
+        category: [{ id: CMI5_CATEGORY_ACTIVITIES.CMI5 }],
+      },
+      extensions: { [CMI5_CONTEXT_EXTENSIONS.SESSION_ID]: SESSION_ID },
+    });
+  });
+
+  it('reuses the stored token when the AU is reloaded', async () => {
+    await createSession().start();
+    await createSession().start();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('resumes the session of a reloaded AU without sending initialized again', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-01-01T00:00:00Z'), toFake: ['Date'] });
+    try {
+      const first = createSession();
+      await first.start();
+      vi.setSystemTime(Date.parse('2026-01-01T00:01:30Z'));
+      first.activeTime.pause();
+      await vi.waitFor(async () => {
+        const record = await lrs.getCMI5StateDocument(
+          REGISTRATION,
+          ACTIVITY_ID,
+          ACTOR,
+          'cmi5.session'
+        );
+        expect(record?.content).toMatchObject({ activeTime: 90000 });
+      });
+
+      const session = createSession();
+      await session.start();
+      expect(session.getState()).toBe('initialized');
+      await session.terminate();
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(await storedVerbs()).toEqual([CMI5_VERBS.INITIALIZED, CMI5_VERBS.TERMINATED]);
+    const { statements } = await lrs.queryStatements({ verb: CMI5_VERBS.TERMINATED });
+    expect(statements[0]?.result?.duration).toBe('PT1M30S');
+  });
+
+  it('sends terminated once', async () => {
+    const session = createSession();
+    await session.start();
+
+    await Promise.all([session.terminate(), session.terminate()]);
+    await session.terminate();
+
+    expect(session.getState()).toBe('terminated');
+    expect(await storedVerbs()).toEqual([CMI5_VERBS.INITIALIZED, CMI5_VERBS.TERMINATED]);
+  });
+
+  it('reports fetch URL errors with their cmi5 error code', async () => {
+    fetchMock.mockResolvedValueOnce(
+      Response.json({ 'error-code': '1', 'error-text': 'Already in use' }, { status: 400 })
+    );
+
+    const error = await createSession()
+      .start()
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(CMI5SessionError);
+    expect(error).toMatchObject({ errorCode: '1' });
+    expect(await storedVerbs()).toEqual([]);
+  });
+
+  it('fails without launch data', async () => {
+    await lrs.deleteCMI5State(REGISTRATION, ACTIVITY_ID, ACTOR, 'LMS.LaunchData');
+
+    await expect(createSession().start()).rejects.toThrow('No LMS.LaunchData state document');
+  });
+
+  it('keeps the session open when terminated cannot be stored and sends it again', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const session = createSession();
+    await session.start();
+    vi.spyOn(lrs, 'storeStatement').mockRejectedValueOnce(new Error('Disk full'));
+
+    await expect(session.terminate()).rejects.toThrow('Disk full');
+    expect(session.getState()).toBe('initialized');
+    expect(
+      await lrs.getCMI5StateDocument(REGISTRATION, ACTIVITY_ID, ACTOR, 'cmi5.session')
+    ).not.toBeNull();
+
+    await session.terminate();
+    expect(session.getState()).toBe('terminated');
+    expect(await storedVerbs()).toEqual([CMI5_VERBS.INITIALIZED, CMI5_VERBS.TERMINATED]);
+  });
+
+  describe('when the page is hidden', () => {
+    let listeners: Map<string, () => void>;
+
+    beforeEach(() => {
+      listeners = new Map();
+      vi.stubGlobal('addEventListener', (type: string, listener: () => void) =>
+        listeners.set(type, listener)
+      );
+      vi.stubGlobal('removeEventListener', (type: string) => listeners.delete(type));
+    });
+
+    it('stores terminated through the client before removing the session record', async () => {
+      const session = createSession();
+      await session.start();
+
+      listeners.get('pagehide')!();
+      await session.terminate();
+
+      expect(session.getState()).toBe('terminated');
+      expect(listeners.has('pagehide')).toBe(false);
+      expect(await storedVerbs()).toEqual([CMI5_VERBS.INITIALIZED, CMI5_VERBS.TERMINATED]);
+      expect(
+        await lrs.getCMI5StateDocument(REGISTRATION, ACTIVITY_ID, ACTOR, 'cmi5.session')
+      ).toBeNull();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('sends terminated with keepalive requests from a remote client', async () => {
+      vi.spyOn(XAPI.prototype, 'getState').mockImplementation(async (params) => {
+        if (params.stateId === 'LMS.LaunchData') {
+          return { data: launchData, headers: {}, status: 200 } as never;
+        }
+        throw Object.assign(new Error('Not found'), { response: { status: 404, headers: {} } });
+      });
+      vi.spyOn(XAPI.prototype, 'setState').mockResolvedValue({} as never);
+      vi.spyOn(XAPI.prototype, 'sendStatement').mockResolvedValue({} as never);
+      const session = CMI5Session.fromURL(launchURL(), { tokenStorage });
+      await session.start();
+
+      listeners.get('pagehide')!();
+      await session.terminate();
+
+      const [[postURL, post], [deleteURL, remove]] = fetchMock.mock.calls.slice(1);
+      expect(postURL).toBe('https://lms.example.com/xapi/statements');
+      expect(post).toMatchObject({ method: 'POST', keepalive: true });
+      expect(JSON.parse(post.body).verb.id).toBe(CMI5_VERBS.TERMINATED);
+      expect(new URL(deleteURL).searchParams.get('stateId')).toBe('cmi5.session');
+      expect(remove).toMatchObject({ method: 'DELETE', keepalive: true });
+    });
+
+    it('keeps the session record when terminated does not get through', async () => {
+      const session = createSession();
+      await session.start();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(lrs, 'storeStatement').mockRejectedValueOnce(new Error('Disk full'));
+
+      listeners.get('pagehide')!();
+      await vi.waitFor(() => expect(console.warn).toHaveBeenCalled());
+
+      expect(session.getState()).toBe('initialized');
+      expect(listeners.has('pagehide')).toBe(true);
+      expect(
+        await lrs.getCMI5StateDocument(REGISTRATION, ACTIVITY_ID, ACTOR, 'cmi5.session')
+      ).not.toBeNull();
+    });
+  });
+
+  it('reports the active time as the terminated duration', async () => {
+    vi.useFakeTimers({ now: Date.parse('2026-01-01T00:00:00Z'), toFake: ['Date'] });
+    try {
+      const session = createSession();
+      await session.start();
+      vi.setSystemTime(Date.parse('2026-01-01T00:01:30Z'));
+      session.activeTime.pause();
+      vi.setSystemTime(Date.parse('2026-01-01T01:00:00Z'));
+
+      await session.terminate();
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const { statements } = await lrs.queryStatements({ verb: CMI5_VERBS.TERMINATED });
+    expect(statements[0]?.result?.duration).toBe('PT1M30S');
+  });
+
+  it('reports a session that never terminated as abandoned on the next launch', async () => {
+    await createSession().start();
+    const nextSessionId = 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d';
+    await lrs.saveCMI5State(REGISTRATION, ACTIVITY_ID, ACTOR, 'LMS.LaunchData', {
+      ...launchData,
+      contextTemplate: {
+        ...launchData.contextTemplate,
+        extensions: { [CMI5_CONTEXT_EXTENSIONS.SESSION_ID]: nextSessionId },
+      },
+    } as never);
+
+    const session = createSession();
+    await session.start();
+    await session.terminate();
+
+    expect(await storedVerbs()).toEqual([
+      CMI5_VERBS.INITIALIZED,
+      CMI5_VERBS.ABANDONED,
+      CMI5_VERBS.INITIALIZED,
+      CMI5_VERBS.TERMINATED,
+    ]);
+    const [abandoned] = (await lrs.queryStatements({ verb: CMI5_VERBS.ABANDONED })).statements;
+    expect(abandoned?.context?.extensions?.[CMI5_CONTEXT_EXTENSIONS.SESSION_ID]).toBe(SESSION_ID);
+    expect(abandoned?.result?.duration).toMatch(/^PT[\d.]+S$/);
+
+    // The terminated session is not reported again
+    await createSession().start();
+    expect((await storedVerbs()).filter((verb) => verb === CMI5_VERBS.ABANDONED)).toHaveLength(1);
+  });
+});
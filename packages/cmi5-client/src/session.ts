@@ -0,0 +1,493 @@
+/**
+ * CMI5 AU Session
+ *
+ * The AU side of a cmi5 launch: obtains the authorization token from the
+ * launch's fetch URL, reads the LMS.LaunchData state document, sends
+ * `initialized` and makes sure `terminated` is sent when the AU exits.
+ * Measures the learner's active time and reports sessions of an earlier
+ * launch that never terminated as abandoned.
+ */
+
+import type { Agent, Context, Statement } from '@xapi/xapi';
+import type { CMI5LaunchMode, CMI5LaunchParameters } from 'cmi5-core';
+import {
+  CMI5_CONTEXT_EXTENSIONS,
+  CMI5_LAUNCH_DATA_STATE_ID,
+  DEFAULT_SESSION_STATE_ID,
+} from 'cmi5-core';
+import { ActiveTimeTracker } from './active-time';
+import type { ActiveTimeTrackerOptions } from './active-time';
+import { CMI5StatementBuilder } from './defined-statements';
+import type { CMI5RegistrationHistory } from './defined-statements';
+import { parseCMI5LaunchParameters } from './launcher';
+import { toResponseError } from './retry';
+import { XAPIClient } from './xapi-client';
+import type { XAPIClientOptions } from './xapi-client';
+
+/**
+ * LMS.LaunchData state document, written by the LMS for each launch
+ */
+export interface CMI5LaunchData {
+  /** Context every cmi5 defined statement of the session starts from */
+  contextTemplate: Context;
+  /** Launch mode */
+  launchMode: CMI5LaunchMode;
+  /** Criteria for the AU to be satisfied */
+  moveOn: 'Passed' | 'Completed' | 'CompletedAndPassed' | 'CompletedOrPassed' | 'NotApplicable';
+  /** Score (0-1) required to pass, if the course sets one */
+  masteryScore?: number;
+  /** Where the AU returns the learner when it exits */
+  returnURL?: string;
+  /** Launch parameters authored for the AU in the course structure, as-is */
+  launchParameters?: string;
+  /** Entitlement keys the AU may check */
+  entitlementKey?: {
+    /** Key authored for the AU in the course structure */
+    courseStructure?: string;
+    /** Key the LMS supplies instead */
+    alternate?: string;
+  };
+}
+
+/**
+ * Error of a cmi5 session
+ * Fetch URL errors carry the cmi5 error code: 1 (already used), 2 (expired) or 3 (general)
+ */
+export class CMI5SessionError extends Error {
+  constructor(
+    message: string,
+    public readonly errorCode?: string
+  ) {
+    super(message);
+    this.name = 'CMI5SessionError';
+  }
+}
+
+/**
+ * CMI5 Session Options
+ */
+export interface CMI5SessionOptions {
+  /**
+   * Options of the session's XAPIClient (default: remote mode)
+   * Use `hybrid: true` with an outbox so statements survive a closed tab
+   */
+  client?: XAPIClientOptions;
+  /**
+   * Storage keeping the authorization token across reloads, as the fetch URL
+   * can only be used once (default: sessionStorage where available)
+   */
+  tokenStorage?: Pick<Storage, 'getItem' | 'setItem'> | null;
+  /** Whether earlier sessions of the registration completed or passed the AU */
+  history?: CMI5RegistrationHistory;
+  /** When the learner counts as idle */
+  activeTime?: Pick<ActiveTimeTrackerOptions, 'idleTimeout'>;
+}
+
+/**
+ * The AU's record of its open session, removed when the session terminates
+ */
+interface OpenSessionRecord {
+  sessionId: string;
+  /** Whether initialized was sent */
+  state: CMI5SessionState;
+  /** Active time in milliseconds as of the last checkpoint */
+  activeTime: number;
+  updatedAt: string;
+}
+
+/**
+ * Session lifecycle state
+ */
+export type CMI5SessionState = 'created' | 'initialized' | 'terminated';
+
+/**
+ * CMI5 Session
+ *
+ * Usage:
+ * ```typescript
+ * const session = CMI5Session.fromURL(window.location.href);
+ * const launchData = await session.start(); // Sends initialized
+ *
+ * await session.client.sendStatement(session.statements.completed());
+ *
+ * await session.exit(); // Sends terminated and returns to the LMS
+ * ```
+ *
+ * If the page is hidden without `terminate()` or `exit()`, terminated is sent
+ * through the client: stored in the local LRS or outbox, or for remote clients
+ * without an outbox, sent with a keepalive request that outlives the page.
+ */
+export class CMI5Session {
+  private launchParams: CMI5LaunchParameters;
+  private options: CMI5SessionOptions;
+  private xapiClient: XAPIClient | null = null;
+  private data: CMI5LaunchData | null = null;
+  private id: string | null = null;
+  private builder: CMI5StatementBuilder | null = null;
+  private tracker: ActiveTimeTracker | null = null;
+  private state: CMI5SessionState = 'created';
+  private terminating: Promise<void> | null = null;
+  /** Built once, so a failed attempt is retried with the same statement */
+  private terminatedStatement: Statement | null = null;
+
+  constructor(launchParams: CMI5LaunchParameters, options: CMI5SessionOptions = {}) {
+    if (!launchParams.activityId || !launchParams.registration) {
+      throw new CMI5SessionError('cmi5 launches require activityId and registration');
+    }
+    this.launchParams = launchParams;
+    this.options = options;
+  }
+
+  /**
+   * Create a session from the AU's launch URL
+   */
+  static fromURL(url: string, options: CMI5SessionOptions = {}): CMI5Session {
+    return new CMI5Session(parseCMI5LaunchParameters(new URL(url).search), options);
+  }
+
+  /**
+   * Start the session
+   * Obtains the authorization token, reads LMS.LaunchData and sends initialized.
+   * A session of an earlier launch that never terminated is reported as abandoned
+   * first; a reloaded AU carries on with its session, without sending initialized
+   * again, and with its active time.
+   *
+   * @returns The launch data
+   */
+  async start(): Promise<CMI5LaunchData> {
+    if (this.state !== 'created') {
+      throw new CMI5SessionError(`Session is already ${this.state}`);
+    }
+
+    const auth = this.launchParams.fetch ? await this.fetchAuthToken() : this.launchParams.auth;
+    this.launchParams = { ...this.launchParams, auth };
+    this.xapiClient = new XAPIClient(this.launchParams, {
+      useLocalLRS: false,
+      ...this.options.client,
+    });
+
+    const launchData = (await this.xapiClient.getState(
+      this.activityId,
+      CMI5_LAUNCH_DATA_STATE_ID,
+      this.launchParams.actor,
+      this.registration
+    )) as CMI5LaunchData | null;
+    if (!launchData) {
+      throw new CMI5SessionError(`No ${CMI5_LAUNCH_DATA_STATE_ID} state document for this launch`);
+    }
+    this.data = launchData;
+    this.id =
+      (launchData.contextTemplate?.extensions?.[CMI5_CONTEXT_EXTENSIONS.SESSION_ID] as
+        | string
+        | undefined) ?? crypto.randomUUID();
+
+    const previous = (await this.xapiClient.getState(
+      this.activityId,
+      DEFAULT_SESSION_STATE_ID,
+      this.launchParams.actor,
+      this.registration
+    )) as OpenSessionRecord | null;
+    const resumed = previous?.sessionId === this.id && previous.state === 'initialized';
+    const tracker = new ActiveTimeTracker({
+      ...this.options.activeTime,
+      initialTime: resumed ? previous.activeTime : 0,
+      onPause: () => this.checkpoint(),
+    });
+    this.tracker = tracker;
+    this.builder = new CMI5StatementBuilder(
+      {
+        actor: this.actor,
+        activityId: this.activityId,
+        registration: this.registration,
+        sessionId: this.id,
+        launchData,
+        getDuration: () => tracker.getActiveTime(),
+      },
+      this.options.history
+    );
+
+    if (resumed) {
+      this.builder.resume();
+      this.state = 'initialized';
+    } else {
+      if (previous?.state === 'initialized') {
+        await this.xapiClient.sendStatement(
+          this.builder.abandoned({ sessionId: previous.sessionId, duration: previous.activeTime })
+        );
+      }
+      await this.saveOpenSession();
+
+      await this.xapiClient.sendStatement(this.builder.initialized());
+      this.state = 'initialized';
+      await this.saveOpenSession();
+    }
+    tracker.start();
+
+    if (typeof globalThis.addEventListener === 'function') {
+      globalThis.addEventListener('pagehide', this.handlePageHide);
+    }
+    return launchData;
+  }
+
+  /**
+   * Send terminated and end the session
+   * Safe to call more than once; later calls wait for the first. If sending
+   * fails, the session stays initialized and the next call tries again.
+   */
+  terminate(): Promise<void> {
+    if (this.state === 'created') {
+      return Promise.reject(new CMI5SessionError('Session was not started'));
+    }
+    return this.startTerminating(false);
+  }
+
+  /**
+   * Terminate the session and return the learner to the LMS (returnURL, if any)
+   */
+  async exit(): Promise<void> {
+    await this.terminate();
+    const returnURL = this.data?.returnURL;
+    if (returnURL && typeof location !== 'undefined') {
+      location.assign(returnURL);
+    }
+  }
+
+  /**
+   * Client for the session's statements and documents, with the obtained authorization
+   */
+  get client(): XAPIClient {
+    if (!this.xapiClient) throw new CMI5SessionError('Session was not started');
+    return this.xapiClient;
+  }
+
+  /**
+   * Launch data read when the session started
+   */
+  get launchData(): CMI5LaunchData {
+    if (!this.data) throw new CMI5SessionError('Session was not started');
+    return this.data;
+  }
+
+  /**
+   * Where the AU returns the learner when it exits, if the LMS gave one
+   */
+  get returnURL(): string | undefined {
+    return this.launchData.returnURL;
+  }
+
+  /**
+   * Launch parameters authored for the AU, if any
+   */
+  get launchParameters(): string | undefined {
+    return this.launchData.launchParameters;
+  }
+
+  /**
+   * Entitlement key of the launch: the LMS's alternate key, else the authored one
+   */
+  get entitlementKey(): string | undefined {
+    const { entitlementKey } = this.launchData;
+    return entitlementKey?.alternate ?? entitlementKey?.courseStructure;
+  }
+
+  /**
+   * cmi5 session ID, from the context template or generated
+   */
+  get sessionId(): string {
+    if (!this.id) throw new CMI5SessionError('Session was not started');
+    return this.id;
+  }
+
+  get activityId(): string {
+    return this.launchParams.activityId!;
+  }
+
+  get registration(): string {
+    return this.launchParams.registration!;
+  }
+
+  get actor(): Agent {
+    return JSON.parse(this.launchParams.actor) as Agent;
+  }
+
+  getState(): CMI5SessionState {
+    return this.state;
+  }
+
+  /**
+   * Active time tracker of the session
+   * Its clock pauses while the page is hidden or the learner is idle
+   */
+  get activeTime(): ActiveTimeTracker {
+    if (!this.tracker) throw new CMI5SessionError('Session was not started');
+    return this.tracker;
+  }
+
+  /**
+   * Builders of the session's cmi5 defined statements, which enforce the cmi5 rules
+   */
+  get statements(): CMI5StatementBuilder {
+    if (!this.builder) throw new CMI5SessionError('Session was not started');
+    return this.builder;
+  }
+
+  /**
+   * Build a statement about the AU in the context of this session
+   * The context template is applied and the registration, session ID and launch mode set
+   */
+  buildStatement(verbId: string, display: string, statement: Partial<Statement> = {}): Statement {
+    return this.statements.buildStatement(verbId, display, statement);
+  }
+
+  private startTerminating(keepalive: boolean): Promise<void> {
+    if (!this.terminating) {
+      this.terminating = this.sendTerminated(keepalive).catch((error) => {
+        this.terminating = null;
+        throw error;
+      });
+    }
+    return this.terminating;
+  }
+
+  /**
+   * Send terminated, then remove the open session record
+   * The session is terminated once the statement is stored or sent; the record
+   * is only removed after that, so a lost terminated is reported as abandoned.
+   * When the page goes away, remote requests are sent with keepalive, which
+   * outlives the page: a hybrid client stores terminated in its outbox, which is
+   * then delivered with keepalive requests, and the record is removed with one.
+   */
+  private async sendTerminated(keepalive: boolean): Promise<void> {
+    this.terminatedStatement ??= this.statements.terminated();
+    this.tracker?.stop();
+    const { useLocalLRS, hybrid } = this.options.client ?? {};
+    const viaFetch = keepalive && !useLocalLRS;
+
+    if (this.state === 'initialized') {
+      if (viaFetch && !hybrid) {
+        await this.sendKeepalive('statements', {
+          method: 'POST',
+          body: JSON.stringify(this.terminatedStatement),
+        });
+      } else {
+        await this.client.sendStatement(this.terminatedStatement);
+      }
+      this.state = 'terminated';
+      this.stopListening();
+    }
+
+    if (viaFetch) {
+      const params = new URLSearchParams({
+        activityId: this.activityId,
+        agent: this.launchParams.actor,
+        stateId: DEFAULT_SESSION_STATE_ID,
+        registration: this.registration,
+      });
+      await this.sendKeepalive(`activities/state?${params}`, { method: 'DELETE' });
+    } else {
+      await this.client.deleteState(
+        this.activityId,
+        DEFAULT_SESSION_STATE_ID,
+        this.launchParams.actor,
+        this.registration
+      );
+    }
+    await this.client.flush();
+    this.client.close();
+  }
+
+  /**
+   * Send a request to the LRS with keepalive, so it outlives the page
+   */
+  private async sendKeepalive(path: string, init: RequestInit): Promise<void> {
+    const endpoint = this.launchParams.endpoint.replace(/\/$/, '');
+    const response = await fetch(`${endpoint}/${path}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: this.launchParams.auth,
+        'X-Experience-API-Version': '1.0.3',
+      },
+      keepalive: true,
+    });
+    if (!response.ok) {
+      throw toResponseError(response, 'Keepalive request failed');
+    }
+  }
+
+  /**
+   * Terminate when the page goes away mid-session
+   */
+  private handlePageHide = (): void => {
+    if (this.state !== 'initialized' || this.terminating) return;
+
+    this.startTerminating(true).catch((error) => {
+      console.warn('Failed to send terminated when the page was hidden:', error);
+    });
+  };
+
+  /**
+   * Record the open session and its active time, for abandoned detection
+   */
+  private async saveOpenSession(): Promise<void> {
+    const record: OpenSessionRecord = {
+      sessionId: this.sessionId,
+      state: this.state,
+      activeTime: this.tracker?.getActiveTime() ?? 0,
+      updatedAt: new Date().toISOString(),
+    };
+    await this.client.saveState(
+      this.activityId,
+      DEFAULT_SESSION_STATE_ID,
+      this.launchParams.actor,
+      record,
+      this.registration
+    );
+  }
+
+  /**
+   * Save the active time whenever the clock pauses, as a closed tab may not get to
+   */
+  private checkpoint(): void {
+    if (this.state !== 'initialized' || this.terminatedStatement) return;
+    this.saveOpenSession().catch((error) => {
+      console.warn('Failed to checkpoint the cmi5 session:', error);
+    });
+  }
+
+  private stopListening(): void {
+    this.tracker?.stop();
+    if (typeof globalThis.removeEventListener === 'function') {
+      globalThis.removeEventListener('pagehide', this.handlePageHide);
+    }
+  }
+
+  /**
+   * POST to the fetch URL for the authorization token
+   * The token is kept in tokenStorage, so a reloaded AU does not use the URL twice
+   */
+  private async fetchAuthToken(): Promise<string> {
+    const storage =
+      this.options.tokenStorage !== undefined
+        ? this.options.tokenStorage
+        : typeof sessionStorage !== 'undefined'
+          ? sessionStorage
+          : null;
+    const key = `cmi5.auth:${this.launchParams.fetch}`;
+    const stored = storage?.getItem(key);
+    if (stored) return stored;
+
+    const response = await fetch(this.launchParams.fetch!, { method: 'POST' });
+    const body = (await response.json().catch(() => ({}))) as Record<string, string>;
+    if (!response.ok || body['error-code'] || !body['auth-token']) {
+      throw new CMI5SessionError(
+        `Failed to obtain authorization token: ${body['error-text'] ?? response.statusText}`,
+        body['error-code']
+      );
+    }
+
+    const auth = `Basic ${body['auth-token']}`;
+    storage?.setItem(key, auth);
+    return auth;
+  }
+}
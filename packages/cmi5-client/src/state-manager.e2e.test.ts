@@ -1,7 +1,8 @@
 import { describe, expect, it, beforeEach, afterEach } from 'vitest';
-import { CMI5StateManager } from './state-manager';
+import { CMI5LaunchModeError, CMI5StateManager } from './state-manager';
 import type { CMI5LaunchParameters } from 'cmi5-core';
-import { LRSStore } from 'cmi5-lrs';
+import { DEFAULT_STATE_ID } from 'cmi5-core';
+import { LRSStore, PreconditionFailedError } from 'cmi5-lrs';
 
 describe('CMI5StateManager (e2e)', () => {
   let lrs: LRSStore;
@@ -177,4 +178,62 @@ describe('CMI5StateManager (e2e)', () => {
     expect(objectiveState?.nodeId).toBe('node-1');
     expect(objectiveState?.kubitId).toBe('node-1'); // Also set for backward compatibility
   });
+
+  it('detects state saved concurrently by another tab', async () => {
+    const options = { activityId: 'test-activity', useLocalLRS: true, localLRS: lrs };
+    const tabA = new CMI5StateManager(launchParams, options);
+    const tabB = new CMI5StateManager(launchParams, options);
+    await tabA.initialize();
+    await tabB.initialize();
+
+    tabA.updateProgress('lesson-1', 1000);
+    await tabA.saveState();
+
+    tabB.updateProgress('lesson-2', 2000);
+    await expect(tabB.saveState()).rejects.toBeInstanceOf(PreconditionFailedError);
+
+    // After reloading, tab B sees tab A's progress and can save again
+    await tabB.initialize();
+    expect(tabB.getState().progress.completedLessons).toEqual(['lesson-1']);
+    tabB.updateProgress('lesson-2', 2000);
+    await tabB.saveState();
+
+    const saved = await lrs.getCMI5State(
+      'test-registration',
+      'test-activity',
+      { mbox: 'mailto:test@example.com' },
+      DEFAULT_STATE_ID
+    );
+    expect(saved?.progress.completedLessons).toEqual(['lesson-1', 'lesson-2']);
+  });
+
+  it('keeps mastery and completion unchanged in Review mode', async () => {
+    const normal = new CMI5StateManager(launchParams, {
+      activityId: 'test-activity',
+      useLocalLRS: true,
+      localLRS: lrs,
+    });
+    await normal.initialize();
+    normal.updateObjectiveState('obj-1', 'node-1', 0.9, true);
+    await normal.saveState();
+
+    const review = new CMI5StateManager(launchParams, {
+      activityId: 'test-activity',
+      useLocalLRS: true,
+      localLRS: lrs,
+      launchMode: 'Review',
+    });
+    await review.initialize();
+
+    expect(review.canRecordProgress()).toBe(false);
+    expect(review.getState().launchMode).toBe('Review');
+    expect(() => review.updateObjectiveState('obj-1', 'node-1', 0.1, false)).toThrow(
+      CMI5LaunchModeError
+    );
+    expect(() => review.markCompleted()).toThrow('Cannot mark the AU completed in Review mode');
+
+    review.updateProgress('lesson-1', 1000);
+    expect(review.getState().progress).toMatchObject({ timeSpent: 1000, completedLessons: [] });
+    expect(review.getObjectiveState('obj-1')?.mastery).toBe(0.9);
+  });
 });
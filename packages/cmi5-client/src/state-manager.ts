@@ -14,8 +14,10 @@ import type {
   CMI5State,
   CMI5ObjectiveState,
   CMI5LaunchParameters,
+  CMI5LaunchMode,
 } from 'cmi5-core';
 import { DEFAULT_STATE_ID } from 'cmi5-core';
+import type { DocumentWriteOptions } from 'cmi5-lrs';
 import { XAPIClient, type XAPIClientOptions } from './xapi-client';
 
 /**
@@ -26,6 +28,21 @@ export interface CMI5StateManagerOptions extends XAPIClientOptions {
   activityId: string;
   /** State ID for xAPI state API (default: 'cmi5.runtime') */
   stateId?: string;
+  /** Launch mode of this launch, from LMS.LaunchData (default: 'Normal') */
+  launchMode?: CMI5LaunchMode;
+}
+
+/**
+ * Thrown when a Browse or Review launch tries to change mastery or completion
+ */
+export class CMI5LaunchModeError extends Error {
+  constructor(
+    message: string,
+    public readonly launchMode: CMI5LaunchMode
+  ) {
+    super(message);
+    this.name = 'CMI5LaunchModeError';
+  }
 }
 
 /**
@@ -40,11 +57,18 @@ export class CMI5StateManager {
   private activityId: string;
   private stateId: string;
   private actor: any; // Parsed actor object
+  private launchMode: CMI5LaunchMode;
+  /**
+   * ETag of the stored state as last loaded or saved
+   * null = no stored state, undefined = unknown (no precondition is sent)
+   */
+  private etag: string | null | undefined;
 
   constructor(launchParams: CMI5LaunchParameters, options: CMI5StateManagerOptions) {
     this.launchParams = launchParams;
     this.activityId = options.activityId;
     this.stateId = options.stateId || DEFAULT_STATE_ID;
+    this.launchMode = options.launchMode || 'Normal';
     
     // Parse actor
     try {
@@ -59,7 +83,7 @@ export class CMI5StateManager {
     // Initialize state
     this.state = {
       registration: launchParams.registration || 'unknown',
-      launchMode: 'Normal',
+      launchMode: this.launchMode,
       objectiveStates: new Map(),
       progress: {
         completedLessons: [],
@@ -74,18 +98,22 @@ export class CMI5StateManager {
    */
   async initialize(): Promise<void> {
     try {
-      const savedState = await this.xapiClient.getState(
+      const document = await this.xapiClient.getStateDocument(
         this.activityId,
         this.stateId,
-        this.actor
+        this.actor,
+        this.launchParams.registration
       );
+      const savedState = document?.state;
+      this.etag = document ? document.etag : null;
 
       if (savedState) {
         // Convert saved state to CMI5State format
         const state = savedState as any;
         this.state = {
           registration: state.registration || this.launchParams.registration || 'unknown',
-          launchMode: state.launchMode || 'Normal',
+          // The launch mode belongs to this launch, not to the stored state
+          launchMode: this.launchMode,
           objectiveStates: new Map(
             Object.entries(state.objectiveStates || {}).map(([key, value]: [string, any]) => [
               key,
@@ -109,13 +137,22 @@ export class CMI5StateManager {
         };
       }
     } catch (error) {
+      this.etag = undefined;
       console.warn('Failed to load CMI5 state, starting with empty state:', error);
       // Continue with empty state
     }
   }
 
+  /**
+   * Whether this launch may change mastery and completion (Normal mode only)
+   */
+  canRecordProgress(): boolean {
+    return this.launchMode === 'Normal';
+  }
+
   /**
    * Update objective mastery state
+   * Throws CMI5LaunchModeError in Browse and Review mode
    */
   updateObjectiveState(
     objectiveId: string,
@@ -123,6 +160,7 @@ export class CMI5StateManager {
     mastery: number,
     satisfied: boolean
   ): void {
+    this.assertCanRecordProgress('update objective mastery');
     const existing = this.state.objectiveStates.get(objectiveId);
     
     this.state.objectiveStates.set(objectiveId, {
@@ -145,20 +183,23 @@ export class CMI5StateManager {
 
   /**
    * Update lesson progress
+   * Browse and Review launches count time spent but do not complete lessons
    */
   updateProgress(lessonId: string, timeSpent: number): void {
     this.state.progress.currentLesson = lessonId;
     this.state.progress.timeSpent += timeSpent;
     
-    if (!this.state.progress.completedLessons.includes(lessonId)) {
+    if (this.canRecordProgress() && !this.state.progress.completedLessons.includes(lessonId)) {
       this.state.progress.completedLessons.push(lessonId);
     }
   }
 
   /**
    * Mark AU as completed
+   * Throws CMI5LaunchModeError in Browse and Review mode
    */
   markCompleted(): void {
+    this.assertCanRecordProgress('mark the AU completed');
     this.state.completed = true;
     this.state.completedAt = new Date().toISOString();
   }
@@ -172,6 +213,8 @@ export class CMI5StateManager {
 
   /**
    * Save state to xAPI state API or local LRS
+   * Throws PreconditionFailedError if the stored state was changed since it was
+   * loaded or last saved (e.g. from another tab); call initialize() to reload it
    */
   async saveState(): Promise<void> {
     try {
@@ -181,11 +224,21 @@ export class CMI5StateManager {
         objectiveStates: Object.fromEntries(this.state.objectiveStates),
       };
 
-      await this.xapiClient.saveState(
+      // Only overwrite the state this manager last saw
+      const precondition: DocumentWriteOptions = {};
+      if (this.etag === null) {
+        precondition.ifNoneMatch = '*';
+      } else if (this.etag !== undefined) {
+        precondition.ifMatch = this.etag;
+      }
+
+      this.etag = await this.xapiClient.saveState(
         this.activityId,
         this.stateId,
         this.actor,
-        stateToSave
+        stateToSave,
+        this.launchParams.registration,
+        precondition
       );
     } catch (error) {
       console.error('Failed to save CMI5 state:', error);
@@ -217,4 +270,10 @@ export class CMI5StateManager {
 
     return masteries.reduce((sum, m) => sum + m, 0) / masteries.length;
   }
+
+  private assertCanRecordProgress(action: string): void {
+    if (!this.canRecordProgress()) {
+      throw new CMI5LaunchModeError(`Cannot ${action} in ${this.launchMode} mode`, this.launchMode);
+    }
+  }
 }
@@ -0,0 +1,393 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import type { Statement } from '@xapi/xapi';
+import { LRSStore } from 'cmi5-lrs';
+import { CloudSyncManager } from './sync-manager';
+import type { CloudSyncOptions } from './sync-manager';
+
+const ENDPOINT = 'https://example.com/lrs';
+const AGENT = { mbox: 'mailto:test@example.com' };
+const ACTIVITY_ID = 'https://example.com/lesson/1';
+
+function statement(n: number): Statement {
+  return {
+    id: `0b7d5e2a-4c1f-4e9a-8b3d-6f2a1c5e7d${String(n).padStart(2, '0')}`,
+    actor: AGENT,
+    verb: { id: 'http://adlnet.gov/expapi/verbs/experienced' },
+    object: { id: `https://example.com/lesson/${n}` },
+  };
+}
+
+/**
+ * Minimal remote LRS: accepts statements, serves queued statement pages and
+ * keeps state documents of a single activity and agent by stateId
+ */
+function createRemote() {
+  const pages: Array<{ statements: Statement[]; more?: string }> = [];
+  const state = new Map<
+    string,
+    { content: unknown; version: number; changed: Date; lastModified: Date }
+  >();
+
+  async function handle(input: URL | string, init: RequestInit = {}): Promise<Response> {
+    const url = new URL(input);
+    const method = init.method ?? 'GET';
+
+    if (url.pathname.endsWith('/statements')) {
+      if (method === 'POST') return new Response('[]', { status: 200 });
+      return Response.json(pages.shift() ?? { statements: [] });
+    }
+
+    const stateId = url.searchParams.get('stateId');
+    if (!stateId) {
+      const since = url.searchParams.get('since');
+      return Response.json(
+        [...state].filter(([, doc]) => !since || doc.changed > new Date(since)).map(([id]) => id)
+      );
+    }
+
+    const doc = state.get(stateId);
+    if (method === 'PUT') {
+      const headers = new Headers(init.headers);
+      const ifMatch = headers.get('If-Match');
+      if ((ifMatch && ifMatch !== `"${doc?.version}"`) || (headers.has('If-None-Match') && doc)) {
+        return new Response('', { status: 412 });
+      }
+      setState(stateId, JSON.parse(String(init.body)));
+      return new Response(null, { status: 204 });
+    }
+    if (!doc) return new Response('', { status: 404 });
+    return Response.json(doc.content, {
+      headers: { ETag: `"${doc.version}"`, 'Last-Modified': doc.lastModified.toUTCString() },
+    });
+  }
+
+  /** Write a document, optionally with a Last-Modified time other than now */
+  function setState(stateId: string, content: unknown, lastModified = new Date()): void {
+    const version = (state.get(stateId)?.version ?? 0) + 1;
+    state.set(stateId, { content, version, changed: new Date(), lastModified });
+  }
+
+  return { pages, state, handle, setState };
+}
+
+describe('CloudSyncManager (e2e)', () => {
+  let lrs: LRSStore;
+  let remote: ReturnType<typeof createRemote>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(async () => {
+    lrs = new LRSStore({ dbName: 'test-sync-lrs.db', inMemory: true });
+    await lrs.init();
+
+    remote = createRemote();
+    fetchMock = vi.fn(remote.handle);
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function createSyncManager(
+    batchSize = 2,
+    options: Partial<CloudSyncOptions> = {}
+  ): CloudSyncManager {
+    return new CloudSyncManager(lrs, {
+      endpoint: ENDPOINT,
+      auth: 'Bearer token',
+      enabled: true,
+      syncInterval: 0,
+      batchSize,
+      ...options,
+    });
+  }
+
+  function sentIds(): string[][] {
+    return fetchMock.mock.calls
+      .filter(([url, init]) => init?.method === 'POST' && String(url).endsWith('/statements'))
+      .map(([, init]) =>
+        (JSON.parse(String(init.body)) as Statement[]).map((s) => s.id!.slice(-2))
+      );
+  }
+
+  function requestedUrls(method: string): URL[] {
+    return fetchMock.mock.calls
+      .filter(([, init]) => (init?.method ?? 'GET') === method)
+      .map(([url]) => new URL(url));
+  }
+
+  it('sends unsynced statements oldest first in bounded batches', async () => {
+    await lrs.storeStatements([statement(1), statement(2), statement(3)]);
+    const syncManager = createSyncManager();
+
+    expect((await syncManager.refreshStatus()).pendingCount).toBe(3);
+    await syncManager.sync();
+
+    expect(sentIds()).toEqual([['01', '02'], ['03']]);
+    expect(syncManager.getStatus().pendingCount).toBe(0);
+    expect(await lrs.getStatementSyncStatus(statement(1).id!)).toEqual({ status: 'synced' });
+
+    await syncManager.sync();
+    expect(sentIds()).toHaveLength(2);
+  });
+
+  it('keeps statements the remote did not acknowledge and retries them', async () => {
+    await lrs.storeStatements([statement(1), statement(2), statement(3)]);
+    fetchMock
+      .mockImplementationOnce(remote.handle)
+      .mockResolvedValueOnce(new Response('', { status: 503, statusText: 'Unavailable' }));
+    const syncManager = createSyncManager(2, { retry: { maxAttempts: 1 } });
+
+    await expect(syncManager.sync()).rejects.toThrow('Cloud sync failed: 503');
+
+    const status = syncManager.getStatus();
+    expect(status.pendingCount).toBe(1);
+    expect(status.lastError?.message).toContain('503');
+    expect(await lrs.getStatementSyncStatus(statement(3).id!)).toEqual({
+      status: 'failed',
+      error: 'Cloud sync failed: 503 Unavailable',
+    });
+
+    await syncManager.sync();
+    expect(sentIds()).toEqual([['01', '02'], ['03'], ['03']]);
+    expect(syncManager.getStatus().pendingCount).toBe(0);
+  });
+
+  it('retries rate limited and failed requests within a sync', async () => {
+    await lrs.storeStatement(statement(1));
+    fetchMock
+      .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '0' } }))
+      .mockRejectedValueOnce(new TypeError('fetch failed'));
+
+    await createSyncManager(2, { retry: { baseDelay: 0 } }).sync();
+
+    expect(sentIds()).toEqual([['01'], ['01'], ['01']]);
+    expect(await lrs.countUnsyncedStatements()).toBe(0);
+  });
+
+  it('pauses after repeated failed syncs and does not retry permanent errors', async () => {
+    await lrs.storeStatement(statement(1));
+    fetchMock.mockResolvedValue(new Response('', { status: 503 }));
+    const syncManager = createSyncManager(2, {
+      retry: { maxAttempts: 1 },
+      circuitBreaker: { failureThreshold: 2, resetTimeout: 60_000 },
+    });
+
+    await expect(syncManager.sync()).rejects.toThrow('503');
+    await expect(syncManager.sync()).rejects.toThrow('503');
+    expect(syncManager.getStatus().pausedUntil).toBeDefined();
+
+    await syncManager.sync();
+    expect(sentIds()).toHaveLength(2);
+
+    const unauthorized = createSyncManager(2, { retry: { baseDelay: 0 } });
+    fetchMock.mockResolvedValue(new Response('', { status: 401, statusText: 'Unauthorized' }));
+    await expect(unauthorized.sync()).rejects.toMatchObject({ status: 401, retryable: false });
+    expect(sentIds()).toHaveLength(3);
+    expect(await lrs.getStatementSyncStatus(statement(1).id!)).toMatchObject({ status: 'failed' });
+  });
+
+  it('sets rejected statements aside and sends the others', async () => {
+    await lrs.storeStatements([statement(1), statement(2), statement(3), statement(4)]);
+    fetchMock.mockImplementation(async (url: string, init: RequestInit = {}) => {
+      const rejected = init.method === 'POST' && String(init.body).includes(statement(2).id!);
+      return rejected
+        ? new Response('', { status: 400, statusText: 'Bad Request' })
+        : remote.handle(url, init);
+    });
+
+    const syncManager = createSyncManager(4);
+    await syncManager.sync();
+
+    expect(sentIds()).toEqual([
+      ['01', '02', '03', '04'],
+      ['01', '02'],
+      ['01'],
+      ['02'],
+      ['03', '04'],
+    ]);
+    expect(await lrs.getStatementSyncStatus(statement(2).id!)).toEqual({
+      status: 'rejected',
+      error: 'Cloud sync failed: 400 Bad Request',
+    });
+    expect(await lrs.getStatementSyncStatus(statement(4).id!)).toEqual({ status: 'synced' });
+    expect(syncManager.getStatus()).toMatchObject({ pendingCount: 0, rejectedCount: 1 });
+    expect(syncManager.getStatus().lastError).toBeUndefined();
+  });
+
+  it('returns statements left in flight to the backlog on start', async () => {
+    await lrs.storeStatement(statement(1));
+    await lrs.markStatementsInFlight([statement(1).id!]);
+
+    await createSyncManager().start();
+
+    expect(sentIds()).toEqual([['01']]);
+  });
+
+  describe('pull', () => {
+    it('stores remote statements across pages without sending them back', async () => {
+      const remoteStatement = (n: number) => ({
+        ...statement(n),
+        stored: `2026-01-01T00:00:0${n}.000Z`,
+      });
+      remote.pages.push(
+        { statements: [remoteStatement(1), remoteStatement(2)], more: '/lrs/statements?page=2' },
+        { statements: [remoteStatement(3)] }
+      );
+      const syncManager = createSyncManager();
+
+      await syncManager.sync();
+
+      const pulls = requestedUrls('GET').filter((url) => url.pathname.endsWith('/statements'));
+      expect(pulls.map((url) => url.search)).toEqual(['?ascending=true&limit=2', '?page=2']);
+      expect(await lrs.getStatementSyncStatus(statement(3).id!)).toEqual({ status: 'synced' });
+      expect(await lrs.countUnsyncedStatements()).toBe(0);
+
+      await syncManager.sync();
+
+      expect(sentIds()).toEqual([]);
+      const resumed = requestedUrls('GET').filter((url) => url.pathname.endsWith('/statements'));
+      expect(resumed.at(-1)?.searchParams.get('since')).toBe('2026-01-01T00:00:03.000Z');
+    });
+
+    it('checks the state of pulled statements again after a failed state sync', async () => {
+      const pulled = { ...statement(1), stored: '2026-01-01T00:00:01.000Z' };
+      remote.pages.push({ statements: [pulled] }, { statements: [pulled] });
+      remote.setState('progress', { page: 3 });
+      fetchMock
+        .mockImplementationOnce(remote.handle)
+        .mockImplementationOnce(async () => new Response('', { status: 400 }));
+      const syncManager = createSyncManager(2, { actor: AGENT });
+
+      await expect(syncManager.sync()).rejects.toThrow('400');
+      await syncManager.sync();
+
+      const pulls = requestedUrls('GET').filter((url) => url.pathname.endsWith('/statements'));
+      expect(pulls.map((url) => url.searchParams.get('since'))).toEqual([null, null]);
+      expect(
+        (await lrs.getCMI5StateDocument(null, ACTIVITY_ID, AGENT, 'progress'))?.content
+      ).toEqual({ page: 3 });
+    });
+
+    it('checks state once per activity of the learner, whatever the actor name', async () => {
+      const about = (n: number, actor: Statement['actor']) => ({
+        ...statement(n),
+        actor,
+        object: { id: ACTIVITY_ID },
+      });
+      remote.pages.push({
+        statements: [
+          about(1, AGENT),
+          about(2, { ...AGENT, name: 'Test' }),
+          about(3, { mbox: 'mailto:other@example.com' }),
+          about(4, { objectType: 'Group', member: [{ mbox: 'mailto:member@example.com' }] }),
+        ],
+      });
+
+      await createSyncManager(10, { actor: AGENT }).sync();
+
+      const stateLookups = requestedUrls('GET').filter(
+        (url) => url.pathname.endsWith('/activities/state') && !url.searchParams.has('stateId')
+      );
+      expect(stateLookups.map((url) => url.searchParams.get('agent'))).toEqual([
+        JSON.stringify(AGENT),
+      ]);
+    });
+  });
+
+  describe('state', () => {
+    const FSRS_STATE_ID = 'fsrs:kubit-1';
+
+    async function getLocalState(stateId: string) {
+      return (await lrs.getCMI5StateDocument(null, ACTIVITY_ID, AGENT, stateId))?.content;
+    }
+
+    function createStateSyncManager(options: Partial<CloudSyncOptions> = {}): CloudSyncManager {
+      return createSyncManager(2, {
+        stateScopes: [{ activityId: ACTIVITY_ID, agent: AGENT }],
+        ...options,
+      });
+    }
+
+    it('copies documents changed on one side to the other', async () => {
+      await lrs.saveCMI5State(null, ACTIVITY_ID, AGENT, 'local', { completed: true } as never);
+      remote.setState(FSRS_STATE_ID, { stability: 3.2 });
+
+      await createStateSyncManager().sync();
+
+      expect(remote.state.get('local')?.content).toEqual({ completed: true });
+      expect(await getLocalState(FSRS_STATE_ID)).toEqual({ stability: 3.2 });
+    });
+
+    it('leaves remote documents that are not JSON alone', async () => {
+      remote.setState('notes', 'plain text');
+      remote.setState(FSRS_STATE_ID, { stability: 3.2 });
+      fetchMock.mockImplementation(async (input: string, init?: RequestInit) =>
+        new URL(input).searchParams.get('stateId') === 'notes'
+          ? new Response('plain text', { headers: { 'Content-Type': 'text/plain' } })
+          : remote.handle(input, init)
+      );
+
+      await createStateSyncManager().sync();
+
+      expect(await getLocalState('notes')).toBeUndefined();
+      expect(await getLocalState(FSRS_STATE_ID)).toEqual({ stability: 3.2 });
+      expect(requestedUrls('PUT')).toEqual([]);
+    });
+
+    describe('conflicts', () => {
+      async function syncConflict(options: Partial<CloudSyncOptions>, remoteUpdated: Date) {
+        await lrs.saveCMI5State(null, ACTIVITY_ID, AGENT, FSRS_STATE_ID, { due: 1 } as never);
+        const syncManager = createStateSyncManager(options);
+        await syncManager.sync();
+
+        await lrs.saveCMI5State(null, ACTIVITY_ID, AGENT, FSRS_STATE_ID, {
+          due: 2,
+          local: true,
+        } as never);
+        remote.setState(FSRS_STATE_ID, { due: 3, remote: true }, remoteUpdated);
+        await syncManager.sync();
+
+        const local = await getLocalState(FSRS_STATE_ID);
+        expect(remote.state.get(FSRS_STATE_ID)?.content).toEqual(local);
+        return local;
+      }
+
+      it('keeps the last written document by default', async () => {
+        expect(await syncConflict({}, new Date(Date.now() + 60_000))).toEqual({
+          due: 3,
+          remote: true,
+        });
+      });
+
+      it('keeps the local document when it was written last', async () => {
+        expect(await syncConflict({}, new Date(Date.now() - 60_000))).toEqual({
+          due: 2,
+          local: true,
+        });
+      });
+
+      it('keeps the remote document with remote-wins', async () => {
+        expect(
+          await syncConflict({ conflictPolicy: 'remote-wins' }, new Date(Date.now() - 60_000))
+        ).toEqual({ due: 3, remote: true });
+      });
+
+      it('keeps the document returned by a custom policy', async () => {
+        const conflictPolicy = vi.fn(({ local, remote }) => ({
+          ...(remote.content as object),
+          ...(local.content as object),
+        }));
+
+        expect(await syncConflict({ conflictPolicy }, new Date())).toEqual({
+          due: 2,
+          local: true,
+          remote: true,
+        });
+        expect(conflictPolicy).toHaveBeenCalledWith(
+          expect.objectContaining({ activityId: ACTIVITY_ID, stateId: FSRS_STATE_ID })
+        );
+      });
+    });
+  });
+});
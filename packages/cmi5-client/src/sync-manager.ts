@@ -8,9 +8,56 @@
  * Cloud sync is optional and can be enabled/disabled by the user.
  */
 
-import type { Statement } from '@xapi/xapi';
-import type { CMI5State } from 'cmi5-core';
-import type { LRSStore } from 'cmi5-lrs';
+import type { Agent, Statement } from '@xapi/xapi';
+import type { LRSStore, StoredDocument } from 'cmi5-lrs';
+import { LRSError, buildMultipartStatements, getAgentIFIKey } from 'cmi5-lrs';
+import {
+  CircuitBreaker,
+  RemoteSendError,
+  isRetryableStatus,
+  isStatementRejection,
+  toResponseError,
+  withRetry,
+} from './retry';
+import type { CircuitBreakerOptions, RetryOptions } from './retry';
+import { loadAttachmentContent } from './outbox-flusher';
+
+/** Sync metadata key of the `stored` time of the last pulled statement */
+const STATEMENTS_CURSOR = 'statements.since';
+/** Sync metadata key of the time the last state sync started */
+const STATE_CURSOR = 'state.since';
+
+/**
+ * Activity, agent and registration under which state documents are kept
+ */
+export interface StateScope {
+  activityId: string;
+  agent: Agent;
+  /** Registration (omit or null for documents without one) */
+  registration?: string | null;
+}
+
+/**
+ * A state document changed both locally and remotely since the last sync
+ */
+export interface StateConflict extends StateScope {
+  stateId: string;
+  /** Local document */
+  local: StoredDocument;
+  /** Remote document; `updated` is its Last-Modified time, if the remote LRS sent one */
+  remote: { content: unknown; etag?: string; updated?: string };
+}
+
+/**
+ * How to resolve state documents changed on both sides
+ * - 'last-writer-wins': keep the document updated last (default)
+ * - 'remote-wins': always keep the remote document
+ * - a callback returning the document to keep on both sides
+ */
+export type StateConflictPolicy =
+  | 'last-writer-wins'
+  | 'remote-wins'
+  | ((conflict: StateConflict) => unknown | Promise<unknown>);
 
 /**
  * Cloud Sync Options
@@ -26,6 +73,26 @@ export interface CloudSyncOptions {
   syncInterval?: number;
   /** Whether to sync on every statement (default: false - batch sync) */
   syncImmediately?: boolean;
+  /** Maximum number of statements per request (default: 50) */
+  batchSize?: number;
+  /** Whether to pull statements and state from the remote LRS (default: true) */
+  pull?: boolean;
+  /** Resolution of state documents changed on both sides (default: 'last-writer-wins') */
+  conflictPolicy?: StateConflictPolicy;
+  /**
+   * Learner whose remote state is checked for the activities of pulled statements
+   * Pulled statements of other actors add no scopes, unless their agent is in `stateScopes`
+   */
+  actor?: Agent;
+  /**
+   * Additional scopes to check for remote state changes
+   * Scopes of local state changes are always checked
+   */
+  stateScopes?: StateScope[];
+  /** Backoff for retryable failures (429, 5xx, network) within a sync */
+  retry?: RetryOptions;
+  /** When to pause sync after repeated failed syncs */
+  circuitBreaker?: CircuitBreakerOptions;
 }
 
 /**
@@ -36,10 +103,14 @@ export interface SyncStatus {
   syncing: boolean;
   /** Last successful sync timestamp */
   lastSyncedAt?: string;
-  /** Last sync error */
+  /** Last sync error (a RemoteSendError for failed requests) */
   lastError?: Error;
+  /** Sync is paused after repeated failures until this time (ISO 8601) */
+  pausedUntil?: string;
   /** Number of pending statements to sync */
   pendingCount: number;
+  /** Number of statements the remote LRS rejected and sync set aside */
+  rejectedCount: number;
   /** Whether sync is enabled */
   enabled: boolean;
 }
@@ -65,14 +136,17 @@ export interface SyncStatus {
  */
 export class CloudSyncManager {
   private localLRS: LRSStore;
-  private options: Required<Omit<CloudSyncOptions, 'endpoint' | 'auth'>> & Pick<CloudSyncOptions, 'endpoint' | 'auth'>;
+  private options: Required<Omit<CloudSyncOptions, 'endpoint' | 'auth' | 'actor'>> &
+    Pick<CloudSyncOptions, 'endpoint' | 'auth' | 'actor'>;
   private syncIntervalId: ReturnType<typeof setInterval> | null = null;
   private status: SyncStatus = {
     syncing: false,
     pendingCount: 0,
+    rejectedCount: 0,
     enabled: false,
   };
   private abortController: AbortController | null = null;
+  private circuitBreaker: CircuitBreaker;
 
   constructor(localLRS: LRSStore, options: CloudSyncOptions) {
     this.localLRS = localLRS;
@@ -80,10 +154,18 @@ export class CloudSyncManager {
       enabled: options.enabled ?? false, // Default: offline-only
       syncInterval: options.syncInterval ?? 30000, // 30 seconds
       syncImmediately: options.syncImmediately ?? false,
+      batchSize: options.batchSize ?? 50,
+      pull: options.pull ?? true,
+      conflictPolicy: options.conflictPolicy ?? 'last-writer-wins',
+      stateScopes: options.stateScopes ?? [],
+      retry: options.retry ?? {},
+      circuitBreaker: options.circuitBreaker ?? {},
       endpoint: options.endpoint,
       auth: options.auth,
+      actor: options.actor,
     };
     this.status.enabled = this.options.enabled;
+    this.circuitBreaker = new CircuitBreaker(this.options.circuitBreaker);
   }
 
   /**
@@ -94,6 +176,9 @@ export class CloudSyncManager {
       return; // Offline-only mode
     }
 
+    // Statements left in flight by a previous session were never acknowledged
+    await this.localLRS.resetInFlightStatements();
+
     // Initial sync
     await this.sync();
 
@@ -144,42 +229,55 @@ export class CloudSyncManager {
   }
 
   /**
-   * Sync pending statements to cloud
+   * Sync with the cloud in both directions
+   * Pending statements are sent oldest first in batches of `batchSize` and only
+   * marked synced once the remote LRS acknowledges them. A failed batch is marked
+   * failed with its error and retried by the next sync; statements the remote LRS
+   * rejects (e.g. 400 or 409) are marked rejected and set aside.
+   * Then statements stored remotely since the last pull are stored locally, and
+   * state documents changed on either side are copied to the other. The pull
+   * cursor only advances once state sync succeeded, so the scopes of pulled
+   * statements are checked again after a failure.
+   * Failed requests are retried with backoff; after repeated failed syncs, sync
+   * is paused (see `pausedUntil` in the status) and calls return without sending.
    */
   async sync(): Promise<void> {
     if (!this.options.enabled || this.status.syncing) {
       return;
     }
+    if (this.circuitBreaker.getState() === 'open') {
+      return;
+    }
 
     this.status.syncing = true;
     this.abortController = new AbortController();
 
     try {
-      // Get pending statements from local LRS
-      // Note: This assumes LRS has a way to mark statements as synced
-      // For now, we'll sync all statements (in a real implementation,
-      // you'd track which statements have been synced)
-      const statements = await this.getPendingStatements();
-
-      if (statements.length === 0) {
-        this.status.pendingCount = 0;
-        this.status.syncing = false;
-        return;
-      }
+      for (;;) {
+        const statements = await this.localLRS.getUnsyncedStatements(this.options.batchSize);
+        await this.updateCounts();
+        if (statements.length === 0) break;
 
-      this.status.pendingCount = statements.length;
-
-      // Send to remote endpoint
-      await this.sendToCloud(statements);
+        await this.sendBatch(statements);
+      }
 
-      // Mark as synced (if LRS supports it)
-      await this.markAsSynced(statements);
+      if (this.options.pull) {
+        const { statements: pulled, cursor } = await this.pullStatements();
+        await this.syncState(pulled);
+        if (cursor) await this.localLRS.setSyncMetadata(STATEMENTS_CURSOR, cursor);
+      }
 
+      this.circuitBreaker.recordSuccess();
       this.status.lastSyncedAt = new Date().toISOString();
-      this.status.pendingCount = 0;
       this.status.lastError = undefined;
+      this.status.pausedUntil = undefined;
     } catch (error) {
+      if (error instanceof RemoteSendError) {
+        this.circuitBreaker.recordFailure(error);
+        this.status.pausedUntil = this.circuitBreaker.getOpenUntil()?.toISOString();
+      }
       this.status.lastError = error instanceof Error ? error : new Error(String(error));
+      await this.updateCounts();
       throw error;
     } finally {
       this.status.syncing = false;
@@ -202,41 +300,366 @@ export class CloudSyncManager {
   }
 
   /**
-   * Get pending statements from local LRS
-   * In a real implementation, this would query for unsynced statements
+   * Refresh and return the sync status, with the current backlog from the local LRS
    */
-  private async getPendingStatements(): Promise<Statement[]> {
-    // TODO: Implement query for unsynced statements
-    // For now, return empty array
-    // In real implementation, you'd query LRS for statements where synced = false
-    return [];
+  async refreshStatus(): Promise<SyncStatus> {
+    await this.updateCounts();
+    return this.getStatus();
+  }
+
+  private async updateCounts(): Promise<void> {
+    this.status.pendingCount = await this.localLRS.countUnsyncedStatements();
+    this.status.rejectedCount = await this.localLRS.countRejectedStatements();
   }
 
   /**
-   * Send statements to cloud endpoint
+   * Store statements the remote LRS received since the last pull
+   * Pages are followed through `more` links. Statements pulled again after an
+   * interrupted sync are already stored and ignored.
+   *
+   * @returns The pulled statements and the `stored` time to pull from next
    */
-  private async sendToCloud(statements: Statement[]): Promise<void> {
-    const response = await fetch(`${this.options.endpoint}/statements`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': this.options.auth,
-        'X-Experience-API-Version': '1.0.3',
-      },
-      body: JSON.stringify(statements),
-      signal: this.abortController?.signal,
+  private async pullStatements(): Promise<{ statements: Statement[]; cursor?: string }> {
+    const since = await this.localLRS.getSyncMetadata(STATEMENTS_CURSOR);
+    const params = new URLSearchParams({
+      ascending: 'true',
+      limit: String(this.options.batchSize),
     });
+    if (since) params.set('since', since);
+
+    const pulled: Statement[] = [];
+    let cursor: string | undefined;
+    let url: URL | null = new URL(`${this.options.endpoint}/statements?${params}`);
+    while (url) {
+      const response = await this.request(url, { method: 'GET' });
+      if (!response.ok) {
+        throw toResponseError(response, 'Cloud pull failed');
+      }
+      const result = (await response.json()) as { statements?: Statement[]; more?: string };
+      const statements = result.statements ?? [];
+      if (statements.length > 0) {
+        await this.storePulledStatements(statements);
+        pulled.push(...statements);
+        cursor = statements[statements.length - 1]!.stored ?? cursor;
+      }
+      url = result.more ? new URL(result.more, this.options.endpoint) : null;
+    }
+    return { statements: pulled, cursor };
+  }
+
+  /**
+   * Store pulled statements as synced so they are not sent back
+   * If the page is rejected as a whole, statements are stored one by one and
+   * those the local LRS rejects are skipped
+   */
+  private async storePulledStatements(statements: Statement[]): Promise<void> {
+    try {
+      await this.localLRS.storeStatements(statements, [], { synced: true });
+    } catch (error) {
+      if (!(error instanceof LRSError)) throw error;
+      for (const statement of statements) {
+        try {
+          await this.localLRS.storeStatement(statement, [], { synced: true });
+        } catch (error) {
+          if (!(error instanceof LRSError)) throw error;
+          console.warn(`Skipped pulled statement ${statement.id}:`, error.message);
+        }
+      }
+    }
+  }
+
+  /**
+   * Copy state documents changed since the last state sync to the other side
+   * Remote changes are looked up for the scopes of local changes, the
+   * `stateScopes` option, and pulled statements of `actor` or a `stateScopes` agent
+   */
+  private async syncState(pulled: Statement[]): Promise<void> {
+    const startedAt = new Date().toISOString();
+    const since = (await this.localLRS.getSyncMetadata(STATE_CURSOR)) ?? undefined;
+
+    const scopes = new Map<string, StateScope & { local: Set<string> }>();
+    const addScope = (scope: StateScope, stateId?: string) => {
+      // Agents are matched by IFI, whatever their name; those without one have no state
+      const agent = getAgentIFIKey(scope.agent);
+      if (!agent) return;
+      const key = JSON.stringify([scope.registration ?? null, scope.activityId, agent]);
+      const entry = scopes.get(key) ?? { ...scope, local: new Set<string>() };
+      if (stateId) entry.local.add(stateId);
+      scopes.set(key, entry);
+    };
 
+    for (const change of await this.localLRS.listCMI5StateChanges(since)) {
+      addScope(change, change.stateId);
+    }
+    for (const scope of this.options.stateScopes) addScope(scope);
+
+    const learners = new Set(
+      [this.options.actor, ...this.options.stateScopes.map((scope) => scope.agent)]
+        .map((agent) => getAgentIFIKey(agent))
+        .filter(Boolean)
+    );
+    for (const statement of pulled) {
+      if (statement.object.objectType && statement.object.objectType !== 'Activity') continue;
+      if (!learners.has(getAgentIFIKey(statement.actor as Agent))) continue;
+      addScope({
+        activityId: (statement.object as { id: string }).id,
+        agent: statement.actor as Agent,
+        registration: statement.context?.registration,
+      });
+    }
+
+    for (const scope of scopes.values()) {
+      const remote = await this.getRemoteStateIds(scope, since);
+      for (const stateId of new Set([...scope.local, ...remote])) {
+        await this.reconcileState(scope, stateId, scope.local.has(stateId), remote.has(stateId));
+      }
+    }
+
+    await this.localLRS.setSyncMetadata(STATE_CURSOR, startedAt);
+  }
+
+  /**
+   * Bring one state document in line on both sides
+   */
+  private async reconcileState(
+    scope: StateScope,
+    stateId: string,
+    localChanged: boolean,
+    remoteChanged: boolean
+  ): Promise<void> {
+    const registration = scope.registration ?? null;
+    const local = await this.localLRS.getCMI5StateDocument(
+      registration,
+      scope.activityId,
+      scope.agent,
+      stateId
+    );
+    const remote = await this.getRemoteState(scope, stateId);
+    if (remote === undefined) {
+      console.warn(`Skipped state document ${stateId}: the remote document is not JSON`);
+      return;
+    }
+
+    if (!remote) {
+      if (local) await this.putRemoteState(scope, stateId, local.content, { ifNoneMatch: '*' });
+      return;
+    }
+    if (!local) {
+      await this.localLRS.saveCMI5State(
+        registration,
+        scope.activityId,
+        scope.agent,
+        stateId,
+        remote.content as never
+      );
+      return;
+    }
+    if (JSON.stringify(local.content) === JSON.stringify(remote.content)) return;
+
+    const content =
+      localChanged && remoteChanged
+        ? await this.resolveConflict({ ...scope, stateId, local, remote })
+        : remoteChanged
+          ? remote.content
+          : local.content;
+
+    if (JSON.stringify(content) !== JSON.stringify(local.content)) {
+      await this.localLRS.saveCMI5State(
+        registration,
+        scope.activityId,
+        scope.agent,
+        stateId,
+        content as never,
+        { ifMatch: local.etag }
+      );
+    }
+    if (JSON.stringify(content) !== JSON.stringify(remote.content)) {
+      await this.putRemoteState(
+        scope,
+        stateId,
+        content,
+        remote.etag ? { ifMatch: remote.etag } : {}
+      );
+    }
+  }
+
+  /**
+   * Apply the conflict policy to a document changed on both sides
+   */
+  private async resolveConflict(conflict: StateConflict): Promise<unknown> {
+    const policy = this.options.conflictPolicy;
+    if (typeof policy === 'function') return policy(conflict);
+    if (policy === 'remote-wins') return conflict.remote.content;
+
+    // Last writer wins; a remote document without Last-Modified counts as older
+    const remoteUpdated = conflict.remote.updated ? Date.parse(conflict.remote.updated) : NaN;
+    return remoteUpdated > Date.parse(conflict.local.updated)
+      ? conflict.remote.content
+      : conflict.local.content;
+  }
+
+  /**
+   * Get the stateIds the remote LRS has for a scope, changed since a time
+   */
+  private async getRemoteStateIds(scope: StateScope, since?: string): Promise<Set<string>> {
+    const params = this.stateParams(scope);
+    if (since) params.set('since', since);
+
+    const response = await this.request(
+      new URL(`${this.options.endpoint}/activities/state?${params}`),
+      { method: 'GET' }
+    );
     if (!response.ok) {
-      throw new Error(`Cloud sync failed: ${response.status} ${response.statusText}`);
+      throw toResponseError(response, 'Cloud state sync failed');
     }
+    return new Set((await response.json()) as string[]);
   }
 
   /**
-   * Mark statements as synced
+   * Get a remote state document
+   * Documents of other content types are left alone, as local state only holds JSON
+   *
+   * @returns The document, null if it does not exist, or undefined if it is not JSON
    */
-  private async markAsSynced(statements: Statement[]): Promise<void> {
-    // TODO: Implement marking statements as synced in LRS
-    // This would update a `synced` flag or move statements to a synced table
+  private async getRemoteState(
+    scope: StateScope,
+    stateId: string
+  ): Promise<StateConflict['remote'] | null | undefined> {
+    const params = this.stateParams(scope);
+    params.set('stateId', stateId);
+
+    const response = await this.request(
+      new URL(`${this.options.endpoint}/activities/state?${params}`),
+      { method: 'GET' }
+    );
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw toResponseError(response, 'Cloud state sync failed');
+    }
+    if (!/[/+]json\b/i.test(response.headers.get('Content-Type') ?? '')) return undefined;
+
+    const lastModified = response.headers.get('Last-Modified');
+    return {
+      content: await response.json(),
+      etag: response.headers.get('ETag') ?? undefined,
+      updated: lastModified ? new Date(lastModified).toISOString() : undefined,
+    };
+  }
+
+  /**
+   * Write a remote state document
+   */
+  private async putRemoteState(
+    scope: StateScope,
+    stateId: string,
+    content: unknown,
+    preconditions: { ifMatch?: string; ifNoneMatch?: string }
+  ): Promise<void> {
+    const params = this.stateParams(scope);
+    params.set('stateId', stateId);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (preconditions.ifMatch) headers['If-Match'] = preconditions.ifMatch;
+    if (preconditions.ifNoneMatch) headers['If-None-Match'] = preconditions.ifNoneMatch;
+
+    const response = await this.request(
+      new URL(`${this.options.endpoint}/activities/state?${params}`),
+      { method: 'PUT', headers, body: JSON.stringify(content) }
+    );
+    if (!response.ok) {
+      throw toResponseError(response, 'Cloud state sync failed');
+    }
+  }
+
+  private stateParams(scope: StateScope): URLSearchParams {
+    const params = new URLSearchParams({
+      activityId: scope.activityId,
+      agent: JSON.stringify(scope.agent),
+    });
+    if (scope.registration) params.set('registration', scope.registration);
+    return params;
+  }
+
+  /**
+   * Send an authorized xAPI request to the cloud endpoint
+   * Network failures and retryable statuses are retried with backoff; other
+   * responses are returned for the caller to check
+   */
+  private request(url: URL, init: RequestInit): Promise<Response> {
+    const signal = this.abortController?.signal;
+    return withRetry(
+      async () => {
+        const response = await fetch(url, {
+          ...init,
+          headers: {
+            ...init.headers,
+            'Authorization': this.options.auth,
+            'X-Experience-API-Version': '1.0.3',
+          },
+          signal,
+        });
+        if (isRetryableStatus(response.status)) {
+          throw toResponseError(response, 'Cloud sync failed');
+        }
+        return response;
+      },
+      this.options.retry,
+      signal
+    );
+  }
+
+  /**
+   * Send a batch of statements and mark them synced
+   * A rejected batch is split in halves until the rejected statements are found,
+   * so the others still reach the remote LRS in order
+   */
+  private async sendBatch(statements: Statement[]): Promise<void> {
+    const ids = statements.map((statement) => statement.id!);
+    await this.localLRS.markStatementsInFlight(ids);
+
+    try {
+      await this.sendToCloud(statements);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!isStatementRejection(error)) {
+        await this.localLRS.markStatementsFailed(ids, message);
+        throw error;
+      }
+      if (statements.length === 1) {
+        await this.localLRS.markStatementsRejected(ids, message);
+        return;
+      }
+
+      // Halves not reached yet are left failed, to be retried
+      await this.localLRS.markStatementsFailed(ids, message);
+      const middle = Math.ceil(statements.length / 2);
+      await this.sendBatch(statements.slice(0, middle));
+      await this.sendBatch(statements.slice(middle));
+      return;
+    }
+
+    await this.localLRS.markStatementsSynced(ids);
+  }
+
+  /**
+   * Send statements to cloud endpoint
+   * Statements with attachment content are sent as multipart/mixed
+   */
+  private async sendToCloud(statements: Statement[]): Promise<void> {
+    const attachments = await loadAttachmentContent(this.localLRS, statements);
+    const { body, contentType } =
+      attachments.length > 0
+        ? buildMultipartStatements(statements, attachments)
+        : { body: JSON.stringify(statements), contentType: 'application/json' };
+
+    const response = await this.request(new URL(`${this.options.endpoint}/statements`), {
+      method: 'POST',
+      headers: { 'Content-Type': contentType },
+      body: body as BodyInit,
+    });
+
+    if (!response.ok) {
+      throw toResponseError(response, 'Cloud sync failed');
+    }
   }
 }
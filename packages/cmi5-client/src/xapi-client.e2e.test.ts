@@ -1,8 +1,15 @@
-import { describe, expect, it, beforeEach } from 'vitest';
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import XAPI from '@xapi/xapi';
 import { XAPIClient } from './xapi-client';
+import { RemoteSendError } from './retry';
 import type { CMI5LaunchParameters } from 'cmi5-core';
 import type { Statement } from '@xapi/xapi';
-import { LRSStore } from 'cmi5-lrs';
+import {
+  LRSStore,
+  PreconditionFailedError,
+  StatementConflictError,
+  StatementValidationError,
+} from 'cmi5-lrs';
 
 describe('XAPIClient (e2e)', () => {
   let lrs: LRSStore;
@@ -74,7 +81,7 @@ describe('XAPIClient (e2e)', () => {
     await client.saveState(activityId, stateId, agent, state);
 
     // Wait a bit for async operations
-    await new Promise(resolve => setTimeout(resolve, 100));
+    await new Promise((resolve) => setTimeout(resolve, 100));
 
     // Retrieve state
     const retrieved = await client.getState(activityId, stateId, agent);
@@ -108,8 +115,110 @@ describe('XAPIClient (e2e)', () => {
     await client.sendStatements(statements);
 
     // Verify both were stored
-    // Note: In a real implementation, you'd query the LRS to verify
-    expect(statements.length).toBe(2);
+    const stored = await lrs.queryStatements({});
+    expect(stored.statements).toHaveLength(2);
+  });
+
+  it('stores nothing when part of a batch fails', async () => {
+    const client = new XAPIClient(launchParams, {
+      useLocalLRS: true,
+      localLRS: lrs,
+    });
+
+    const id = '3f0a3c1e-51b4-4d5a-9a0e-6f0d4f6a2a01';
+    await client.sendStatement({
+      id,
+      actor: { mbox: 'mailto:test@example.com' },
+      verb: { id: 'http://adlnet.gov/expapi/verbs/launched', display: { 'en-US': 'launched' } },
+      object: { id: 'https://example.com/activity-1', objectType: 'Activity' },
+    });
+
+    await expect(
+      client.sendStatements([
+        {
+          actor: { mbox: 'mailto:test@example.com' },
+          verb: {
+            id: 'http://adlnet.gov/expapi/verbs/completed',
+            display: { 'en-US': 'completed' },
+          },
+          object: { id: 'https://example.com/activity-1', objectType: 'Activity' },
+        },
+        {
+          id,
+          actor: { mbox: 'mailto:test@example.com' },
+          verb: {
+            id: 'http://adlnet.gov/expapi/verbs/completed',
+            display: { 'en-US': 'completed' },
+          },
+          object: { id: 'https://example.com/activity-2', objectType: 'Activity' },
+        },
+      ])
+    ).rejects.toBeInstanceOf(StatementConflictError);
+
+    const stored = await lrs.queryStatements({});
+    expect(stored.statements).toHaveLength(1);
+  });
+
+  it('stores attachment content with the statement', async () => {
+    const client = new XAPIClient(launchParams, {
+      useLocalLRS: true,
+      localLRS: lrs,
+    });
+
+    const content = new TextEncoder().encode('recording');
+    const digest = await crypto.subtle.digest('SHA-256', content);
+    const sha2 = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join(
+      ''
+    );
+
+    await client.sendStatement(
+      {
+        actor: { mbox: 'mailto:test@example.com' },
+        verb: { id: 'http://adlnet.gov/expapi/verbs/answered' },
+        object: { id: 'https://example.com/speaking/1' },
+        attachments: [
+          {
+            usageType: 'http://id.tincanapi.com/attachment/supporting_media',
+            display: { 'en-US': 'Recording' },
+            contentType: 'audio/webm',
+            length: content.length,
+            sha2,
+          },
+        ],
+      },
+      [{ sha2, contentType: 'audio/webm', content }]
+    );
+
+    const result = await lrs.queryStatements({ attachments: true });
+    expect(result.attachments).toEqual([{ sha2, contentType: 'audio/webm', content }]);
+  });
+
+  it('rejects invalid statements before sending', async () => {
+    const client = new XAPIClient(launchParams, {
+      useLocalLRS: true,
+      localLRS: lrs,
+    });
+
+    const statements: Statement[] = [
+      {
+        actor: { mbox: 'mailto:test@example.com' },
+        verb: { id: 'http://adlnet.gov/expapi/verbs/launched', display: { 'en-US': 'launched' } },
+        object: { id: 'https://example.com/activity-1', objectType: 'Activity' },
+      },
+      {
+        actor: { mbox: 'test@example.com' },
+        verb: { id: 'http://adlnet.gov/expapi/verbs/completed', display: { 'en-US': 'completed' } },
+        object: { id: 'https://example.com/activity-2', objectType: 'Activity' },
+      },
+    ];
+
+    const error = await client.sendStatements(statements).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(StatementValidationError);
+    expect((error as StatementValidationError).issues[0]?.path).toBe('$[1].actor.mbox');
+
+    // Nothing from the batch was stored
+    const stored = await lrs.queryStatements({});
+    expect(stored.statements).toHaveLength(0);
   });
 
   it('returns null for non-existent state', async () => {
@@ -141,4 +250,205 @@ describe('XAPIClient (e2e)', () => {
     const retrieved = await client.getState(activityId, stateId, agent);
     expect(retrieved).toBeNull();
   });
+
+  it('keeps state separate per learner and registration', async () => {
+    const client = new XAPIClient(launchParams, {
+      useLocalLRS: true,
+      localLRS: lrs,
+    });
+
+    const activityId = 'test-activity';
+    const stateId = 'test-state';
+    const learnerA = { mbox: 'mailto:a@example.com' };
+    const learnerB = { mbox: 'mailto:b@example.com' };
+
+    await client.saveState(activityId, stateId, learnerA, { learner: 'a' }, 'registration-1');
+    await client.saveState(activityId, stateId, learnerB, { learner: 'b' }, 'registration-1');
+    await client.saveState(activityId, stateId, learnerA, { learner: 'a2' }, 'registration-2');
+
+    expect(await client.getState(activityId, stateId, learnerA, 'registration-1')).toEqual({
+      learner: 'a',
+    });
+    expect(await client.getState(activityId, stateId, learnerB, 'registration-1')).toEqual({
+      learner: 'b',
+    });
+    expect(await client.getState(activityId, stateId, learnerA, 'registration-2')).toEqual({
+      learner: 'a2',
+    });
+    expect(await client.getState(activityId, stateId, learnerA)).toBeNull();
+    expect(await client.getStateIds(activityId, learnerB, 'registration-1')).toEqual([stateId]);
+  });
+
+  it('derives activities and persons from stored statements', async () => {
+    const client = new XAPIClient(launchParams, {
+      useLocalLRS: true,
+      localLRS: lrs,
+    });
+
+    await client.sendStatement({
+      actor: { mbox: 'mailto:test@example.com', name: 'Test User' },
+      verb: { id: 'http://adlnet.gov/expapi/verbs/launched' },
+      object: {
+        id: 'https://example.com/course',
+        definition: { name: { 'en-US': 'Course', 'de-DE': 'Kurs' } },
+      },
+    });
+
+    const activity = await client.getActivity('https://example.com/course');
+    expect(activity.definition?.name).toEqual({ 'en-US': 'Course', 'de-DE': 'Kurs' });
+    expect(await client.getPerson(launchParams.actor)).toEqual({
+      objectType: 'Person',
+      name: ['Test User'],
+      mbox: ['mailto:test@example.com'],
+    });
+  });
+
+  it('stores activity and agent profiles in local LRS', async () => {
+    const client = new XAPIClient(launchParams, {
+      useLocalLRS: true,
+      localLRS: lrs,
+    });
+
+    const learner = { mbox: 'mailto:test@example.com' };
+
+    await client.saveAgentProfile(learner, 'cmi5LearnerPreferences', {
+      languagePreference: 'en-US',
+    });
+    const etag = await client.mergeAgentProfile(learner, 'cmi5LearnerPreferences', {
+      audioPreference: 'off',
+    });
+
+    expect(await client.getAgentProfile(launchParams.actor, 'cmi5LearnerPreferences')).toEqual({
+      profile: { languagePreference: 'en-US', audioPreference: 'off' },
+      etag,
+    });
+    expect(await client.getAgentProfileIds(learner)).toEqual(['cmi5LearnerPreferences']);
+
+    await client.saveActivityProfile('test-activity', 'settings', { theme: 'dark' });
+    await expect(
+      client.deleteActivityProfile('test-activity', 'settings', { ifMatch: 'stale' })
+    ).rejects.toBeInstanceOf(PreconditionFailedError);
+    await client.deleteActivityProfile('test-activity', 'settings');
+    expect(await client.getActivityProfile('test-activity', 'settings')).toBeNull();
+  });
+
+  describe('remote mode', () => {
+    const statement: Statement = {
+      actor: { mbox: 'mailto:test@example.com' },
+      verb: { id: 'http://adlnet.gov/expapi/verbs/experienced' },
+      object: { id: 'https://example.com/activity' },
+    };
+
+    function httpError(status: number): Error {
+      return Object.assign(new Error(`Request failed with status code ${status}`), {
+        response: { status, headers: {} },
+      });
+    }
+
+    function createRemoteClient(outbox?: LRSStore): XAPIClient {
+      return new XAPIClient(launchParams, {
+        useLocalLRS: false,
+        outbox,
+        retry: { maxAttempts: 2, baseDelay: 0 },
+        circuitBreaker: { failureThreshold: 2 },
+      });
+    }
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('retries retryable failures with the same statement id', async () => {
+      const send = vi
+        .spyOn(XAPI.prototype, 'sendStatement')
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValue({ data: [], headers: {}, status: 200 } as never);
+
+      await createRemoteClient().sendStatement(statement);
+
+      expect(send).toHaveBeenCalledTimes(2);
+      const [first, second] = send.mock.calls.map(([params]) => params.statement.id);
+      expect(first).toBeDefined();
+      expect(second).toBe(first);
+    });
+
+    it('keeps statements in the outbox when the remote LRS stays unavailable', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const send = vi.spyOn(XAPI.prototype, 'sendStatement').mockRejectedValue(httpError(503));
+      const client = createRemoteClient(lrs);
+
+      await client.sendStatement(statement);
+      await client.sendStatement(statement);
+      expect(send).toHaveBeenCalledTimes(4);
+      expect(await lrs.countUnsyncedStatements()).toBe(2);
+
+      // The circuit is open: statements go to the outbox without trying the remote LRS
+      await client.sendStatement(statement);
+      expect(send).toHaveBeenCalledTimes(4);
+      expect(await lrs.countUnsyncedStatements()).toBe(3);
+    });
+
+    it('stores statements in the outbox before delivering them in hybrid mode', async () => {
+      const fetchMock = vi.fn(async () => new Response('[]', { status: 200 }));
+      vi.stubGlobal('fetch', fetchMock);
+      const client = new XAPIClient(launchParams, {
+        useLocalLRS: false,
+        outbox: lrs,
+        hybrid: true,
+        flusher: { flushInterval: 0 },
+      });
+
+      try {
+        await client.sendStatement(statement);
+        const [stored] = (await lrs.queryStatements({})).statements;
+        expect(stored?.id).toBeDefined();
+
+        await client.flush();
+        expect(fetchMock).toHaveBeenCalled();
+        expect(await lrs.getStatementSyncStatus(stored!.id!)).toEqual({ status: 'synced' });
+      } finally {
+        client.close();
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('returns the ETag of saved state so saves can be chained with If-Match', async () => {
+      const setState = vi
+        .spyOn(XAPI.prototype, 'setState')
+        .mockResolvedValueOnce({ data: undefined, headers: {}, status: 204 })
+        .mockResolvedValueOnce({ data: undefined, headers: { etag: '"v2"' }, status: 204 });
+      const getState = vi
+        .spyOn(XAPI.prototype, 'getState')
+        .mockResolvedValue({ data: { page: 1 }, headers: { etag: '"v1"' }, status: 200 } as never);
+      const client = createRemoteClient();
+      const save = (state: unknown, ifMatch?: string) =>
+        client.saveState('activity-1', 'bookmark', launchParams.actor, state, undefined, {
+          ifMatch,
+        });
+
+      // No ETag in the response: the document is fetched again
+      const first = await save({ page: 1 });
+      expect(first).toBe('"v1"');
+      expect(getState).toHaveBeenCalledTimes(1);
+
+      const second = await save({ page: 2 }, first);
+      expect(second).toBe('"v2"');
+      expect(setState.mock.calls[1]![0]).toMatchObject({ etag: '"v1"', matchHeader: 'If-Match' });
+      expect(getState).toHaveBeenCalledTimes(1);
+    });
+
+    it('throws permanent failures without retrying or using the outbox', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const send = vi.spyOn(XAPI.prototype, 'sendStatements').mockRejectedValue(httpError(400));
+
+      const error = await createRemoteClient(lrs)
+        .sendStatements([statement])
+        .catch((error: unknown) => error);
+
+      expect(error).toBeInstanceOf(RemoteSendError);
+      expect(error).toMatchObject({ status: 400, retryable: false });
+      expect(send).toHaveBeenCalledTimes(1);
+      expect(await lrs.countUnsyncedStatements()).toBe(0);
+    });
+  });
 });
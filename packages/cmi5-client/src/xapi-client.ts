@@ -6,9 +6,24 @@
  */
 
 import XAPI from '@xapi/xapi';
-import type { Statement, Actor } from '@xapi/xapi';
+import type { Statement, Actor, Activity, Agent, Person } from '@xapi/xapi';
 import type { CMI5LaunchParameters } from 'cmi5-core';
-import type { LRSStore } from 'cmi5-lrs';
+import type {
+  LRSStore,
+  Agent as LRSAgent,
+  AttachmentContent,
+  DocumentWriteOptions,
+} from 'cmi5-lrs';
+import {
+  PreconditionFailedError,
+  StatementValidationError,
+  parseAgentParameter,
+  validateStatement,
+} from 'cmi5-lrs';
+import { CircuitBreaker, classifySendError, getErrorStatus, withRetry } from './retry';
+import type { CircuitBreakerOptions, RetryOptions } from './retry';
+import { OutboxFlusher } from './outbox-flusher';
+import type { OutboxFlusherOptions } from './outbox-flusher';
 
 /**
  * xAPI Client Options
@@ -16,12 +31,106 @@ import type { LRSStore } from 'cmi5-lrs';
  * Philosophy: Offline-first by default
  * - useLocalLRS: true (default) - Store data locally (data ownership)
  * - useLocalLRS: false - Use remote endpoint (for LMS integration)
+ * - useLocalLRS: false, hybrid: true - Write to the outbox, deliver to the remote endpoint
  */
 export interface XAPIClientOptions {
   /** Use local browser LRS instead of remote endpoint (default: true - offline-first) */
   useLocalLRS?: boolean;
   /** Local LRS store instance (required if useLocalLRS is true) */
   localLRS?: LRSStore;
+  /**
+   * Local LRS that keeps statements the remote LRS could not accept because it
+   * was unreachable, for CloudSyncManager to deliver later (remote mode only)
+   */
+  outbox?: LRSStore;
+  /** Backoff for retryable remote failures (remote mode only) */
+  retry?: RetryOptions;
+  /** When to pause sending after repeated remote failures (remote mode only) */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Write every statement to the outbox first and deliver it to the remote LRS
+   * with a background flusher (remote mode only; requires outbox)
+   */
+  hybrid?: boolean;
+  /** Batching and flush interval of the hybrid mode flusher */
+  flusher?: Pick<OutboxFlusherOptions, 'batchSize' | 'flushInterval'>;
+}
+
+/**
+ * Validate statements before they leave the client
+ * Batch errors are reported with the statement index in their JSON path
+ */
+function assertValidStatements(statements: Statement[], batch: boolean): void {
+  const errors = statements.flatMap(
+    (statement, i) => validateStatement(statement, batch ? `$[${i}]` : '$').errors
+  );
+  if (errors.length > 0) {
+    throw new StatementValidationError(errors);
+  }
+}
+
+/**
+ * Parse an agent given as JSON or object
+ * State documents are scoped to agents, so the agent must have an IFI
+ */
+function parseAgent(agent: string | Actor): Agent {
+  return parseAgentParameter(agent as string | LRSAgent) as Agent;
+}
+
+/**
+ * Convert attachment content for @xapi/xapi, which hashes and sends it as multipart/mixed
+ * Returns undefined without attachments so plain JSON requests are sent
+ */
+function toArrayBuffers(attachments: AttachmentContent[]): ArrayBuffer[] | undefined {
+  if (attachments.length === 0) return undefined;
+  return attachments.map((attachment) => attachment.content.slice().buffer as ArrayBuffer);
+}
+
+/**
+ * Give statements ids before they are sent, so retries of a request whose
+ * response was lost cannot store them twice
+ */
+function withStatementIds(statements: Statement[]): Statement[] {
+  return statements.map((statement) =>
+    statement.id ? statement : { ...statement, id: crypto.randomUUID() }
+  );
+}
+
+/**
+ * Map write preconditions to the single match header @xapi/xapi sends
+ * If-Match takes precedence when both are given
+ */
+function toMatchHeader(
+  options: DocumentWriteOptions
+): { etag: string; matchHeader: 'If-Match' | 'If-None-Match' } | {} {
+  if (options.ifMatch !== undefined) return { etag: options.ifMatch, matchHeader: 'If-Match' };
+  if (options.ifNoneMatch !== undefined) {
+    return { etag: options.ifNoneMatch, matchHeader: 'If-None-Match' };
+  }
+  return {};
+}
+
+/**
+ * ETag of a document just written to the remote LRS
+ * LRSs need not send one with the write response; then the document is fetched again
+ */
+async function getWrittenETag(
+  response: { headers?: Record<string, any> },
+  refetch: () => Promise<{ etag?: string } | null>
+): Promise<string | undefined> {
+  return response.headers?.etag ?? (await refetch())?.etag;
+}
+
+/**
+ * Log a failed document write and normalize remote 412 responses to PreconditionFailedError
+ */
+function toPreconditionError(error: unknown, message: string): unknown {
+  if (error instanceof PreconditionFailedError) return error;
+  if (getErrorStatus(error) === 412) {
+    return new PreconditionFailedError('Document was changed by another writer', null);
+  }
+  console.error(message, error);
+  return error;
 }
 
 /**
@@ -34,10 +143,17 @@ export class XAPIClient {
   private xapi: XAPI | null = null;
   private localLRS: LRSStore | null = null;
   private useLocal: boolean;
+  private outbox: LRSStore | null;
+  private retryOptions: RetryOptions;
+  private circuitBreaker: CircuitBreaker;
+  private flusher: OutboxFlusher | null = null;
 
   constructor(launchParams: CMI5LaunchParameters, options: XAPIClientOptions = {}) {
     // Default to offline-first (local LRS) unless explicitly disabled
     this.useLocal = options.useLocalLRS ?? true;
+    this.outbox = options.outbox ?? null;
+    this.retryOptions = options.retry ?? {};
+    this.circuitBreaker = new CircuitBreaker(options.circuitBreaker);
     
     if (this.useLocal) {
       if (!options.localLRS) {
@@ -50,20 +166,68 @@ export class XAPIClient {
         endpoint: launchParams.endpoint,
         auth: launchParams.auth,
       });
+
+      if (options.hybrid) {
+        if (!this.outbox) {
+          throw new Error('outbox is required when hybrid is true');
+        }
+        this.flusher = new OutboxFlusher(this.outbox, {
+          ...options.flusher,
+          endpoint: launchParams.endpoint,
+          auth: launchParams.auth,
+          retry: options.retry,
+          circuitBreaker: options.circuitBreaker,
+        });
+        this.flusher.start().catch((error) => {
+          console.error('Failed to start outbox flusher:', error);
+        });
+      }
     }
   }
 
+  /**
+   * Deliver the statements waiting in the outbox now (hybrid mode)
+   * Resolves once the flush has run; statements that could not be delivered
+   * stay in the outbox for the next flush
+   */
+  async flush(): Promise<void> {
+    await this.flusher?.flush();
+  }
+
+  /**
+   * Stop background delivery (hybrid mode); waiting statements stay in the outbox
+   */
+  close(): void {
+    this.flusher?.stop();
+  }
+
   /**
    * Send xAPI statement to LRS
+   * Statements are validated before they are stored or sent
+   * Remote sends are retried with backoff when the remote LRS is unreachable,
+   * rate limiting or failing; see sendRemote. In hybrid mode the statement is
+   * stored in the outbox and delivered in the background.
+   *
+   * @param attachments - Content of the statement's attachments that have no fileUrl
    */
-  async sendStatement(statement: Statement): Promise<void> {
+  async sendStatement(statement: Statement, attachments: AttachmentContent[] = []): Promise<void> {
+    assertValidStatements([statement], false);
+
     try {
       if (this.useLocal && this.localLRS) {
         // Use local browser LRS
-        await this.localLRS.storeStatement(statement);
+        await this.localLRS.storeStatement(statement, attachments);
+      } else if (this.flusher && this.outbox) {
+        // Hybrid: durable in the outbox before anything is sent
+        const sent = withStatementIds([statement]);
+        await this.outbox.storeStatement(sent[0]!, attachments);
+        this.flusher.enqueue(sent);
       } else if (this.xapi) {
-        // Use remote xAPI endpoint
-        await this.xapi.sendStatement({ statement });
+        // Use remote xAPI endpoint (multipart/mixed when there are attachments)
+        const [sent] = withStatementIds([statement]);
+        await this.sendRemote([sent!], attachments, () =>
+          this.xapi!.sendStatement({ statement: sent!, attachments: toArrayBuffers(attachments) })
+        );
       } else {
         throw new Error('No LRS configured');
       }
@@ -75,17 +239,31 @@ export class XAPIClient {
 
   /**
    * Send multiple statements in batch
+   * The local LRS stores the batch atomically: all statements or none
+   *
+   * @param attachments - Content of the statements' attachments that have no fileUrl
    */
-  async sendStatements(statements: Statement[]): Promise<void> {
+  async sendStatements(
+    statements: Statement[],
+    attachments: AttachmentContent[] = []
+  ): Promise<void> {
+    assertValidStatements(statements, true);
+
     try {
       if (this.useLocal && this.localLRS) {
-        // Use local browser LRS - store sequentially
-        for (const statement of statements) {
-          await this.localLRS.storeStatement(statement);
-        }
+        // Use local browser LRS - single transaction
+        await this.localLRS.storeStatements(statements, attachments);
+      } else if (this.flusher && this.outbox) {
+        // Hybrid: durable in the outbox before anything is sent
+        const sent = withStatementIds(statements);
+        await this.outbox.storeStatements(sent, attachments);
+        this.flusher.enqueue(sent);
       } else if (this.xapi) {
-        // Use remote xAPI endpoint
-        await this.xapi.sendStatements({ statements });
+        // Use remote xAPI endpoint (multipart/mixed when there are attachments)
+        const sent = withStatementIds(statements);
+        await this.sendRemote(sent, attachments, () =>
+          this.xapi!.sendStatements({ statements: sent, attachments: toArrayBuffers(attachments) })
+        );
       } else {
         throw new Error('No LRS configured');
       }
@@ -95,32 +273,128 @@ export class XAPIClient {
     }
   }
 
+  /**
+   * Send statements to the remote LRS with retries and circuit breaking
+   * Throws RemoteSendError for permanent failures (e.g. 400, 401, 409). When
+   * retries are exhausted or the circuit is open, statements are stored in the
+   * outbox instead, or the RemoteSendError is thrown if there is none.
+   */
+  private async sendRemote(
+    statements: Statement[],
+    attachments: AttachmentContent[],
+    send: () => Promise<unknown>
+  ): Promise<void> {
+    try {
+      this.circuitBreaker.assertCanSend();
+      await withRetry(send, this.retryOptions);
+      this.circuitBreaker.recordSuccess();
+    } catch (error) {
+      const sendError = classifySendError(error);
+      this.circuitBreaker.recordFailure(sendError);
+      if (!sendError.retryable || !this.outbox) throw sendError;
+
+      console.warn('Remote LRS unavailable, keeping statements in the outbox:', sendError.message);
+      await this.outbox.storeStatements(statements, attachments);
+    }
+  }
+
   /**
    * Get state from xAPI state API
+   *
+   * @param registration - Registration the document belongs to (omit for documents without one)
    */
   async getState(
     activityId: string,
     stateId: string,
-    agent: string | Actor
+    agent: string | Actor,
+    registration?: string
   ): Promise<unknown> {
+    const document = await this.getStateDocument(activityId, stateId, agent, registration);
+    return document ? document.state : null;
+  }
+
+  /**
+   * List the stateIds stored for an activity and agent
+   *
+   * @param registration - Registration the documents belong to (omit for documents without one)
+   * @param since - Only include documents updated after this time (ISO 8601)
+   */
+  async getStateIds(
+    activityId: string,
+    agent: string | Actor,
+    registration?: string,
+    since?: string
+  ): Promise<string[]> {
     try {
-      const agentObj = typeof agent === 'string' ? JSON.parse(agent) : agent;
-      
+      const agentObj = parseAgent(agent);
+
       if (this.useLocal && this.localLRS) {
         // Use local browser LRS
-        // For CMI5, we need registration - extract from agent or use default
-        const registration = 'registration' in (agentObj as any) ? (agentObj as any).registration : 'default';
-        const state = await this.localLRS.getCMI5State(registration, activityId, agentObj, stateId);
-        return state;
+        return await this.localLRS.listCMI5StateIds(
+          registration ?? null,
+          activityId,
+          agentObj,
+          since
+        );
       } else if (this.xapi) {
         // Use remote xAPI endpoint
-        const state = await this.xapi.getState({ activityId, stateId, agent: agentObj });
-        return state;
+        const response = await this.xapi.getStates({
+          activityId,
+          agent: agentObj,
+          registration,
+          since,
+        });
+        return response.data;
       } else {
         throw new Error('No LRS configured');
       }
-    } catch (error: any) {
-      if (error?.status === 404 || error?.message?.includes('not found')) {
+    } catch (error) {
+      console.error('Error listing xAPI state ids:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get state with its ETag, for conditional saves
+   *
+   * @param registration - Registration the document belongs to (omit for documents without one)
+   * @returns The document and its ETag (undefined if the remote LRS sent none), or null if missing
+   */
+  async getStateDocument(
+    activityId: string,
+    stateId: string,
+    agent: string | Actor,
+    registration?: string
+  ): Promise<{ state: unknown; etag?: string } | null> {
+    try {
+      const agentObj = parseAgent(agent);
+
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        const document = await this.localLRS.getCMI5StateDocument(
+          registration ?? null,
+          activityId,
+          agentObj,
+          stateId
+        );
+        return document ? { state: document.content, etag: document.etag } : null;
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint
+        const response = await this.xapi.getState({
+          activityId,
+          stateId,
+          agent: agentObj,
+          registration,
+        });
+        return { state: response.data, etag: response.headers?.etag };
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      if (
+        getErrorStatus(error) === 404 ||
+        (error instanceof Error && error.message.includes('not found'))
+      ) {
         return null; // State doesn't exist yet
       }
       console.error('Error getting xAPI state:', error);
@@ -129,52 +403,123 @@ export class XAPIClient {
   }
 
   /**
-   * Save state to xAPI state API
+   * Save state to xAPI state API, replacing the stored document
+   * Throws PreconditionFailedError if an If-Match / If-None-Match precondition fails
+   *
+   * @param registration - Registration the document belongs to (omit for documents without one)
+   * @returns ETag of the saved document (undefined if the remote LRS has none)
    */
   async saveState(
     activityId: string,
     stateId: string,
     agent: string | Actor,
-    state: unknown
-  ): Promise<void> {
+    state: unknown,
+    registration?: string,
+    options: DocumentWriteOptions = {}
+  ): Promise<string | undefined> {
     try {
-      const agentObj = typeof agent === 'string' ? JSON.parse(agent) : agent;
-      
+      const agentObj = parseAgent(agent);
+
       if (this.useLocal && this.localLRS) {
         // Use local browser LRS
-        // For CMI5, we need registration - extract from state or use default
-        const registration = (state as any)?.registration || 'default';
-        await this.localLRS.saveCMI5State(registration, activityId, agentObj, stateId, state as any);
+        return await this.localLRS.saveCMI5State(
+          registration ?? null,
+          activityId,
+          agentObj,
+          stateId,
+          state as any,
+          options
+        );
       } else if (this.xapi) {
-        // Use remote xAPI endpoint
-        await this.xapi.setState({ activityId, stateId, agent: agentObj, state: state as any });
+        // Use remote xAPI endpoint (PUT)
+        const response = await this.xapi.setState({
+          activityId,
+          stateId,
+          agent: agentObj,
+          registration,
+          state: state as any,
+          ...toMatchHeader(options),
+        });
+        return await getWrittenETag(response, () =>
+          this.getStateDocument(activityId, stateId, agentObj, registration)
+        );
       } else {
         throw new Error('No LRS configured');
       }
     } catch (error) {
-      console.error('Error saving xAPI state:', error);
-      throw error;
+      throw toPreconditionError(error, 'Error saving xAPI state:');
+    }
+  }
+
+  /**
+   * Merge a JSON object into state, as for POST in the xAPI State API
+   * Top-level properties replace those of the stored document
+   *
+   * @param registration - Registration the document belongs to (omit for documents without one)
+   * @returns ETag of the merged document (undefined if the remote LRS has none)
+   */
+  async mergeState(
+    activityId: string,
+    stateId: string,
+    agent: string | Actor,
+    state: Record<string, unknown>,
+    registration?: string,
+    options: DocumentWriteOptions = {}
+  ): Promise<string | undefined> {
+    try {
+      const agentObj = parseAgent(agent);
+
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        return await this.localLRS.mergeCMI5State(
+          registration ?? null,
+          activityId,
+          agentObj,
+          stateId,
+          state,
+          options
+        );
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint (POST)
+        const response = await this.xapi.createState({
+          activityId,
+          stateId,
+          agent: agentObj,
+          registration,
+          state: state as any,
+          ...toMatchHeader(options),
+        });
+        return await getWrittenETag(response, () =>
+          this.getStateDocument(activityId, stateId, agentObj, registration)
+        );
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      throw toPreconditionError(error, 'Error merging xAPI state:');
     }
   }
 
   /**
    * Delete state from xAPI state API
+   *
+   * @param registration - Registration the document belongs to (omit for documents without one)
    */
   async deleteState(
     activityId: string,
     stateId: string,
-    agent: string | Actor
+    agent: string | Actor,
+    registration?: string
   ): Promise<void> {
     try {
-      const agentObj = typeof agent === 'string' ? JSON.parse(agent) : agent;
-      
+      const agentObj = parseAgent(agent);
+
       if (this.useLocal && this.localLRS) {
         // Use local browser LRS
-        const registration = 'registration' in (agentObj as any) ? (agentObj as any).registration : 'default';
-        await this.localLRS.deleteCMI5State(registration, activityId, agentObj, stateId);
+        await this.localLRS.deleteCMI5State(registration ?? null, activityId, agentObj, stateId);
       } else if (this.xapi) {
         // Use remote xAPI endpoint
-        await this.xapi.deleteState({ activityId, stateId, agent: agentObj });
+        await this.xapi.deleteState({ activityId, stateId, agent: agentObj, registration });
       } else {
         throw new Error('No LRS configured');
       }
@@ -183,4 +528,339 @@ export class XAPIClient {
       throw error;
     }
   }
+
+  /**
+   * Get the canonical definition of an activity (xAPI Activities resource)
+   * The local LRS merges the definitions of every stored statement that mentions it
+   */
+  async getActivity(activityId: string): Promise<Activity> {
+    try {
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        return await this.localLRS.getActivity(activityId);
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint
+        const response = await this.xapi.getActivity({ activityId });
+        return response.data;
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      console.error('Error getting xAPI activity:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get a Person combining every name and IFI known for an agent (xAPI Agents resource)
+   */
+  async getPerson(agent: string | Actor): Promise<Person> {
+    try {
+      const agentObj = parseAgent(agent);
+
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        return await this.localLRS.getPerson(agentObj);
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint
+        const response = await this.xapi.getAgent({ agent: agentObj });
+        return response.data;
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      console.error('Error getting xAPI person:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get an activity profile with its ETag
+   *
+   * @returns The document and its ETag (undefined if the remote LRS sent none), or null if missing
+   */
+  async getActivityProfile(
+    activityId: string,
+    profileId: string
+  ): Promise<{ profile: unknown; etag?: string } | null> {
+    try {
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        const document = await this.localLRS.getActivityProfile(activityId, profileId);
+        return document ? { profile: document.content, etag: document.etag } : null;
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint
+        const response = await this.xapi.getActivityProfile({ activityId, profileId });
+        return { profile: response.data, etag: response.headers?.etag };
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      if (getErrorStatus(error) === 404) return null;
+      console.error('Error getting xAPI activity profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List the profileIds stored for an activity
+   *
+   * @param since - Only include documents updated after this time (ISO 8601)
+   */
+  async getActivityProfileIds(activityId: string, since?: string): Promise<string[]> {
+    try {
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        return await this.localLRS.listActivityProfileIds(activityId, since);
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint
+        const response = await this.xapi.getActivityProfiles({ activityId, since });
+        return response.data;
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      console.error('Error listing xAPI activity profile ids:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save an activity profile, replacing the stored document
+   * Throws PreconditionFailedError if an If-Match / If-None-Match precondition fails
+   *
+   * @returns ETag of the saved document (undefined if the remote LRS has none)
+   */
+  async saveActivityProfile(
+    activityId: string,
+    profileId: string,
+    profile: unknown,
+    options: DocumentWriteOptions = {}
+  ): Promise<string | undefined> {
+    try {
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        return await this.localLRS.saveActivityProfile(activityId, profileId, profile, options);
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint (PUT)
+        const response = await this.xapi.setActivityProfile({
+          activityId,
+          profileId,
+          profile: profile as any,
+          ...toMatchHeader(options),
+        } as Parameters<XAPI['setActivityProfile']>[0]);
+        return await getWrittenETag(response, () => this.getActivityProfile(activityId, profileId));
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      throw toPreconditionError(error, 'Error saving xAPI activity profile:');
+    }
+  }
+
+  /**
+   * Merge a JSON object into an activity profile, as for POST in the xAPI Activity Profile API
+   *
+   * @returns ETag of the merged document (undefined if the remote LRS has none)
+   */
+  async mergeActivityProfile(
+    activityId: string,
+    profileId: string,
+    profile: Record<string, unknown>,
+    options: DocumentWriteOptions = {}
+  ): Promise<string | undefined> {
+    try {
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        return await this.localLRS.mergeActivityProfile(activityId, profileId, profile, options);
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint (POST)
+        const response = await this.xapi.createActivityProfile({
+          activityId,
+          profileId,
+          profile: profile as any,
+          ...toMatchHeader(options),
+        });
+        return await getWrittenETag(response, () => this.getActivityProfile(activityId, profileId));
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      throw toPreconditionError(error, 'Error merging xAPI activity profile:');
+    }
+  }
+
+  /**
+   * Delete an activity profile
+   * Throws PreconditionFailedError if an If-Match precondition fails
+   */
+  async deleteActivityProfile(
+    activityId: string,
+    profileId: string,
+    options: Pick<DocumentWriteOptions, 'ifMatch'> = {}
+  ): Promise<void> {
+    try {
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        await this.localLRS.deleteActivityProfile(activityId, profileId, options);
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint
+        await this.xapi.deleteActivityProfile({ activityId, profileId, etag: options.ifMatch });
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      throw toPreconditionError(error, 'Error deleting xAPI activity profile:');
+    }
+  }
+
+  /**
+   * Get an agent profile with its ETag
+   *
+   * @returns The document and its ETag (undefined if the remote LRS sent none), or null if missing
+   */
+  async getAgentProfile(
+    agent: string | Actor,
+    profileId: string
+  ): Promise<{ profile: unknown; etag?: string } | null> {
+    try {
+      const agentObj = parseAgent(agent);
+
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        const document = await this.localLRS.getAgentProfile(agentObj, profileId);
+        return document ? { profile: document.content, etag: document.etag } : null;
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint
+        const response = await this.xapi.getAgentProfile({ agent: agentObj, profileId });
+        return { profile: response.data, etag: response.headers?.etag };
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      if (getErrorStatus(error) === 404) return null;
+      console.error('Error getting xAPI agent profile:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * List the profileIds stored for an agent
+   *
+   * @param since - Only include documents updated after this time (ISO 8601)
+   */
+  async getAgentProfileIds(agent: string | Actor, since?: string): Promise<string[]> {
+    try {
+      const agentObj = parseAgent(agent);
+
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        return await this.localLRS.listAgentProfileIds(agentObj, since);
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint
+        const response = await this.xapi.getAgentProfiles({ agent: agentObj, since });
+        return response.data;
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      console.error('Error listing xAPI agent profile ids:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Save an agent profile, replacing the stored document
+   * Throws PreconditionFailedError if an If-Match / If-None-Match precondition fails
+   *
+   * @returns ETag of the saved document (undefined if the remote LRS has none)
+   */
+  async saveAgentProfile(
+    agent: string | Actor,
+    profileId: string,
+    profile: unknown,
+    options: DocumentWriteOptions = {}
+  ): Promise<string | undefined> {
+    try {
+      const agentObj = parseAgent(agent);
+
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        return await this.localLRS.saveAgentProfile(agentObj, profileId, profile, options);
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint (PUT)
+        const response = await this.xapi.setAgentProfile({
+          agent: agentObj,
+          profileId,
+          profile: profile as any,
+          ...toMatchHeader(options),
+        } as Parameters<XAPI['setAgentProfile']>[0]);
+        return await getWrittenETag(response, () => this.getAgentProfile(agentObj, profileId));
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      throw toPreconditionError(error, 'Error saving xAPI agent profile:');
+    }
+  }
+
+  /**
+   * Merge a JSON object into an agent profile, as for POST in the xAPI Agent Profile API
+   *
+   * @returns ETag of the merged document (undefined if the remote LRS has none)
+   */
+  async mergeAgentProfile(
+    agent: string | Actor,
+    profileId: string,
+    profile: Record<string, unknown>,
+    options: DocumentWriteOptions = {}
+  ): Promise<string | undefined> {
+    try {
+      const agentObj = parseAgent(agent);
+
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        return await this.localLRS.mergeAgentProfile(agentObj, profileId, profile, options);
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint (POST)
+        const response = await this.xapi.createAgentProfile({
+          agent: agentObj,
+          profileId,
+          profile: profile as any,
+          ...toMatchHeader(options),
+        });
+        return await getWrittenETag(response, () => this.getAgentProfile(agentObj, profileId));
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      throw toPreconditionError(error, 'Error merging xAPI agent profile:');
+    }
+  }
+
+  /**
+   * Delete an agent profile
+   * Throws PreconditionFailedError if an If-Match precondition fails
+   */
+  async deleteAgentProfile(
+    agent: string | Actor,
+    profileId: string,
+    options: Pick<DocumentWriteOptions, 'ifMatch'> = {}
+  ): Promise<void> {
+    try {
+      const agentObj = parseAgent(agent);
+
+      if (this.useLocal && this.localLRS) {
+        // Use local browser LRS
+        await this.localLRS.deleteAgentProfile(agentObj, profileId, options);
+      } else if (this.xapi) {
+        // Use remote xAPI endpoint
+        await this.xapi.deleteAgentProfile({ agent: agentObj, profileId, etag: options.ifMatch });
+      } else {
+        throw new Error('No LRS configured');
+      }
+    } catch (error) {
+      throw toPreconditionError(error, 'Error deleting xAPI agent profile:');
+    }
+  }
 }
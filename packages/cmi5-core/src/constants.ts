@@ -21,17 +21,67 @@ export const DEFAULT_OBJECTIVE_BASE_URL = 'https://polyglot.tools';
  */
 export const DEFAULT_STATE_ID = 'cmi5.runtime';
 
+/**
+ * State ID of the AU's record of its open session
+ * Used to detect sessions that ended without terminated
+ */
+export const DEFAULT_SESSION_STATE_ID = 'cmi5.session';
+
 /**
  * CMI5 verb IDs (xAPI verbs)
  */
 export const CMI5_VERBS = {
   LAUNCHED: 'http://adlnet.gov/expapi/verbs/launched',
+  INITIALIZED: 'http://adlnet.gov/expapi/verbs/initialized',
   COMPLETED: 'http://adlnet.gov/expapi/verbs/completed',
+  PASSED: 'http://adlnet.gov/expapi/verbs/passed',
+  FAILED: 'http://adlnet.gov/expapi/verbs/failed',
+  TERMINATED: 'http://adlnet.gov/expapi/verbs/terminated',
+  ABANDONED: 'https://w3id.org/xapi/adl/verbs/abandoned',
+  WAIVED: 'https://w3id.org/xapi/adl/verbs/waived',
+  SATISFIED: 'https://w3id.org/xapi/adl/verbs/satisfied',
   EXPERIENCED: 'http://adlnet.gov/expapi/verbs/experienced',
   MASTERED: 'http://adlnet.gov/expapi/verbs/mastered',
   REVIEWED: 'http://polyglot.tools/verbs/reviewed',
 } as const;
 
+/**
+ * State ID of the launch data document the LMS writes before launching an AU
+ */
+export const CMI5_LAUNCH_DATA_STATE_ID = 'LMS.LaunchData';
+
+/**
+ * cmi5 context extension IRIs
+ */
+export const CMI5_CONTEXT_EXTENSIONS = {
+  SESSION_ID: 'https://w3id.org/xapi/cmi5/context/extensions/sessionid',
+  MASTERY_SCORE: 'https://w3id.org/xapi/cmi5/context/extensions/masteryscore',
+  LAUNCH_MODE: 'https://w3id.org/xapi/cmi5/context/extensions/launchmode',
+  LAUNCH_URL: 'https://w3id.org/xapi/cmi5/context/extensions/launchurl',
+  MOVE_ON: 'https://w3id.org/xapi/cmi5/context/extensions/moveon',
+  LAUNCH_PARAMETERS: 'https://w3id.org/xapi/cmi5/context/extensions/launchparameters',
+} as const;
+
+/**
+ * cmi5 result extension IRIs
+ */
+export const CMI5_RESULT_EXTENSIONS = {
+  /** Why an AU was waived */
+  REASON: 'https://w3id.org/xapi/cmi5/result/extensions/reason',
+  /** Completion progress (0-100) */
+  PROGRESS: 'https://w3id.org/xapi/cmi5/result/extensions/progress',
+} as const;
+
+/**
+ * cmi5 category activity IRIs (context.contextActivities.category)
+ */
+export const CMI5_CATEGORY_ACTIVITIES = {
+  /** Marks cmi5 defined statements */
+  CMI5: 'https://w3id.org/xapi/cmi5/context/categories/cmi5',
+  /** Marks statements that count towards moveOn */
+  MOVE_ON: 'https://w3id.org/xapi/cmi5/context/categories/moveon',
+} as const;
+
 /**
  * CMI5 activity types (xAPI activity types)
  */
@@ -47,6 +97,7 @@ export const CMI5_MOVE_ON_CRITERIA = {
   PASSED: 'Passed',
   COMPLETED: 'Completed',
   COMPLETED_AND_PASSED: 'CompletedAndPassed',
+  COMPLETED_OR_PASSED: 'CompletedOrPassed',
   NOT_APPLICABLE: 'NotApplicable',
 } as const;
 
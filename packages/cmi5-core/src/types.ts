@@ -14,7 +14,7 @@
 export interface CMI5LaunchParameters {
   /** xAPI endpoint URL */
   endpoint: string;
-  /** Authorization token (Bearer token) */
+  /** Authorization token (Bearer token); empty for cmi5 launches until obtained from `fetch` */
   auth: string;
   /** Actor (learner) JSON string */
   actor: string;
@@ -22,10 +22,22 @@ export interface CMI5LaunchParameters {
   registration?: string;
   /** Activity ID (AU ID) */
   activityId?: string;
-  /** Fetch URL for state retrieval */
+  /** Fetch URL, POSTed once by the AU to obtain the authorization token */
   fetch?: string;
 }
 
+/**
+ * CMI5 Launch Mode
+ * Only Normal launches may change a learner's completion, success or mastery
+ */
+export type CMI5LaunchMode = 'Normal' | 'Browse' | 'Review';
+
+/**
+ * CMI5 Launch Method
+ * Whether the LMS must open the AU in a window of its own or may use any window
+ */
+export type CMI5LaunchMethod = 'OwnWindow' | 'AnyWindow';
+
 /**
  * CMI5 Objective
  * Represents a learning objective that can be tracked
@@ -73,12 +85,19 @@ export interface CMI5AssignableUnit {
   title: string;
   /** Launch URL */
   launchUrl: string;
-  /** Launch parameters */
-  launchParameters?: CMI5LaunchParameters;
+  /** How the LMS opens the AU (default: AnyWindow) */
+  launchMethod?: CMI5LaunchMethod;
+  /**
+   * Authored launch parameters, passed to the AU as-is in LMS.LaunchData
+   * Unrelated to the runtime launch URL parameters (CMI5LaunchParameters)
+   */
+  launchParameters?: string;
+  /** Entitlement key the AU may check to confirm the learner is entitled to it */
+  entitlementKey?: string;
   /** Mastery score (0-1) */
   masteryScore?: number;
   /** Move on criteria */
-  moveOn?: 'Passed' | 'Completed' | 'CompletedAndPassed' | 'NotApplicable';
+  moveOn?: 'Passed' | 'Completed' | 'CompletedAndPassed' | 'CompletedOrPassed' | 'NotApplicable';
   /** Objectives */
   objectives: CMI5Objective[];
   /** Prerequisites - list of AU IDs that must be completed before this AU */
@@ -112,7 +131,7 @@ export interface CMI5State {
   /** Registration ID */
   registration: string;
   /** Launch mode */
-  launchMode: 'Normal' | 'Browse' | 'Review';
+  launchMode: CMI5LaunchMode;
   /** Mastery state per objective */
   objectiveStates: Map<string, CMI5ObjectiveState>;
   /** Lesson progress */
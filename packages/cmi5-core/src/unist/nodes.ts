@@ -12,7 +12,7 @@
  */
 
 import type { Node as UnistNode, Parent as UnistParent, Literal as UnistLiteral, Data, Position } from 'unist';
-import type { CMI5LaunchParameters, CMI5ObjectiveState } from '../types';
+import type { CMI5LaunchMethod, CMI5ObjectiveState } from '../types';
 
 // ============================================================================
 // Core UNIST Types (re-exported for convenience)
@@ -64,10 +64,16 @@ export interface CMI5AssignableUnitNode extends UnistParent {
   title: string;
   /** Launch URL */
   launchUrl: string;
+  /** How the LMS opens the AU (default: AnyWindow) */
+  launchMethod?: CMI5LaunchMethod;
+  /** Authored launch parameters, passed to the AU as-is */
+  launchParameters?: string;
+  /** Entitlement key of the AU */
+  entitlementKey?: string;
   /** Mastery score threshold (0-1) */
   masteryScore?: number;
   /** Move-on criteria */
-  moveOn?: 'Passed' | 'Completed' | 'CompletedAndPassed' | 'NotApplicable';
+  moveOn?: 'Passed' | 'Completed' | 'CompletedAndPassed' | 'CompletedOrPassed' | 'NotApplicable';
   /** Prerequisites - list of AU IDs that must be completed before this AU */
   prerequisites?: string[];
   /** Completion criteria */
@@ -91,8 +97,6 @@ export interface CMI5AssignableUnitNode extends UnistParent {
   position?: Position;
   /** UNIST data (extensible metadata) */
   data?: {
-    /** Launch parameters */
-    launchParameters?: CMI5LaunchParameters;
     /** Source syllst lesson ID (if mapped from syllst) */
     sourceLessonId?: string;
     [key: string]: unknown;
@@ -64,12 +64,16 @@ export const CMI5AssignableUnitNodeSchema: z.ZodType<CMI5AssignableUnitNode> = z
   id: z.string().min(1),
   title: z.string().min(1),
   launchUrl: z.string().url(),
+  launchMethod: z.enum(['OwnWindow', 'AnyWindow']).optional(),
+  launchParameters: z.string().optional(),
+  entitlementKey: z.string().optional(),
   masteryScore: z.number().min(0).max(1).optional(),
-  moveOn: z.enum(['Passed', 'Completed', 'CompletedAndPassed', 'NotApplicable']).optional(),
+  moveOn: z
+    .enum(['Passed', 'Completed', 'CompletedAndPassed', 'CompletedOrPassed', 'NotApplicable'])
+    .optional(),
   children: z.array(CMI5ObjectiveNodeSchema),
   position: PositionSchema.optional(),
   data: z.object({
-    launchParameters: z.any().optional(), // CMI5LaunchParameters - avoid circular dependency
     sourceLessonId: z.string().optional(),
   }).passthrough().optional(),
 });
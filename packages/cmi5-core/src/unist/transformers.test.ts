@@ -131,6 +131,27 @@ describe('CMI5 UNIST Transformers', () => {
         expect(reconstructedTree.children[0].children.length).toBe(originalTree.children[0].children.length);
       }
     });
+
+    it('preserves authored launch settings', () => {
+      const tree = createTestTree();
+      Object.assign(tree.children[0]!, {
+        launchMethod: 'OwnWindow',
+        launchParameters: '{"deck":"verbs"}',
+        entitlementKey: 'vendor-key-123',
+      });
+
+      const flat = flattenCMI5Tree(tree);
+      expect(flat.assignableUnits[0]).toMatchObject({
+        launchMethod: 'OwnWindow',
+        launchParameters: '{"deck":"verbs"}',
+        entitlementKey: 'vendor-key-123',
+      });
+      expect(buildCMI5Tree(flat).children[0]).toMatchObject({
+        launchMethod: 'OwnWindow',
+        launchParameters: '{"deck":"verbs"}',
+        entitlementKey: 'vendor-key-123',
+      });
+    });
   });
 
   describe('mapCMI5Tree', () => {
@@ -53,13 +53,15 @@ export function flattenCMI5Tree(tree: CMI5CourseNode): CMI5Course {
       id: auNode.id,
       title: auNode.title,
       launchUrl: auNode.launchUrl,
+      launchMethod: auNode.launchMethod,
+      launchParameters: auNode.launchParameters,
+      entitlementKey: auNode.entitlementKey,
       masteryScore: auNode.masteryScore,
       moveOn: auNode.moveOn,
       objectives,
       prerequisites: auNode.prerequisites,
       completionCriteria: auNode.completionCriteria,
       order: auNode.order,
-      launchParameters: auNode.data?.launchParameters,
     };
 
     assignableUnits.push(au);
@@ -103,15 +105,16 @@ export function buildCMI5Tree(course: CMI5Course): CMI5CourseNode {
       id: au.id,
       title: au.title,
       launchUrl: au.launchUrl,
+      launchMethod: au.launchMethod,
+      launchParameters: au.launchParameters,
+      entitlementKey: au.entitlementKey,
       masteryScore: au.masteryScore,
       moveOn: au.moveOn,
       prerequisites: au.prerequisites,
       completionCriteria: au.completionCriteria,
       order: au.order,
       children: objectives,
-      data: {
-        launchParameters: au.launchParameters,
-      },
+      data: {},
     };
 
     return auNode;
@@ -9,6 +9,7 @@ import {
   validateCMI5Node,
   getValidationSummary,
 } from './validation';
+import { CMI5_MOVE_ON_CRITERIA } from '../constants';
 
 function createValidTree(): CMI5CourseNode {
   return {
@@ -155,6 +156,21 @@ describe('CMI5 UNIST Validation', () => {
       expect(result.valid).toBe(true);
     });
 
+    it('accepts every cmi5 moveOn value', () => {
+      for (const moveOn of Object.values(CMI5_MOVE_ON_CRITERIA)) {
+        const node: CMI5AssignableUnitNode = {
+          type: 'cmi5:au',
+          id: 'au-1',
+          title: 'AU 1',
+          launchUrl: 'https://example.com/au-1',
+          moveOn,
+          children: [],
+        };
+
+        expect(validateCMI5Node(node).valid).toBe(true);
+      }
+    });
+
     it('validates a valid objective node', () => {
       const node: CMI5ObjectiveNode = {
         type: 'cmi5:objective',
@@ -52,8 +52,9 @@ export function validateLaunchParameters(
     }
   }
 
-  if (!params.auth) {
-    errors.push('Missing required parameter: auth');
+  // cmi5 launches carry a fetch URL instead of the authorization token
+  if (!params.auth && !params.fetch) {
+    errors.push('Missing required parameter: auth (or fetch)');
   }
 
   if (!params.actor) {
@@ -181,6 +181,33 @@ describe('CMI5LearningEngine', () => {
       expect(au1Eval?.status).toBe('passed');
     });
 
+    it('satisfies CompletedOrPassed when passed but not completed', () => {
+      const objectiveStates = new Map<string, CMI5ObjectiveState>();
+      objectiveStates.set('obj-3', createObjectiveState('obj-3', 'node-3', 0.9));
+
+      const state: CMI5State = {
+        registration: 'reg-1',
+        launchMode: 'Normal',
+        objectiveStates,
+        progress: {
+          completedLessons: [],
+          timeSpent: 0,
+        },
+        completed: false,
+      };
+
+      const engine = new CMI5LearningEngine({
+        ...course,
+        assignableUnits: [{ ...au2, prerequisites: [], moveOn: 'CompletedOrPassed' }],
+      });
+      const snapshot = engine.evaluate({ cmi5State: state });
+
+      const au2Eval = snapshot.aus.get('au-2');
+      expect(au2Eval?.completion.isComplete).toBe(false); // Content not completed
+      expect(au2Eval?.moveOn.isSatisfied).toBe(true);
+      expect(au2Eval?.status).toBe('passed');
+    });
+
     it('unlocks AU when prerequisites are met', () => {
       const objectiveStates = new Map<string, CMI5ObjectiveState>();
       objectiveStates.set('obj-1', createObjectiveState('obj-1', 'node-1', 0.9));
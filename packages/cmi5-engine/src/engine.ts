@@ -84,7 +84,7 @@ export interface AUEvaluation {
     averageMastery: number;
   };
   moveOn: {
-    criteria: 'Passed' | 'Completed' | 'CompletedAndPassed' | 'NotApplicable';
+    criteria: 'Passed' | 'Completed' | 'CompletedAndPassed' | 'CompletedOrPassed' | 'NotApplicable';
     isSatisfied: boolean;
   };
 }
@@ -105,7 +105,7 @@ interface AUDescriptor {
   prerequisites: string[];
   objectives: CMI5Objective[];
   masteryScore?: number;
-  moveOn?: 'Passed' | 'Completed' | 'CompletedAndPassed' | 'NotApplicable';
+  moveOn?: 'Passed' | 'Completed' | 'CompletedAndPassed' | 'CompletedOrPassed' | 'NotApplicable';
   completionCriteria?: CMI5CompletionCriteria;
   au: CMI5AssignableUnit;
 }
@@ -364,7 +364,9 @@ export class CMI5LearningEngine {
             ? isComplete
             : moveOnCriteria === 'Passed'
               ? isPassed
-              : isComplete && isPassed;
+              : moveOnCriteria === 'CompletedOrPassed'
+                ? isComplete || isPassed
+                : isComplete && isPassed;
 
       auEvaluations.set(auDescriptor.id, {
         auId: auDescriptor.id,
@@ -449,6 +451,8 @@ export class CMI5LearningEngine {
               : evaluation.started
                 ? 'in-progress'
                 : 'available';
+        } else if (moveOnCriteria === 'CompletedOrPassed' && evaluation.pass.isPassed) {
+          status = 'passed';
         } else if (evaluation.completion.isComplete) {
           status = 'completed';
         } else if (evaluation.started) {
@@ -10,8 +10,12 @@ import {
   type Grade as TsFsrsGrade,
   State as TsFsrsState,
   createEmptyCard,
+  fsrs,
+  generatorParameters,
 } from 'ts-fsrs';
 
+export * from './optimizer';
+
 // -----------------------------------------------------------------------------
 // Activity Types (for tracking different review activities)
 // -----------------------------------------------------------------------------
@@ -125,6 +129,85 @@ export function createInitialFSRSState(): FSRSState {
   return tsFsrsCardToFSRSState(emptyCard);
 }
 
+/** Convert our FSRSState and its review timestamps to a ts-fsrs Card */
+export function fsrsStateToTsFsrsCard(
+  state: FSRSState,
+  lastReview?: Date,
+  due: Date = lastReview ?? new Date()
+): TsFsrsCard {
+  return {
+    due,
+    stability: state.stability,
+    difficulty: state.difficulty,
+    elapsed_days: state.elapsedDays,
+    scheduled_days: state.scheduledDays,
+    reps: state.reps,
+    lapses: state.lapses,
+    state: fsrsCardStateToTsFsrsState(state.state),
+    last_review: lastReview,
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Scheduling
+// -----------------------------------------------------------------------------
+
+/** Configuration of the FSRS scheduler */
+export interface FSRSSchedulerOptions {
+  /** Probability of recall reviews are scheduled at (default: 0.9) */
+  requestRetention?: number;
+
+  /** Longest interval in days (default: 36500) */
+  maximumInterval?: number;
+
+  /** Model weights, e.g. fitted to a learner's review history (default: ts-fsrs defaults) */
+  weights?: number[];
+
+  /** Randomize intervals slightly so items learned together spread out (default: false) */
+  enableFuzz?: boolean;
+}
+
+/** An item's review timestamps next to its FSRS state */
+export interface ScheduledFSRSState {
+  /** FSRS algorithm state */
+  state: FSRSState;
+
+  /** Last review, or undefined before the first */
+  lastReview?: Date;
+
+  /** When the item is due */
+  nextReview?: Date;
+}
+
+/**
+ * Schedule the next review of an item with the ts-fsrs scheduler
+ * Elapsed time is measured from the actual last review, not from the interval
+ * that was scheduled
+ */
+export function scheduleReview(
+  current: ScheduledFSRSState,
+  rating: FSRSRating,
+  now: Date = new Date(),
+  options: FSRSSchedulerOptions = {}
+): Required<ScheduledFSRSState> {
+  const scheduler = fsrs(
+    generatorParameters({
+      request_retention: options.requestRetention,
+      maximum_interval: options.maximumInterval,
+      w: options.weights,
+      enable_fuzz: options.enableFuzz,
+    })
+  );
+
+  const card = fsrsStateToTsFsrsCard(current.state, current.lastReview, current.nextReview);
+  const { card: next } = scheduler.next(card, now, rating);
+  return {
+    state: tsFsrsCardToFSRSState(next),
+    lastReview: now,
+    nextReview: next.due,
+  };
+}
+
 // -----------------------------------------------------------------------------
 // Activity Mastery
 // -----------------------------------------------------------------------------
@@ -167,6 +250,12 @@ export interface ReviewLogEntry {
 
   /** Whether the answer was correct */
   wasCorrect: boolean;
+
+  /** FSRS state before the review */
+  stateBefore: FSRSState;
+
+  /** FSRS state after the review */
+  stateAfter: FSRSState;
 }
 
 // -----------------------------------------------------------------------------
@@ -266,9 +355,14 @@ export function calculateMastery<TItemId extends string = string>(
       ? Math.exp((-daysSinceReview / learnerState.state.stability) * Math.log(10 / 9))
       : 0;
 
-  // Bonus: Activity coverage (up to 10% bonus for using multiple activities)
-  const activitiesUsed = Object.keys(learnerState.activityMastery).length;
-  const activityBonus = Math.min(activitiesUsed * 0.02, 0.1);
+  // Bonus: Activity coverage (up to 10% bonus for answering correctly across activities)
+  const activityBonus = Math.min(
+    (Object.keys(learnerState.activityMastery) as ActivityType[]).reduce(
+      (bonus, activity) => bonus + (getActivityAccuracy(learnerState, activity) ?? 0) * 0.02,
+      0
+    ),
+    0.1
+  );
 
   // Penalty: Overdue review (small decay if past scheduled date)
   const overdueRatio =
@@ -288,6 +382,27 @@ export function getActivityAccuracy<TItemId extends string = string>(
   return mastery.correct / mastery.attempts;
 }
 
+/** Add a review to the activity mastery map, returning the updated map */
+export function updateActivityMastery(
+  activityMastery: ActivityMasteryMap,
+  review: Pick<ReviewInput, 'activity' | 'responseTime' | 'wasCorrect'>,
+  timestamp: Date = new Date()
+): ActivityMasteryMap {
+  const current = activityMastery[review.activity];
+  const attempts = (current?.attempts ?? 0) + 1;
+  return {
+    ...activityMastery,
+    [review.activity]: {
+      attempts,
+      correct: (current?.correct ?? 0) + (review.wasCorrect ? 1 : 0),
+      lastAttempt: timestamp,
+      avgResponseTime:
+        (current?.avgResponseTime ?? 0) +
+        (review.responseTime - (current?.avgResponseTime ?? 0)) / attempts,
+    },
+  };
+}
+
 /** Check if a learner state is due for review */
 export function isDueForReview<TItemId extends string = string>(
   learnerState: LearnerState<TItemId>,
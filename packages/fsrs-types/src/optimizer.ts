@@ -0,0 +1,195 @@
+/**
+ * FSRS Optimizer
+ *
+ * Fits FSRS weights to a learner's (or a cohort's) review logs: replays each
+ * item's reviews through the FSRS memory model, predicts recall at every review
+ * a day or more after the previous one, and minimizes the log loss of those
+ * predictions against what the learner actually recalled.
+ *
+ * Pure computation without platform APIs, so it runs in Node, in the browser
+ * and in a worker.
+ */
+
+import { CLAMP_PARAMETERS, FSRSAlgorithm, dateDiffInDays, default_w } from 'ts-fsrs';
+import type { ReviewLogEntry } from './index';
+
+/**
+ * The reviews of one item, oldest first
+ */
+export type FSRSReviewHistory = Pick<ReviewLogEntry, 'timestamp' | 'rating'>[];
+
+/**
+ * FSRS Optimizer Options
+ */
+export interface FSRSOptimizerOptions {
+  /** Fewest reviews to fit weights on; fewer overfit (default: 400) */
+  minReviews?: number;
+  /** Optimization steps (default: 100) */
+  iterations?: number;
+  /** Adam learning rate (default: 0.04) */
+  learningRate?: number;
+  /** Weights to start from (default: the ts-fsrs defaults) */
+  initialWeights?: number[];
+  /** Called after every step with the log loss so far */
+  onProgress?: (iteration: number, logLoss: number) => void;
+}
+
+/**
+ * How well weights predict recall
+ */
+export interface FSRSMetrics {
+  /** Mean log loss of the predicted recall probabilities */
+  logLoss: number;
+  /** Root mean square error of the predicted recall probabilities */
+  rmse: number;
+}
+
+/**
+ * Result of an optimization
+ */
+export interface FSRSOptimizationResult {
+  /** Fitted weights; the initial weights when fitting did not improve on them */
+  weights: number[];
+  /** Reviews the weights were evaluated on */
+  reviewCount: number;
+  /** Metrics of the initial weights */
+  before: FSRSMetrics;
+  /** Metrics of the fitted weights */
+  after: FSRSMetrics;
+}
+
+/**
+ * Thrown when there are too few reviews to optimize on
+ */
+export class InsufficientReviewsError extends Error {
+  constructor(
+    public readonly reviewCount: number,
+    public readonly minReviews: number
+  ) {
+    super(`Optimizing FSRS weights requires ${minReviews} reviews, found ${reviewCount}`);
+    this.name = 'InsufficientReviewsError';
+  }
+}
+
+/** Predicted probabilities are kept this far from 0 and 1 so the log loss stays finite */
+const EPSILON = 1e-6;
+
+/**
+ * Number of reviews weights are evaluated on: those a day or more after the
+ * previous review of the same item
+ */
+export function countEvaluableReviews(histories: FSRSReviewHistory[]): number {
+  let count = 0;
+  for (const history of histories) {
+    for (let i = 1; i < history.length; i++) {
+      if (dateDiffInDays(history[i - 1]!.timestamp, history[i]!.timestamp) > 0) count++;
+    }
+  }
+  return count;
+}
+
+/**
+ * Measure how well weights predict recall in review histories
+ */
+export function evaluateFSRSWeights(
+  histories: FSRSReviewHistory[],
+  weights: number[]
+): FSRSMetrics {
+  const algorithm = new FSRSAlgorithm({ w: weights, enable_short_term: true });
+  let logLoss = 0;
+  let squaredError = 0;
+  let count = 0;
+
+  for (const history of histories) {
+    let memory: { difficulty: number; stability: number } | null = null;
+    let lastReview: Date | null = null;
+
+    for (const { timestamp, rating } of history) {
+      const elapsedDays = lastReview ? dateDiffInDays(lastReview, timestamp) : 0;
+      if (memory && elapsedDays > 0) {
+        const recalled = rating > 1 ? 1 : 0;
+        const predicted = Math.min(
+          1 - EPSILON,
+          Math.max(EPSILON, algorithm.forgetting_curve(elapsedDays, memory.stability))
+        );
+        logLoss -= recalled * Math.log(predicted) + (1 - recalled) * Math.log(1 - predicted);
+        squaredError += (predicted - recalled) ** 2;
+        count++;
+      }
+      memory = algorithm.next_state(memory, Math.max(0, elapsedDays), rating);
+      lastReview = timestamp;
+    }
+  }
+
+  return count === 0
+    ? { logLoss: 0, rmse: 0 }
+    : { logLoss: logLoss / count, rmse: Math.sqrt(squaredError / count) };
+}
+
+/**
+ * Fit FSRS weights to review histories with Adam on finite-difference gradients
+ *
+ * @throws InsufficientReviewsError with fewer than `minReviews` evaluable reviews
+ */
+export function optimizeFSRSWeights(
+  histories: FSRSReviewHistory[],
+  options: FSRSOptimizerOptions = {}
+): FSRSOptimizationResult {
+  const minReviews = options.minReviews ?? 400;
+  const iterations = options.iterations ?? 100;
+  const learningRate = options.learningRate ?? 0.04;
+
+  const sorted = histories.map((history) =>
+    [...history].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  );
+  const reviewCount = countEvaluableReviews(sorted);
+  if (reviewCount < minReviews) {
+    throw new InsufficientReviewsError(reviewCount, minReviews);
+  }
+
+  const initialWeights = clampWeights(options.initialWeights ?? [...default_w]);
+  const loss = (weights: number[]) => evaluateFSRSWeights(sorted, weights).logLoss;
+
+  const weights = [...initialWeights];
+  const firstMoment = weights.map(() => 0);
+  const secondMoment = weights.map(() => 0);
+  let best = { weights: initialWeights, logLoss: loss(initialWeights) };
+  let current = best.logLoss;
+
+  for (let iteration = 1; iteration <= iterations; iteration++) {
+    const gradient = weights.map((weight, i) => {
+      const step = 1e-4 * Math.max(1, Math.abs(weight));
+      const shifted = [...weights];
+      shifted[i] = weight + step;
+      return (loss(shifted) - current) / step;
+    });
+
+    for (let i = 0; i < weights.length; i++) {
+      firstMoment[i] = 0.9 * firstMoment[i]! + 0.1 * gradient[i]!;
+      secondMoment[i] = 0.999 * secondMoment[i]! + 0.001 * gradient[i]! ** 2;
+      const corrected = firstMoment[i]! / (1 - 0.9 ** iteration);
+      const scale = Math.sqrt(secondMoment[i]! / (1 - 0.999 ** iteration)) + 1e-8;
+      weights[i] = weights[i]! - (learningRate * corrected) / scale;
+    }
+    const clamped = clampWeights(weights);
+    weights.splice(0, weights.length, ...clamped);
+
+    current = loss(weights);
+    if (current < best.logLoss) best = { weights: [...weights], logLoss: current };
+    options.onProgress?.(iteration, current);
+  }
+
+  return {
+    weights: best.weights,
+    reviewCount,
+    before: evaluateFSRSWeights(sorted, initialWeights),
+    after: evaluateFSRSWeights(sorted, best.weights),
+  };
+}
+
+function clampWeights(weights: number[]): number[] {
+  return weights.map((weight, i) => {
+    const [min, max] = CLAMP_PARAMETERS[i] ?? [-Infinity, Infinity];
+    return Math.min(max, Math.max(min, weight));
+  });
+}
@@ -0,0 +1,32 @@
+-- LRS database as created before schema migrations existed (schema version 0)
+CREATE TABLE IF NOT EXISTS xapi_statements (
+  id TEXT PRIMARY KEY,
+  statement TEXT NOT NULL,
+  actor TEXT NOT NULL,
+  verb_id TEXT NOT NULL,
+  object_id TEXT NOT NULL,
+  registration TEXT,
+  timestamp TEXT,
+  stored TEXT NOT NULL,
+  authority TEXT,
+  voided INTEGER NOT NULL DEFAULT 0
+);
+CREATE INDEX IF NOT EXISTS statements_verb_idx ON xapi_statements(verb_id);
+CREATE INDEX IF NOT EXISTS statements_object_idx ON xapi_statements(object_id);
+CREATE INDEX IF NOT EXISTS statements_registration_idx ON xapi_statements(registration);
+CREATE INDEX IF NOT EXISTS statements_timestamp_idx ON xapi_statements(timestamp);
+CREATE INDEX IF NOT EXISTS statements_stored_idx ON xapi_statements(stored);
+CREATE TABLE IF NOT EXISTS cmi5_state (
+  id TEXT PRIMARY KEY,
+  registration TEXT NOT NULL,
+  activity_id TEXT NOT NULL,
+  agent TEXT NOT NULL,
+  state_id TEXT NOT NULL,
+  state TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+CREATE INDEX IF NOT EXISTS cmi5_state_unique_idx ON cmi5_state(registration, activity_id, state_id);
+CREATE INDEX IF NOT EXISTS cmi5_state_registration_idx ON cmi5_state(registration);
+CREATE INDEX IF NOT EXISTS cmi5_state_activity_idx ON cmi5_state(activity_id);
+INSERT INTO xapi_statements (id, statement, actor, verb_id, object_id, registration, timestamp, stored, authority, voided) VALUES ('1e4c7d52-9a0b-4c3d-8e5f-6a7b8c9d0e1f', '{"id":"1e4c7d52-9a0b-4c3d-8e5f-6a7b8c9d0e1f","actor":{"mbox":"mailto:learner@example.com"},"verb":{"id":"http://adlnet.gov/expapi/verbs/completed"},"object":{"id":"https://example.com/course"},"stored":"2024-03-01T10:00:00.000Z","version":"1.0.0"}', '{"mbox":"mailto:learner@example.com"}', 'http://adlnet.gov/expapi/verbs/completed', 'https://example.com/course', NULL, '2024-03-01T10:00:00.000Z', '2024-03-01T10:00:00.000Z', NULL, 0);
+INSERT INTO cmi5_state (id, registration, activity_id, agent, state_id, state, updated_at) VALUES ('5a6b7c8d-1e2f-4a3b-9c4d-5e6f7a8b9c0d', 'registration-1', 'https://example.com/course', '{"mbox":"mailto:learner@example.com"}', 'progress', '{"completed":true}', '2024-03-01T10:00:00.000Z');
@@ -1,7 +1,8 @@
 /**
  * LRS Database
  *
- * Database connection and schema exports
+ * Database connection, schema and migration exports
  */
 
 export * from './schema';
+export * from './migrations';
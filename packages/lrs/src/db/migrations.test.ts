@@ -0,0 +1,98 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it, beforeEach } from 'vitest';
+import { createClient, type Client } from '@libsql/client-wasm';
+import { SCHEMA_MIGRATIONS, getSchemaVersion, migrate } from './migrations';
+
+const LATEST_VERSION = SCHEMA_MIGRATIONS[SCHEMA_MIGRATIONS.length - 1]!.version;
+
+async function loadFixture(client: Client, name: string): Promise<void> {
+  const sql = readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+  const statements = sql
+    .split(/;\s*$/m)
+    .map((statement) => statement.replace(/^--.*$/gm, '').trim())
+    .filter(Boolean);
+  await client.batch(statements, 'write');
+}
+
+async function tableNames(client: Client): Promise<string[]> {
+  const result = await client.execute(
+    "SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name"
+  );
+  return result.rows.map((row) => String(row[0]));
+}
+
+describe('schema migrations', () => {
+  let client: Client;
+
+  beforeEach(() => {
+    client = createClient({ url: ':memory:' });
+  });
+
+  it('creates the latest schema in an empty database', async () => {
+    const result = await migrate(client);
+
+    expect(result.fromVersion).toBe(0);
+    expect(result.toVersion).toBe(LATEST_VERSION);
+    expect(result.applied.map((migration) => migration.version)).toEqual(
+      SCHEMA_MIGRATIONS.map((migration) => migration.version)
+    );
+    expect(await tableNames(client)).toEqual(
+      expect.arrayContaining(['xapi_statements', 'cmi5_state', 'xapi_attachments'])
+    );
+  });
+
+  it('upgrades an unversioned database and keeps its data', async () => {
+    await loadFixture(client, 'unversioned.sql');
+
+    await migrate(client);
+
+    expect(await getSchemaVersion(client)).toBe(LATEST_VERSION);
+    const statements = await client.execute('SELECT id FROM xapi_statements');
+    expect(statements.rows.map((row) => String(row[0]))).toEqual([
+      '1e4c7d52-9a0b-4c3d-8e5f-6a7b8c9d0e1f',
+    ]);
+    const state = await client.execute('SELECT state FROM cmi5_state');
+    expect(JSON.parse(String(state.rows[0]![0]))).toEqual({ completed: true });
+  });
+
+  it('applies only pending migrations', async () => {
+    await migrate(client, { migrations: SCHEMA_MIGRATIONS.slice(0, 1) });
+    expect(await getSchemaVersion(client)).toBe(1);
+
+    const result = await migrate(client);
+    expect(result.fromVersion).toBe(1);
+    expect(result.applied[0]?.version).toBe(2);
+
+    expect((await migrate(client)).applied).toEqual([]);
+  });
+
+  it('reports pending migrations without applying them in a dry run', async () => {
+    await loadFixture(client, 'unversioned.sql');
+    const before = await tableNames(client);
+
+    const result = await migrate(client, { dryRun: true });
+
+    expect(result).toMatchObject({ fromVersion: 0, toVersion: 0, dryRun: true });
+    expect(result.applied).toHaveLength(SCHEMA_MIGRATIONS.length);
+    expect(await tableNames(client)).toEqual(before);
+    expect(await getSchemaVersion(client)).toBe(0);
+  });
+
+  it('rolls back a failing migration and keeps the previous version', async () => {
+    const broken = [
+      ...SCHEMA_MIGRATIONS,
+      {
+        version: LATEST_VERSION + 1,
+        name: 'broken',
+        statements: ['ALTER TABLE xapi_statements ADD COLUMN synced INTEGER', 'NOT SQL'],
+      },
+    ];
+
+    await expect(migrate(client, { migrations: broken })).rejects.toThrow();
+    await expect(migrate(client, { migrations: broken, dryRun: true })).rejects.toThrow();
+
+    expect(await getSchemaVersion(client)).toBe(LATEST_VERSION);
+    const columns = await client.execute('PRAGMA table_info(xapi_statements)');
+    expect(columns.rows.map((row) => String(row[1]))).not.toContain('synced');
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * LRS Schema Migrations
+ *
+ * Ordered up-migrations for the LRS database. The applied version is kept in
+ * the `schema_migrations` table, so databases already on learner devices are
+ * upgraded in place when the LRS opens them.
+ */
+
+import type { Client as LibSQLClient } from '@libsql/client-wasm';
+
+/**
+ * A schema change, applied once and in version order
+ */
+export interface Migration {
+  /** Schema version after this migration (1, 2, 3, ...) */
+  version: number;
+  /** Short description */
+  name: string;
+  /** SQL statements, run in one transaction */
+  statements: string[];
+}
+
+/**
+ * Options for running migrations
+ */
+export interface MigrationOptions {
+  /** Run pending migrations in a transaction that is rolled back (default: false) */
+  dryRun?: boolean;
+  /** Migrations to run (default: SCHEMA_MIGRATIONS) */
+  migrations?: Migration[];
+}
+
+/**
+ * Outcome of a migration run
+ */
+export interface MigrationResult {
+  /** Schema version before the run */
+  fromVersion: number;
+  /** Schema version after the run (unchanged for dry runs) */
+  toVersion: number;
+  /** Migrations that were applied, or would be applied in a dry run */
+  applied: Array<Pick<Migration, 'version' | 'name'>>;
+  /** Whether the run was a dry run */
+  dryRun: boolean;
+}
+
+/**
+ * Migrations of the LRS schema
+ * Version 1 is the schema LRS databases had before migrations existed. Its
+ * statements use IF NOT EXISTS so those databases adopt it without changes.
+ * Append new migrations; never edit one that has shipped.
+ */
+export const SCHEMA_MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'statements and cmi5 state',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS xapi_statements (
+        id TEXT PRIMARY KEY,
+        statement TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        verb_id TEXT NOT NULL,
+        object_id TEXT NOT NULL,
+        registration TEXT,
+        timestamp TEXT,
+        stored TEXT NOT NULL,
+        authority TEXT,
+        voided INTEGER NOT NULL DEFAULT 0
+      )`,
+      'CREATE INDEX IF NOT EXISTS statements_verb_idx ON xapi_statements(verb_id)',
+      'CREATE INDEX IF NOT EXISTS statements_object_idx ON xapi_statements(object_id)',
+      'CREATE INDEX IF NOT EXISTS statements_registration_idx ON xapi_statements(registration)',
+      'CREATE INDEX IF NOT EXISTS statements_timestamp_idx ON xapi_statements(timestamp)',
+      'CREATE INDEX IF NOT EXISTS statements_stored_idx ON xapi_statements(stored)',
+      `CREATE TABLE IF NOT EXISTS cmi5_state (
+        id TEXT PRIMARY KEY,
+        registration TEXT NOT NULL,
+        activity_id TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        state_id TEXT NOT NULL,
+        state TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS cmi5_state_unique_idx ON cmi5_state(registration, activity_id, state_id)',
+      'CREATE INDEX IF NOT EXISTS cmi5_state_registration_idx ON cmi5_state(registration)',
+      'CREATE INDEX IF NOT EXISTS cmi5_state_activity_idx ON cmi5_state(activity_id)',
+    ],
+  },
+  {
+    version: 2,
+    name: 'activity and agent profiles',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS xapi_activity_profiles (
+        id TEXT PRIMARY KEY,
+        activity_id TEXT NOT NULL,
+        profile_id TEXT NOT NULL,
+        profile TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      'CREATE UNIQUE INDEX IF NOT EXISTS activity_profiles_unique_idx ON xapi_activity_profiles(activity_id, profile_id)',
+      `CREATE TABLE IF NOT EXISTS xapi_agent_profiles (
+        id TEXT PRIMARY KEY,
+        agent_ifi TEXT NOT NULL,
+        agent TEXT NOT NULL,
+        profile_id TEXT NOT NULL,
+        profile TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+      'CREATE UNIQUE INDEX IF NOT EXISTS agent_profiles_unique_idx ON xapi_agent_profiles(agent_ifi, profile_id)',
+    ],
+  },
+  {
+    version: 3,
+    name: 'attachments',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS xapi_attachments (
+        sha2 TEXT PRIMARY KEY,
+        content_type TEXT NOT NULL,
+        length INTEGER NOT NULL,
+        content BLOB NOT NULL,
+        stored TEXT NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 4,
+    name: 'statement sync tracking',
+    statements: [
+      "ALTER TABLE xapi_statements ADD COLUMN sync_status TEXT NOT NULL DEFAULT 'pending'",
+      'ALTER TABLE xapi_statements ADD COLUMN sync_error TEXT',
+      'ALTER TABLE xapi_statements ADD COLUMN synced_at TEXT',
+      'CREATE INDEX IF NOT EXISTS statements_sync_idx ON xapi_statements(sync_status, stored, id)',
+    ],
+  },
+  {
+    version: 5,
+    name: 'sync metadata',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS sync_metadata (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS cmi5_state_updated_idx ON cmi5_state(updated_at)',
+    ],
+  },
+  {
+    version: 6,
+    name: 'fsrs review log',
+    statements: [
+      `CREATE TABLE IF NOT EXISTS fsrs_review_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        registration TEXT NOT NULL,
+        agent_ifi TEXT NOT NULL,
+        kubit_id TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        entry TEXT NOT NULL
+      )`,
+      'CREATE INDEX IF NOT EXISTS fsrs_review_log_kubit_idx ON fsrs_review_log(registration, agent_ifi, kubit_id, id)',
+    ],
+  },
+];
+
+/**
+ * Get the schema version of a database
+ *
+ * @returns The latest applied migration version, or 0 if none has been applied
+ */
+export async function getSchemaVersion(client: LibSQLClient): Promise<number> {
+  const table = await client.execute(
+    "SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'"
+  );
+  if (table.rows.length === 0) return 0;
+
+  const result = await client.execute('SELECT max(version) FROM schema_migrations');
+  return Number(result.rows[0]?.[0] ?? 0);
+}
+
+/**
+ * Apply pending migrations in version order
+ * Each migration runs in its own transaction together with its version record,
+ * so a failed migration leaves the database at the previous version
+ */
+export async function migrate(
+  client: LibSQLClient,
+  options: MigrationOptions = {}
+): Promise<MigrationResult> {
+  const { dryRun = false, migrations = SCHEMA_MIGRATIONS } = options;
+
+  const fromVersion = await getSchemaVersion(client);
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter((migration) => migration.version > fromVersion);
+  const applied = pending.map(({ version, name }) => ({ version, name }));
+
+  if (dryRun) {
+    // Run everything, then roll back, so broken SQL is reported without changing the database
+    await client.execute('BEGIN IMMEDIATE');
+    try {
+      for (const migration of pending) {
+        for (const statement of migration.statements) await client.execute(statement);
+      }
+    } finally {
+      await client.execute('ROLLBACK');
+    }
+    return { fromVersion, toVersion: fromVersion, applied, dryRun };
+  }
+
+  await client.execute(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  for (const migration of pending) {
+    await client.batch(
+      [
+        ...migration.statements,
+        {
+          sql: 'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+          args: [migration.version, migration.name, new Date().toISOString()],
+        },
+      ],
+      'write'
+    );
+  }
+
+  return {
+    fromVersion,
+    toVersion: pending[pending.length - 1]?.version ?? fromVersion,
+    applied,
+    dryRun,
+  };
+}
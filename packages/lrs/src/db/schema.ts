@@ -5,10 +5,18 @@
  * Uses SQLite for browser-based storage
  */
 
-import { sqliteTable, text, integer, index } from 'drizzle-orm/sqlite-core';
+import { sqliteTable, text, integer, blob, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 import { relations } from 'drizzle-orm';
 import type { Statement, Agent } from '../types/xapi';
 import type { CMI5State } from '../types/cmi5';
+import type { FSRSReviewLogEntry } from '../types/fsrs';
+
+/**
+ * Cloud sync status of a stored statement
+ * Failed statements are retried; rejected statements were refused by the remote
+ * LRS for good and are set aside
+ */
+export type StatementSyncStatus = 'pending' | 'in_flight' | 'synced' | 'failed' | 'rejected';
 
 /**
  * xAPI Statements table
@@ -34,6 +42,12 @@ export const statementsTable = sqliteTable('xapi_statements', {
   authority: text('authority', { mode: 'json' }).$type<Agent>(),
   /** Whether statement is voided */
   voided: integer('voided', { mode: 'boolean' }).default(false).notNull(),
+  /** Cloud sync status: pending, in_flight, synced or failed */
+  syncStatus: text('sync_status').$type<StatementSyncStatus>().default('pending').notNull(),
+  /** Error of the last failed sync attempt */
+  syncError: text('sync_error'),
+  /** When the remote LRS acknowledged the statement (ISO 8601) */
+  syncedAt: text('synced_at'),
 }, (table) => ({
   /** Index on verb for queries */
   verbIdx: index('statements_verb_idx').on(table.verbId),
@@ -45,6 +59,8 @@ export const statementsTable = sqliteTable('xapi_statements', {
   timestampIdx: index('statements_timestamp_idx').on(table.timestamp),
   /** Index on stored for time-based queries */
   storedIdx: index('statements_stored_idx').on(table.stored),
+  /** Index for finding unsynced statements in stored order */
+  syncIdx: index('statements_sync_idx').on(table.syncStatus, table.stored, table.id),
 }));
 
 /**
@@ -54,7 +70,7 @@ export const statementsTable = sqliteTable('xapi_statements', {
 export const cmi5StateTable = sqliteTable('cmi5_state', {
   /** State ID (UUID) */
   id: text('id').primaryKey(),
-  /** Registration ID */
+  /** Registration ID (empty string for documents not scoped to a registration) */
   registration: text('registration').notNull(),
   /** Activity ID (AU ID) */
   activityId: text('activity_id').notNull(),
@@ -77,6 +93,108 @@ export const cmi5StateTable = sqliteTable('cmi5_state', {
   registrationIdx: index('cmi5_state_registration_idx').on(table.registration),
   /** Index on activity for queries */
   activityIdx: index('cmi5_state_activity_idx').on(table.activityId),
+  /** Index on last update, for finding changes to sync */
+  updatedIdx: index('cmi5_state_updated_idx').on(table.updatedAt),
+}));
+
+/**
+ * xAPI Activity Profiles table
+ * One JSON document per activity and profileId
+ */
+export const activityProfilesTable = sqliteTable('xapi_activity_profiles', {
+  /** Row ID (UUID) */
+  id: text('id').primaryKey(),
+  /** Activity ID */
+  activityId: text('activity_id').notNull(),
+  /** Profile ID */
+  profileId: text('profile_id').notNull(),
+  /** Profile document JSON */
+  profile: text('profile', { mode: 'json' }).notNull(),
+  /** Last updated (ISO 8601) */
+  updatedAt: text('updated_at').notNull(),
+}, (table) => ({
+  /** Unique constraint on activity + profileId */
+  uniqueProfileIdx: uniqueIndex('activity_profiles_unique_idx').on(
+    table.activityId,
+    table.profileId
+  ),
+}));
+
+/**
+ * xAPI Agent Profiles table
+ * One JSON document per agent (by IFI) and profileId
+ */
+export const agentProfilesTable = sqliteTable('xapi_agent_profiles', {
+  /** Row ID (UUID) */
+  id: text('id').primaryKey(),
+  /** Agent IFI key (e.g. "mbox::mailto:learner@example.com") */
+  agentIfi: text('agent_ifi').notNull(),
+  /** Agent JSON, as last written */
+  agent: text('agent', { mode: 'json' }).$type<Agent>().notNull(),
+  /** Profile ID */
+  profileId: text('profile_id').notNull(),
+  /** Profile document JSON */
+  profile: text('profile', { mode: 'json' }).notNull(),
+  /** Last updated (ISO 8601) */
+  updatedAt: text('updated_at').notNull(),
+}, (table) => ({
+  /** Unique constraint on agent + profileId */
+  uniqueProfileIdx: uniqueIndex('agent_profiles_unique_idx').on(table.agentIfi, table.profileId),
+}));
+
+/**
+ * xAPI Attachments table
+ * Attachment content, keyed by SHA-2 hash so statements sharing a file store it once
+ */
+export const attachmentsTable = sqliteTable('xapi_attachments', {
+  /** SHA-2 hash of the content (hex) */
+  sha2: text('sha2').primaryKey(),
+  /** Content type */
+  contentType: text('content_type').notNull(),
+  /** Length in bytes */
+  length: integer('length').notNull(),
+  /** Raw content */
+  content: blob('content').notNull(),
+  /** When the content was first stored (ISO 8601) */
+  stored: text('stored').notNull(),
+});
+
+/**
+ * Sync metadata table
+ * Values cloud sync keeps between runs, such as pull cursors
+ */
+export const syncMetadataTable = sqliteTable('sync_metadata', {
+  /** Key */
+  key: text('key').primaryKey(),
+  /** Value */
+  value: text('value').notNull(),
+});
+
+/**
+ * FSRS review log table
+ * One row per review of a kubit, appended in review order
+ */
+export const fsrsReviewLogTable = sqliteTable('fsrs_review_log', {
+  /** Row ID, increasing in the order reviews were logged */
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  /** Registration ID */
+  registration: text('registration').notNull(),
+  /** Agent IFI key (e.g. "mbox::mailto:learner@example.com") */
+  agentIfi: text('agent_ifi').notNull(),
+  /** Kubit ID */
+  kubitId: text('kubit_id').notNull(),
+  /** Review timestamp (ISO 8601) */
+  timestamp: text('timestamp').notNull(),
+  /** Review JSON (FSRSReviewLogEntry) */
+  entry: text('entry', { mode: 'json' }).$type<FSRSReviewLogEntry>().notNull(),
+}, (table) => ({
+  /** Index for reading a learner's log per kubit in review order */
+  kubitIdx: index('fsrs_review_log_kubit_idx').on(
+    table.registration,
+    table.agentIfi,
+    table.kubitId,
+    table.id
+  ),
 }));
 
 /**
@@ -84,3 +202,8 @@ export const cmi5StateTable = sqliteTable('cmi5_state', {
  */
 export const statementsRelations = relations(statementsTable, () => ({}));
 export const cmi5StateRelations = relations(cmi5StateTable, () => ({}));
+export const activityProfilesRelations = relations(activityProfilesTable, () => ({}));
+export const agentProfilesRelations = relations(agentProfilesTable, () => ({}));
+export const attachmentsRelations = relations(attachmentsTable, () => ({}));
+export const syncMetadataRelations = relations(syncMetadataTable, () => ({}));
+export const fsrsReviewLogRelations = relations(fsrsReviewLogTable, () => ({}));
@@ -12,4 +12,11 @@ export * from './types/xapi';
 export * from './types/cmi5';
 export * from './types/fsrs';
 export * from './db';
-export * from './store/lrs-store';
\ No newline at end of file
+export * from './validation';
+export * from './store/errors';
+export * from './store/agents';
+export * from './store/activities';
+export * from './store/statement-format';
+export * from './store/documents';
+export * from './store/multipart';
+export * from './store/lrs-store';
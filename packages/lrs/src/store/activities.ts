@@ -0,0 +1,76 @@
+/**
+ * Activity Definitions
+ *
+ * Canonical activity definitions for the xAPI Activities resource, merged
+ * from every statement that mentions an activity.
+ */
+
+import type { Activity, InteractionComponent } from '../types/xapi';
+
+type JsonObject = Record<string, any>;
+
+const CONTEXT_ACTIVITY_KEYS = ['parent', 'grouping', 'category', 'other'] as const;
+const LANGUAGE_MAP_KEYS = ['name', 'description'] as const;
+const INTERACTION_COMPONENT_KEYS = ['choices', 'scale', 'source', 'target', 'steps'] as const;
+
+/**
+ * Find every occurrence of an activity in a statement
+ * Covers the object, context activities, and the same inside a SubStatement
+ */
+export function findActivities(statement: object, activityId: string): Activity[] {
+  const found: Activity[] = [];
+
+  const visit = (node: JsonObject) => {
+    const object = node.object;
+    if (object && (object.objectType ?? 'Activity') === 'Activity' && object.id === activityId) {
+      found.push(object);
+    }
+
+    const contextActivities = node.context?.contextActivities ?? {};
+    for (const key of CONTEXT_ACTIVITY_KEYS) {
+      const value = contextActivities[key];
+      const activities: JsonObject[] = Array.isArray(value) ? value : value ? [value] : [];
+      found.push(...(activities.filter((activity) => activity?.id === activityId) as Activity[]));
+    }
+
+    if (object?.objectType === 'SubStatement') visit(object);
+  };
+
+  visit(statement);
+  return found;
+}
+
+/**
+ * Merge a later occurrence of an activity into its canonical definition
+ * Language maps and extensions are merged key by key and interaction components by id,
+ * with the later occurrence winning; other definition properties are replaced when present
+ */
+export function mergeActivity(current: Activity, next: Activity): Activity {
+  if (!next.definition) return current;
+
+  const previous: JsonObject = current.definition ?? {};
+  const update: JsonObject = next.definition;
+  const definition: JsonObject = { ...previous, ...update };
+
+  for (const key of [...LANGUAGE_MAP_KEYS, 'extensions']) {
+    if (previous[key] && update[key]) definition[key] = { ...previous[key], ...update[key] };
+  }
+  for (const key of INTERACTION_COMPONENT_KEYS) {
+    if (previous[key] && update[key]) {
+      definition[key] = mergeComponents(previous[key], update[key]);
+    }
+  }
+
+  return { ...current, definition };
+}
+
+function mergeComponents(
+  previous: InteractionComponent[],
+  next: InteractionComponent[]
+): InteractionComponent[] {
+  return next.map((component) => {
+    const match = previous.find((candidate) => candidate.id === component.id);
+    if (!match?.description) return component;
+    return { ...component, description: { ...match.description, ...component.description } };
+  });
+}
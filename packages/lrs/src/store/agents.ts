@@ -0,0 +1,132 @@
+/**
+ * Agent Identity Helpers
+ *
+ * Agents and identified Groups are equal when they share an Inverse
+ * Functional Identifier (IFI). These helpers extract and normalize IFIs
+ * so agents can be matched regardless of name or objectType.
+ */
+
+import type { Agent, Group, Person } from '../types/xapi';
+
+/**
+ * Inverse Functional Identifier of an Agent or identified Group
+ */
+export type AgentIFI =
+  | { type: 'mbox'; value: string }
+  | { type: 'mbox_sha1sum'; value: string }
+  | { type: 'openid'; value: string }
+  | { type: 'account'; homePage: string; name: string };
+
+type AgentLike = Partial<Pick<Agent, 'mbox' | 'mbox_sha1sum' | 'openid' | 'account'>>;
+
+/**
+ * Get the IFI of an agent or identified group
+ *
+ * @returns The IFI, or null for anonymous groups and invalid agents
+ */
+export function getAgentIFI(agent: AgentLike | null | undefined): AgentIFI | null {
+  if (!agent) return null;
+  if (agent.mbox) return { type: 'mbox', value: agent.mbox };
+  if (agent.mbox_sha1sum) return { type: 'mbox_sha1sum', value: agent.mbox_sha1sum.toLowerCase() };
+  if (agent.openid) return { type: 'openid', value: agent.openid };
+  if (agent.account?.homePage && agent.account.name) {
+    return { type: 'account', homePage: agent.account.homePage, name: agent.account.name };
+  }
+  return null;
+}
+
+/**
+ * Get a stable string key for an agent's IFI (e.g. "mbox::mailto:learner@example.com")
+ *
+ * @returns The key, or null if the agent has no IFI
+ */
+export function getAgentIFIKey(agent: AgentLike | null | undefined): string | null {
+  const ifi = getAgentIFI(agent);
+  if (!ifi) return null;
+  if (ifi.type === 'account') return `account::${ifi.homePage}::${ifi.name}`;
+  return `${ifi.type}::${ifi.value}`;
+}
+
+/**
+ * Parse an agent given as a JSON string (as in xAPI query parameters) or object
+ *
+ * @throws Error if the agent JSON is invalid or has no IFI
+ */
+export function parseAgentParameter(agent: string | Agent | Group): Agent | Group {
+  let parsed: unknown = agent;
+  if (typeof agent === 'string') {
+    try {
+      parsed = JSON.parse(agent);
+    } catch {
+      throw new Error('Invalid agent JSON');
+    }
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || !getAgentIFI(parsed as AgentLike)) {
+    throw new Error('Agent must be identified by an IFI');
+  }
+
+  return parsed as Agent | Group;
+}
+
+/** JSON paths of statement properties that may hold an agent or group */
+const AGENT_PROPERTY_PATHS = [
+  ['actor'],
+  ['object'],
+  ['authority'],
+  ['context', 'instructor'],
+  ['context', 'team'],
+];
+
+/**
+ * Find every agent or group in a statement with the given IFI key
+ * Covers actor, object, authority, instructor and team, group members, and the same inside a SubStatement
+ */
+export function findAgents(statement: object, ifiKey: string): Array<Agent | Group> {
+  const found: Array<Agent | Group> = [];
+
+  const visit = (node: Record<string, any>) => {
+    for (const path of AGENT_PROPERTY_PATHS) {
+      const value = path.reduce<any>((object, key) => object?.[key], node);
+      if (typeof value !== 'object' || value === null) continue;
+
+      if (getAgentIFIKey(value) === ifiKey) found.push(value);
+      if (Array.isArray(value.member)) {
+        found.push(...value.member.filter((member: Agent) => getAgentIFIKey(member) === ifiKey));
+      }
+    }
+    if (node.object?.objectType === 'SubStatement') visit(node.object);
+  };
+
+  visit(statement);
+  return found;
+}
+
+/**
+ * Add an agent's names and IFI to a Person, skipping values it already has
+ */
+export function addToPerson(person: Person, agent: Agent | Group): Person {
+  const names = Array.isArray(agent.name) ? agent.name : agent.name ? [agent.name] : [];
+  for (const name of names) addUnique(person, 'name', name);
+
+  const ifi = getAgentIFI(agent);
+  if (ifi?.type === 'account') {
+    const exists = person.account?.some(
+      (account) => account.homePage === ifi.homePage && account.name === ifi.name
+    );
+    if (!exists) (person.account ??= []).push({ homePage: ifi.homePage, name: ifi.name });
+  } else if (ifi) {
+    addUnique(person, ifi.type, ifi.value);
+  }
+
+  return person;
+}
+
+function addUnique(
+  person: Person,
+  key: 'name' | 'mbox' | 'mbox_sha1sum' | 'openid',
+  value: string
+): void {
+  const values = (person[key] ??= []);
+  if (!values.includes(value)) values.push(value);
+}
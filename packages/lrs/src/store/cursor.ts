@@ -0,0 +1,56 @@
+/**
+ * Statement Query Cursors
+ *
+ * Encodes the position of the last returned statement, together with the
+ * query it belongs to, into the opaque `more` token of a StatementResult.
+ */
+
+import type { StatementQueryParams } from '../types/xapi';
+import { InvalidMoreTokenError } from './errors';
+
+/**
+ * Position after which the next page starts
+ * Statements are ordered by stored timestamp, with the id as tie-breaker
+ */
+export interface StatementCursor {
+  stored: string;
+  id: string;
+}
+
+interface MoreToken {
+  params: StatementQueryParams;
+  cursor: StatementCursor;
+}
+
+/**
+ * Encode a query and cursor as an opaque, URL-safe `more` token
+ */
+export function encodeMoreToken(params: StatementQueryParams, cursor: StatementCursor): string {
+  const json = JSON.stringify({ params, cursor } satisfies MoreToken);
+  const binary = String.fromCharCode(...new TextEncoder().encode(json));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode a `more` token produced by encodeMoreToken
+ *
+ * @throws InvalidMoreTokenError if the token is malformed
+ */
+export function decodeMoreToken(more: string): MoreToken {
+  try {
+    const binary = atob(more.replace(/-/g, '+').replace(/_/g, '/'));
+    const bytes = Uint8Array.from(binary, (char) => char.charCodeAt(0));
+    const token = JSON.parse(new TextDecoder().decode(bytes)) as MoreToken;
+
+    if (
+      typeof token?.params !== 'object' ||
+      typeof token.cursor?.stored !== 'string' ||
+      typeof token.cursor.id !== 'string'
+    ) {
+      throw new InvalidMoreTokenError();
+    }
+    return token;
+  } catch {
+    throw new InvalidMoreTokenError();
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Document Helpers
+ *
+ * Shared ETag preconditions and JSON merge rules for the xAPI document
+ * resources (State, Activity Profile and Agent Profile).
+ */
+
+import { DocumentMergeError, PreconditionFailedError } from './errors';
+
+/**
+ * A stored document with its concurrency metadata
+ */
+export interface StoredDocument<T = unknown> {
+  /** Document content */
+  content: T;
+  /** SHA-1 ETag of the stored content */
+  etag: string;
+  /** Last updated (ISO 8601) */
+  updated: string;
+}
+
+/**
+ * Preconditions for writing a document, as the If-Match / If-None-Match headers
+ */
+export interface DocumentWriteOptions {
+  /** Only write if the stored document has this ETag ('*' = any existing document) */
+  ifMatch?: string;
+  /** Only write if the stored document does not have this ETag ('*' = no document may exist) */
+  ifNoneMatch?: string;
+}
+
+/**
+ * Check write preconditions against the ETag of the stored document
+ *
+ * @param currentEtag - ETag of the stored document, or null if there is none
+ * @throws PreconditionFailedError if a precondition does not hold
+ */
+export function checkPreconditions(
+  options: DocumentWriteOptions,
+  currentEtag: string | null
+): void {
+  const { ifMatch, ifNoneMatch } = options;
+
+  if (ifMatch !== undefined) {
+    if (currentEtag === null) {
+      throw new PreconditionFailedError('Document does not exist', currentEtag);
+    }
+    if (ifMatch !== '*' && unquote(ifMatch) !== currentEtag) {
+      throw new PreconditionFailedError('Document was changed by another writer', currentEtag);
+    }
+  }
+
+  if (ifNoneMatch !== undefined && currentEtag !== null) {
+    if (ifNoneMatch === '*' || unquote(ifNoneMatch) === currentEtag) {
+      throw new PreconditionFailedError('Document already exists', currentEtag);
+    }
+  }
+}
+
+/**
+ * Merge a JSON document into a stored one, as for POST in the xAPI document APIs
+ * Top-level properties of the update replace those of the stored document
+ *
+ * @throws DocumentMergeError if either document is not a JSON object
+ */
+export function mergeDocuments(current: unknown, update: unknown): Record<string, unknown> {
+  if (!isJsonObject(update)) {
+    throw new DocumentMergeError('Only JSON objects can be merged into a document');
+  }
+  if (current === undefined) return { ...update };
+  if (!isJsonObject(current)) {
+    throw new DocumentMergeError('The stored document is not a JSON object and cannot be merged');
+  }
+  return { ...current, ...update };
+}
+
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function unquote(etag: string): string {
+  return etag.replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+}
@@ -0,0 +1,108 @@
+/**
+ * LRS Errors
+ *
+ * Typed errors raised by the LRS store so callers can tell xAPI
+ * rule violations apart from storage failures
+ */
+
+import type { StatementValidationIssue } from '../validation';
+
+/**
+ * Base class for all LRS errors
+ */
+export class LRSError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Raised when a voiding statement breaks the xAPI voiding rules
+ */
+export class StatementVoidingError extends LRSError {
+  constructor(
+    message: string,
+    /** ID of the statement the voiding statement targets */
+    public readonly targetId?: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Raised when a statement fails xAPI validation
+ */
+export class StatementValidationError extends LRSError {
+  constructor(
+    /** Validation problems with their error codes and JSON paths */
+    public readonly issues: StatementValidationIssue[]
+  ) {
+    const [first] = issues;
+    super(
+      first
+        ? `Invalid statement: ${first.message} at ${first.path}` +
+            (issues.length > 1 ? ` (and ${issues.length - 1} more)` : '')
+        : 'Invalid statement'
+    );
+  }
+}
+
+/**
+ * Raised when a `more` token cannot be decoded
+ */
+export class InvalidMoreTokenError extends LRSError {
+  constructor() {
+    super('Invalid or corrupted more token');
+  }
+}
+
+/**
+ * Raised when a statement reuses the id of a different stored statement
+ */
+export class StatementConflictError extends LRSError {
+  constructor(
+    /** ID shared by the stored and the conflicting statement */
+    public readonly statementId: string
+  ) {
+    super(`A different statement with id ${statementId} is already stored`);
+  }
+}
+
+/**
+ * Raised when an If-Match / If-None-Match precondition on a document fails
+ * Mirrors HTTP 412 Precondition Failed in the xAPI document APIs
+ */
+export class PreconditionFailedError extends LRSError {
+  constructor(
+    message: string,
+    /** ETag of the stored document, or null if there is none */
+    public readonly currentEtag: string | null
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Raised when a JSON merge is requested on documents that are not JSON objects
+ */
+export class DocumentMergeError extends LRSError {}
+
+/**
+ * Raised when attachment content is missing, unreferenced, or does not match
+ * the hash and length declared by its statement
+ */
+export class AttachmentError extends LRSError {
+  constructor(
+    message: string,
+    /** SHA-2 hash of the attachment */
+    public readonly sha2: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Raised when a multipart/mixed statement request cannot be parsed
+ */
+export class InvalidMultipartError extends LRSError {}
@@ -0,0 +1,34 @@
+/**
+ * Hashing Helpers
+ *
+ * Uses Web Crypto, which is available in browsers and Node 18+
+ */
+
+/**
+ * Hex-encoded SHA-1 digest of a string (used for document ETags)
+ */
+export async function sha1Hex(text: string): Promise<string> {
+  return digestHex('SHA-1', new TextEncoder().encode(text));
+}
+
+/** SHA-2 algorithm for each hex digest length */
+const SHA2_ALGORITHMS: Record<number, string> = {
+  64: 'SHA-256',
+  96: 'SHA-384',
+  128: 'SHA-512',
+};
+
+/**
+ * Hex-encoded SHA-2 digest of binary data (used for attachments)
+ *
+ * @param like - Existing SHA-2 hash whose length selects SHA-256, SHA-384 or SHA-512 (default SHA-256)
+ */
+export async function sha2Hex(data: Uint8Array, like?: string): Promise<string> {
+  const algorithm = (like && SHA2_ALGORITHMS[like.length]) || 'SHA-256';
+  return digestHex(algorithm, data as BufferSource);
+}
+
+async function digestHex(algorithm: string, data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest(algorithm, data);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,1054 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest';
+import type { Statement } from '@xapi/xapi';
+import { LRSStore } from './lrs-store';
+import {
+  AttachmentError,
+  DocumentMergeError,
+  InvalidMoreTokenError,
+  PreconditionFailedError,
+  StatementConflictError,
+  StatementValidationError,
+  StatementVoidingError,
+} from './errors';
+import { sha1Hex, sha2Hex } from './hash';
+import { XAPI_VOIDED_VERB_IRI } from '../types/xapi';
+import type { CMI5State } from '../types/cmi5';
+
+const actor = { mbox: 'mailto:test@example.com', name: 'Test User' };
+
+function completedStatement(id: string, activityId = 'https://example.com/activity'): Statement {
+  return {
+    id,
+    actor,
+    verb: { id: 'http://adlnet.gov/expapi/verbs/completed', display: { 'en-US': 'completed' } },
+    object: { id: activityId, objectType: 'Activity' },
+  };
+}
+
+function voidingStatement(id: string, targetId: string): Statement {
+  return {
+    id,
+    actor,
+    verb: { id: XAPI_VOIDED_VERB_IRI, display: { 'en-US': 'voided' } },
+    object: { id: targetId, objectType: 'StatementRef' },
+  };
+}
+
+describe('LRSStore (e2e)', () => {
+  let lrs: LRSStore;
+
+  beforeEach(async () => {
+    lrs = new LRSStore({
+      dbName: 'test-lrs.db',
+      inMemory: true,
+    });
+    await lrs.init();
+  });
+
+  describe('voiding', () => {
+    const targetId = '3f0a3c1e-51b4-4d5a-9a0e-6f0d4f6a1b01';
+    const voidingId = '3f0a3c1e-51b4-4d5a-9a0e-6f0d4f6a1b02';
+
+    it('hides voided statements from queries', async () => {
+      await lrs.storeStatement(completedStatement(targetId));
+      await lrs.storeStatement(voidingStatement(voidingId, targetId));
+
+      const result = await lrs.queryStatements({
+        verb: 'http://adlnet.gov/expapi/verbs/completed',
+      });
+      expect(result.statements).toHaveLength(0);
+
+      const byId = await lrs.queryStatements({ statementId: targetId });
+      expect(byId.statements).toHaveLength(0);
+    });
+
+    it('returns voided statements via voidedStatementId', async () => {
+      await lrs.storeStatement(completedStatement(targetId));
+      await lrs.storeStatement(voidingStatement(voidingId, targetId));
+
+      const result = await lrs.queryStatements({ voidedStatementId: targetId });
+      expect(result.statements).toHaveLength(1);
+
+      const notVoided = await lrs.queryStatements({ voidedStatementId: voidingId });
+      expect(notVoided.statements).toHaveLength(0);
+    });
+
+    it('keeps the voiding statement itself queryable', async () => {
+      await lrs.storeStatement(completedStatement(targetId));
+      await lrs.storeStatement(voidingStatement(voidingId, targetId));
+
+      const result = await lrs.queryStatements({ verb: XAPI_VOIDED_VERB_IRI });
+      expect(result.statements).toHaveLength(1);
+    });
+
+    it('voids a target that arrives after its voiding statement', async () => {
+      await lrs.storeStatement(voidingStatement(voidingId, targetId));
+      await lrs.storeStatement(completedStatement(targetId));
+
+      const result = await lrs.queryStatements({ statementId: targetId });
+      expect(result.statements).toHaveLength(0);
+    });
+
+    it('rejects voiding a voiding statement', async () => {
+      await lrs.storeStatement(completedStatement(targetId));
+      await lrs.storeStatement(voidingStatement(voidingId, targetId));
+
+      await expect(
+        lrs.storeStatement(voidingStatement('3f0a3c1e-51b4-4d5a-9a0e-6f0d4f6a1b03', voidingId))
+      ).rejects.toBeInstanceOf(StatementVoidingError);
+    });
+
+    it('rejects voiding statements without a StatementRef object', async () => {
+      const statement: Statement = {
+        actor,
+        verb: { id: XAPI_VOIDED_VERB_IRI, display: { 'en-US': 'voided' } },
+        object: { id: 'https://example.com/activity', objectType: 'Activity' },
+      };
+
+      await expect(lrs.storeStatement(statement)).rejects.toBeInstanceOf(StatementVoidingError);
+    });
+  });
+
+  describe('validation', () => {
+    it('rejects invalid statements before storing them', async () => {
+      const statement = {
+        ...completedStatement('3f0a3c1e-51b4-4d5a-9a0e-6f0d4f6a1b04'),
+        result: { score: { scaled: 2 } },
+      };
+
+      const error = await lrs.storeStatement(statement).catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(StatementValidationError);
+      expect((error as StatementValidationError).issues).toEqual([
+        expect.objectContaining({ code: 'score_out_of_range', path: '$.result.score.scaled' }),
+      ]);
+
+      const result = await lrs.queryStatements({});
+      expect(result.statements).toHaveLength(0);
+    });
+  });
+
+  describe('query parameters', () => {
+    const other = { mbox: 'mailto:other@example.com', name: 'Other User' };
+    const course = 'https://example.com/course';
+
+    function statement(id: string, overrides: Partial<Statement> = {}): Statement {
+      return { ...completedStatement(`3f0a3c1e-51b4-4d5a-9a0e-6f0d4f6a1c${id}`), ...overrides };
+    }
+
+    function ids(result: { statements: Statement[] }): string[] {
+      return result.statements.map((s) => s.id!.slice(-2));
+    }
+
+    it('filters by agent IFI on actor or object', async () => {
+      await lrs.storeStatement(statement('01'));
+      await lrs.storeStatement(statement('02', { actor: other }));
+      await lrs.storeStatement(
+        statement('03', { actor: other, object: { objectType: 'Agent', ...actor } })
+      );
+
+      const result = await lrs.queryStatements({
+        agent: JSON.stringify({ mbox: actor.mbox }),
+        ascending: true,
+      });
+      expect(ids(result)).toEqual(['01', '03']);
+    });
+
+    it('matches group members and context agents only with related_agents', async () => {
+      const team = { objectType: 'Group' as const, member: [other, actor] };
+      await lrs.storeStatement(statement('01', { actor: team }));
+      await lrs.storeStatement(statement('02', { actor: other, context: { instructor: actor } }));
+      await lrs.storeStatement(statement('03', { actor: other }));
+
+      const direct = await lrs.queryStatements({ agent: { mbox: actor.mbox } });
+      expect(ids(direct)).toEqual([]);
+
+      const related = await lrs.queryStatements({
+        agent: { mbox: actor.mbox },
+        related_agents: true,
+        ascending: true,
+      });
+      expect(ids(related)).toEqual(['01', '02']);
+    });
+
+    it('matches context activities and sub-statements only with related_activities', async () => {
+      await lrs.storeStatement(statement('01', { object: { id: course, objectType: 'Activity' } }));
+      await lrs.storeStatement(
+        statement('02', { context: { contextActivities: { parent: { id: course } } } })
+      );
+      await lrs.storeStatement(
+        statement('03', {
+          object: {
+            objectType: 'SubStatement',
+            actor,
+            verb: { id: 'http://adlnet.gov/expapi/verbs/attempted' },
+            object: { id: course },
+          },
+        })
+      );
+      await lrs.storeStatement(statement('04'));
+
+      const direct = await lrs.queryStatements({ activity: course });
+      expect(ids(direct)).toEqual(['01']);
+
+      const related = await lrs.queryStatements({
+        activity: course,
+        related_activities: true,
+        ascending: true,
+      });
+      expect(ids(related)).toEqual(['01', '02', '03']);
+    });
+
+    it('orders by stored time, newest first unless ascending', async () => {
+      await lrs.storeStatement(statement('01'));
+      await lrs.storeStatement(statement('02'));
+      await lrs.storeStatement(statement('03'));
+
+      expect(ids(await lrs.queryStatements({}))).toEqual(['03', '02', '01']);
+      expect(ids(await lrs.queryStatements({ ascending: true }))).toEqual(['01', '02', '03']);
+    });
+
+    it('stores id, stored and version on the statement', async () => {
+      const id = await lrs.storeStatement({ ...completedStatement(''), id: undefined });
+
+      const stored = await lrs.getStatement(id);
+      expect(stored).toMatchObject({ id, version: '1.0.0', stored: expect.any(String) });
+    });
+
+    it('returns the ids format', async () => {
+      await lrs.storeStatement(
+        statement('01', {
+          object: {
+            id: course,
+            objectType: 'Activity',
+            definition: { name: { 'en-US': 'Course' } },
+          },
+        })
+      );
+
+      const [result] = (await lrs.queryStatements({ format: 'ids' })).statements;
+      expect(result!.actor).toEqual({ objectType: 'Agent', mbox: actor.mbox });
+      expect(result!.verb).toEqual({ id: 'http://adlnet.gov/expapi/verbs/completed' });
+      expect(result!.object).toEqual({ objectType: 'Activity', id: course });
+    });
+
+    it('returns the canonical format in the preferred language', async () => {
+      await lrs.storeStatement(
+        statement('01', {
+          verb: {
+            id: 'http://adlnet.gov/expapi/verbs/completed',
+            display: { 'en-US': 'completed', 'fr-FR': 'terminé' },
+          },
+          object: {
+            id: course,
+            objectType: 'Activity',
+            definition: { name: { 'en-US': 'Course', 'fr-FR': 'Cours' } },
+          },
+        })
+      );
+
+      const [french] = (await lrs.queryStatements({ format: 'canonical', languages: ['fr'] }))
+        .statements;
+      expect(french!.verb.display).toEqual({ 'fr-FR': 'terminé' });
+      expect((french!.object as { definition: unknown }).definition).toEqual({
+        name: { 'fr-FR': 'Cours' },
+      });
+
+      const [fallback] = (await lrs.queryStatements({ format: 'canonical' })).statements;
+      expect(fallback!.verb.display).toEqual({ 'en-US': 'completed' });
+    });
+  });
+
+  describe('pagination', () => {
+    const statementIds = Array.from(
+      { length: 5 },
+      (_, i) => `3f0a3c1e-51b4-4d5a-9a0e-6f0d4f6a1d0${i}`
+    );
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    async function collect(params: { limit: number; ascending?: boolean }): Promise<string[]> {
+      const collected: string[] = [];
+      let page = await lrs.queryStatements(params);
+      collected.push(...page.statements.map((s) => s.id!));
+      while (page.more) {
+        page = await lrs.getMoreStatements(page.more);
+        collected.push(...page.statements.map((s) => s.id!));
+      }
+      return collected;
+    }
+
+    it('returns a more token only when another page follows', async () => {
+      for (const id of statementIds) await lrs.storeStatement(completedStatement(id));
+
+      const first = await lrs.queryStatements({ limit: 2 });
+      expect(first.statements).toHaveLength(2);
+      expect(first.more).toEqual(expect.any(String));
+
+      const all = await lrs.queryStatements({ limit: 5 });
+      expect(all.more).toBeUndefined();
+    });
+
+    it('pages through every statement exactly once in either order', async () => {
+      for (const id of statementIds) await lrs.storeStatement(completedStatement(id));
+
+      expect(await collect({ limit: 2 })).toEqual([...statementIds].reverse());
+      expect(await collect({ limit: 2, ascending: true })).toEqual(statementIds);
+    });
+
+    it('breaks ties on the stored timestamp by id', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-01-15T10:30:00.000Z'));
+      for (const id of [...statementIds].reverse())
+        await lrs.storeStatement(completedStatement(id));
+
+      expect(await collect({ limit: 2, ascending: true })).toEqual(statementIds);
+    });
+
+    it('keeps the query filters when resuming', async () => {
+      for (const id of statementIds) {
+        await lrs.storeStatement(
+          completedStatement(id, `https://example.com/activity/${id.slice(-1)}`)
+        );
+      }
+      await lrs.storeStatement(completedStatement('3f0a3c1e-51b4-4d5a-9a0e-6f0d4f6a1d09'));
+
+      const first = await lrs.queryStatements({
+        activity: 'https://example.com/activity',
+        limit: 1,
+      });
+      expect(first.statements).toHaveLength(1);
+      expect(first.more).toBeUndefined();
+    });
+
+    it('streams all pages', async () => {
+      for (const id of statementIds) await lrs.storeStatement(completedStatement(id));
+
+      const pages: Statement[][] = [];
+      for await (const page of lrs.streamStatements({ limit: 2, ascending: true })) {
+        pages.push(page);
+      }
+      expect(pages.map((page) => page.length)).toEqual([2, 2, 1]);
+    });
+
+    it('rejects malformed more tokens', async () => {
+      await expect(lrs.getMoreStatements('not-a-token')).rejects.toBeInstanceOf(
+        InvalidMoreTokenError
+      );
+    });
+  });
+
+  describe('id conflicts', () => {
+    const statementId = '3f0a3c1e-51b4-4d5a-9a0e-6f0d4f6a1e01';
+
+    it('treats re-sending an identical statement as a no-op', async () => {
+      const statement = {
+        ...completedStatement(statementId),
+        timestamp: '2024-01-15T10:30:00.000Z',
+      };
+      await lrs.storeStatement(statement);
+
+      const resent = await lrs.storeStatement({
+        ...statement,
+        timestamp: '2024-01-15T12:30:00.000+02:00',
+        version: '1.0.3',
+        stored: '2024-02-01T00:00:00.000Z',
+        authority: { mbox: 'mailto:lrs@example.com', objectType: 'Agent' },
+      });
+
+      expect(resent).toBe(statementId);
+      const result = await lrs.queryStatements({});
+      expect(result.statements).toHaveLength(1);
+      expect(result.statements[0]!.version).toBe('1.0.0');
+    });
+
+    it('rejects a different statement with the same id', async () => {
+      await lrs.storeStatement(completedStatement(statementId));
+
+      const error = await lrs
+        .storeStatement(completedStatement(statementId, 'https://example.com/other'))
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(StatementConflictError);
+      expect((error as StatementConflictError).statementId).toBe(statementId);
+    });
+
+    it('detects conflicts with voided statements', async () => {
+      await lrs.storeStatement(completedStatement(statementId));
+      await lrs.storeStatement(
+        voidingStatement('3f0a3c1e-51b4-4d5a-9a0e-6f0d4f6a1e02', statementId)
+      );
+
+      await expect(lrs.storeStatement(completedStatement(statementId))).resolves.toBe(statementId);
+      await expect(
+        lrs.storeStatement(completedStatement(statementId, 'https://example.com/other'))
+      ).rejects.toBeInstanceOf(StatementConflictError);
+    });
+  });
+
+  describe('batch insert', () => {
+    const batchIds = Array.from({ length: 3 }, (_, i) => `3f0a3c1e-51b4-4d5a-9a0e-6f0d4f6a1f0${i}`);
+
+    it('stores a batch and returns ids in order', async () => {
+      const statements = [
+        completedStatement(batchIds[0]!),
+        { ...completedStatement(''), id: undefined },
+        completedStatement(batchIds[2]!),
+      ];
+
+      const ids = await lrs.storeStatements(statements);
+      expect(ids).toHaveLength(3);
+      expect(ids[0]).toBe(batchIds[0]);
+      expect(ids[2]).toBe(batchIds[2]);
+      expect((await lrs.queryStatements({})).statements).toHaveLength(3);
+    });
+
+    it('validates every statement before writing any', async () => {
+      const invalid = { ...completedStatement(batchIds[1]!), verb: { id: 'completed' } };
+
+      const error = await lrs
+        .storeStatements([completedStatement(batchIds[0]!), invalid])
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(StatementValidationError);
+      expect((error as StatementValidationError).issues[0]!.path).toBe('$[1].verb.id');
+      expect((await lrs.queryStatements({})).statements).toHaveLength(0);
+    });
+
+    it('writes nothing when a statement conflicts', async () => {
+      await lrs.storeStatement(completedStatement(batchIds[2]!));
+
+      await expect(
+        lrs.storeStatements([
+          completedStatement(batchIds[0]!),
+          completedStatement(batchIds[2]!, 'https://example.com/other'),
+        ])
+      ).rejects.toBeInstanceOf(StatementConflictError);
+      expect((await lrs.queryStatements({})).statements).toHaveLength(1);
+    });
+
+    it('skips statements repeated within the batch or already stored', async () => {
+      await lrs.storeStatement(completedStatement(batchIds[0]!));
+
+      const ids = await lrs.storeStatements([
+        completedStatement(batchIds[0]!),
+        completedStatement(batchIds[1]!),
+        completedStatement(batchIds[1]!),
+      ]);
+      expect(ids).toEqual([batchIds[0], batchIds[1], batchIds[1]]);
+      expect((await lrs.queryStatements({})).statements).toHaveLength(2);
+    });
+
+    it('applies voiding statements within the batch', async () => {
+      await lrs.storeStatements([
+        voidingStatement(batchIds[1]!, batchIds[0]!),
+        completedStatement(batchIds[0]!),
+      ]);
+
+      expect((await lrs.queryStatements({ statementId: batchIds[0] })).statements).toHaveLength(0);
+      expect(
+        (await lrs.queryStatements({ voidedStatementId: batchIds[0] })).statements
+      ).toHaveLength(1);
+    });
+  });
+
+  describe('state documents', () => {
+    const activityId = 'https://example.com/activity';
+    const learner = { mbox: 'mailto:learner@example.com', name: 'Learner' };
+    const otherLearner = { mbox: 'mailto:other@example.com', name: 'Other' };
+
+    function state(registration: string): CMI5State {
+      return {
+        registration,
+        launchMode: 'Normal',
+        objectiveStates: {},
+        progress: { completedLessons: [], timeSpent: 0 },
+        completed: false,
+      };
+    }
+
+    it('scopes documents to the agent by IFI', async () => {
+      await lrs.saveCMI5State('registration-1', activityId, learner, 'progress', state('mine'));
+      await lrs.saveCMI5State(
+        'registration-1',
+        activityId,
+        otherLearner,
+        'progress',
+        state('theirs')
+      );
+
+      const mine = await lrs.getCMI5State(
+        'registration-1',
+        activityId,
+        { mbox: learner.mbox },
+        'progress'
+      );
+      expect(mine?.registration).toBe('mine');
+
+      await lrs.deleteCMI5State('registration-1', activityId, otherLearner, 'progress');
+      expect(
+        await lrs.getCMI5State('registration-1', activityId, learner, 'progress')
+      ).not.toBeNull();
+      expect(
+        await lrs.getCMI5State('registration-1', activityId, otherLearner, 'progress')
+      ).toBeNull();
+    });
+
+    it('treats documents without a registration as their own scope', async () => {
+      await lrs.saveCMI5State(null, activityId, learner, 'progress', state('none'));
+
+      expect((await lrs.getCMI5State(null, activityId, learner, 'progress'))?.registration).toBe(
+        'none'
+      );
+      expect(await lrs.getCMI5State('registration-1', activityId, learner, 'progress')).toBeNull();
+    });
+
+    it('rejects agents without an IFI', async () => {
+      await expect(
+        lrs.saveCMI5State(null, activityId, { name: 'Anonymous' }, 'progress', state('none'))
+      ).rejects.toThrow('Agent must be identified by an IFI');
+    });
+
+    it('lists stateIds, optionally since a time', async () => {
+      await lrs.saveCMI5State('registration-1', activityId, learner, 'a', state('a'));
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      const since = new Date().toISOString();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await lrs.saveCMI5State('registration-1', activityId, learner, 'b', state('b'));
+      await lrs.saveCMI5State('registration-1', activityId, otherLearner, 'c', state('c'));
+
+      expect(await lrs.listCMI5StateIds('registration-1', activityId, learner)).toEqual(['a', 'b']);
+      expect(await lrs.listCMI5StateIds('registration-1', activityId, learner, since)).toEqual([
+        'b',
+      ]);
+    });
+
+    const fsrs = {
+      stability: 0,
+      difficulty: 0,
+      elapsedDays: 0,
+      scheduledDays: 0,
+      reps: 0,
+      lapses: 0,
+      state: 'new' as const,
+    };
+    const review = (timestamp: string) => ({
+      timestamp,
+      activity: 'recognition',
+      rating: 3 as const,
+      responseTime: 1000,
+      wasCorrect: true,
+      stateBefore: fsrs,
+      stateAfter: { ...fsrs, reps: 1 },
+    });
+
+    it('appends FSRS reviews to a log kept apart from the FSRS state', async () => {
+      const now = '2026-01-01T00:00:00.000Z';
+      await lrs.saveFSRSState('registration-1', 'vocab:hola', learner, fsrs, 0, now, now, 1);
+      await lrs.appendFSRSReviewLog('registration-1', 'vocab:hola', learner, review(now));
+      await lrs.appendFSRSReviewLog('registration-1', 'vocab:hola', learner, review(now));
+      await lrs.appendFSRSReviewLog('registration-1', 'vocab:adios', otherLearner, review(now));
+
+      expect(await lrs.getFSRSReviewLog('registration-1', 'vocab:hola', learner)).toEqual([
+        review(now),
+        review(now),
+      ]);
+      expect(await lrs.getFSRSReviewLog('registration-2', 'vocab:hola', learner)).toEqual([]);
+      expect([...(await lrs.getAllFSRSReviewLogs('registration-1', learner)).keys()]).toEqual([
+        'vocab:hola',
+      ]);
+      expect([...(await lrs.getAllFSRSStates('registration-1', learner)).keys()]).toEqual([
+        'vocab:hola',
+      ]);
+      // Only the FSRS state is a state document, copied by state sync
+      expect((await lrs.listCMI5StateChanges()).map((change) => change.stateId)).toEqual([
+        'fsrs:vocab:hola',
+      ]);
+    });
+
+    it('records an FSRS review with its state, or neither', async () => {
+      const now = '2026-01-01T00:00:00.000Z';
+      const extension = { fsrs, mastery: 0.2, lastReview: now, nextReview: now, reviewCount: 1 };
+      await lrs.recordFSRSReview('registration-1', 'vocab:hola', learner, extension, review(now));
+
+      expect(await lrs.getFSRSState('registration-1', 'vocab:hola', learner)).toMatchObject({
+        mastery: 0.2,
+      });
+      expect(await lrs.getFSRSReviewLog('registration-1', 'vocab:hola', learner)).toEqual([
+        review(now),
+      ]);
+
+      // The log row cannot be stored without a timestamp, so the state is not saved either
+      await expect(
+        lrs.recordFSRSReview(
+          'registration-1',
+          'vocab:hola',
+          learner,
+          { ...extension, mastery: 0.4, reviewCount: 2 },
+          { ...review(now), timestamp: undefined as never }
+        )
+      ).rejects.toThrow();
+      expect(await lrs.getFSRSState('registration-1', 'vocab:hola', learner)).toMatchObject({
+        mastery: 0.2,
+      });
+      expect(await lrs.getFSRSReviewLog('registration-1', 'vocab:hola', learner)).toHaveLength(1);
+    });
+
+    it('stores the FSRS scheduler configuration per registration', async () => {
+      expect(await lrs.getFSRSSchedulerConfig('registration-1', learner)).toBeNull();
+
+      await lrs.saveFSRSSchedulerConfig('registration-1', learner, { requestRetention: 0.85 });
+      await lrs.saveFSRSSchedulerConfig('registration-1', learner, { weights: [0.4, 1.2] });
+
+      expect(await lrs.getFSRSSchedulerConfig('registration-1', learner)).toEqual({
+        weights: [0.4, 1.2],
+      });
+      expect(await lrs.getFSRSSchedulerConfig('registration-2', learner)).toBeNull();
+      expect(await lrs.getAllFSRSStates('registration-1', learner)).toEqual(new Map());
+    });
+  });
+
+  describe('state document writes', () => {
+    const activityId = 'https://example.com/activity';
+    const learner = { mbox: 'mailto:learner@example.com', name: 'Learner' };
+
+    function state(timeSpent: number): CMI5State {
+      return {
+        registration: 'registration-1',
+        launchMode: 'Normal',
+        objectiveStates: {},
+        progress: { completedLessons: [], timeSpent },
+        completed: false,
+      };
+    }
+
+    it('replaces the stored document on save', async () => {
+      await lrs.saveCMI5State('registration-1', activityId, learner, 'progress', state(1));
+      await lrs.saveCMI5State('registration-1', activityId, learner, 'progress', state(2));
+
+      const document = await lrs.getCMI5StateDocument(
+        'registration-1',
+        activityId,
+        learner,
+        'progress'
+      );
+      expect(document?.content.progress.timeSpent).toBe(2);
+    });
+
+    it('returns the ETag of the stored document', async () => {
+      const etag = await lrs.saveCMI5State(
+        'registration-1',
+        activityId,
+        learner,
+        'progress',
+        state(1)
+      );
+
+      const document = await lrs.getCMI5StateDocument(
+        'registration-1',
+        activityId,
+        learner,
+        'progress'
+      );
+      expect(document?.etag).toBe(etag);
+      expect(etag).toMatch(/^[0-9a-f]{40}$/);
+    });
+
+    it('merges JSON objects into the stored document', async () => {
+      await lrs.saveCMI5State('registration-1', activityId, learner, 'progress', state(1));
+      await lrs.mergeCMI5State('registration-1', activityId, learner, 'progress', {
+        completed: true,
+      });
+
+      const stored = await lrs.getCMI5State('registration-1', activityId, learner, 'progress');
+      expect(stored).toMatchObject({ completed: true, progress: { timeSpent: 1 } });
+    });
+
+    it('rejects merging into a document that is not a JSON object', async () => {
+      await lrs.saveCMI5State('registration-1', activityId, learner, 'list', [1, 2] as never);
+
+      await expect(
+        lrs.mergeCMI5State('registration-1', activityId, learner, 'list', { a: 1 })
+      ).rejects.toBeInstanceOf(DocumentMergeError);
+    });
+
+    it('enforces If-Match', async () => {
+      const etag = await lrs.saveCMI5State(
+        'registration-1',
+        activityId,
+        learner,
+        'progress',
+        state(1)
+      );
+      await lrs.saveCMI5State('registration-1', activityId, learner, 'progress', state(2), {
+        ifMatch: etag,
+      });
+
+      const error = await lrs
+        .saveCMI5State('registration-1', activityId, learner, 'progress', state(3), {
+          ifMatch: etag,
+        })
+        .catch((e: unknown) => e);
+      expect(error).toBeInstanceOf(PreconditionFailedError);
+      expect((error as PreconditionFailedError).currentEtag).not.toBe(etag);
+
+      const stored = await lrs.getCMI5State('registration-1', activityId, learner, 'progress');
+      expect(stored?.progress.timeSpent).toBe(2);
+    });
+
+    it('enforces If-None-Match', async () => {
+      await lrs.saveCMI5State('registration-1', activityId, learner, 'progress', state(1), {
+        ifNoneMatch: '*',
+      });
+
+      await expect(
+        lrs.saveCMI5State('registration-1', activityId, learner, 'progress', state(2), {
+          ifNoneMatch: '*',
+        })
+      ).rejects.toBeInstanceOf(PreconditionFailedError);
+    });
+  });
+
+  describe('sync tracking', () => {
+    const id = (n: string) => `9d3f1b7c-2e4a-4c6d-8f0b-1a3c5e7f9b${n}`;
+
+    it('tracks new statements as pending in stored order', async () => {
+      await lrs.storeStatement(completedStatement(id('02')));
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await lrs.storeStatement(completedStatement(id('01')));
+
+      const unsynced = await lrs.getUnsyncedStatements();
+      expect(unsynced.map((s) => s.id)).toEqual([id('02'), id('01')]);
+      expect(await lrs.countUnsyncedStatements()).toBe(2);
+      expect(await lrs.getStatementSyncStatus(id('01'))).toEqual({ status: 'pending' });
+    });
+
+    it('moves statements through in flight, failed and synced', async () => {
+      await lrs.storeStatements([completedStatement(id('01')), completedStatement(id('02'))]);
+
+      await lrs.markStatementsInFlight([id('01'), id('02')]);
+      expect(await lrs.getUnsyncedStatements()).toEqual([]);
+      expect(await lrs.countUnsyncedStatements()).toBe(2);
+
+      await lrs.markStatementsFailed([id('01')], 'Network error');
+      await lrs.markStatementsSynced([id('02')]);
+      expect(await lrs.getStatementSyncStatus(id('01'))).toEqual({
+        status: 'failed',
+        error: 'Network error',
+      });
+      expect((await lrs.getUnsyncedStatements()).map((s) => s.id)).toEqual([id('01')]);
+
+      await lrs.markStatementsSynced([id('01')]);
+      expect(await lrs.getStatementSyncStatus(id('01'))).toEqual({ status: 'synced' });
+      expect(await lrs.countUnsyncedStatements()).toBe(0);
+    });
+
+    it('sets rejected statements aside', async () => {
+      await lrs.storeStatements([completedStatement(id('01')), completedStatement(id('02'))]);
+
+      await lrs.markStatementsRejected([id('01')], 'Cloud sync failed: 400 Bad Request');
+      expect(await lrs.getStatementSyncStatus(id('01'))).toEqual({
+        status: 'rejected',
+        error: 'Cloud sync failed: 400 Bad Request',
+      });
+      expect((await lrs.getUnsyncedStatements()).map((s) => s.id)).toEqual([id('02')]);
+      expect(await lrs.countUnsyncedStatements()).toBe(1);
+
+      await lrs.markStatementsSynced([id('02')]);
+      expect(await lrs.listUnsyncedRegistrations()).toEqual([]);
+      expect(await lrs.countRejectedStatements()).toBe(1);
+      expect(await lrs.getRejectedStatements()).toEqual([
+        {
+          statement: expect.objectContaining({ id: id('01') }),
+          error: 'Cloud sync failed: 400 Bad Request',
+        },
+      ]);
+
+      await lrs.retryRejectedStatements();
+      expect(await lrs.getStatementSyncStatus(id('01'))).toEqual({ status: 'pending' });
+      expect(await lrs.countRejectedStatements()).toBe(0);
+    });
+
+    it('limits unsynced statements and resets those left in flight', async () => {
+      await lrs.storeStatements([
+        completedStatement(id('01')),
+        completedStatement(id('02')),
+        completedStatement(id('03')),
+      ]);
+      await lrs.markStatementsInFlight([id('01')]);
+
+      expect((await lrs.getUnsyncedStatements(1)).map((s) => s.id)).toEqual([id('02')]);
+
+      await lrs.resetInFlightStatements();
+      expect((await lrs.getUnsyncedStatements(1)).map((s) => s.id)).toEqual([id('01')]);
+    });
+
+    it('groups unsynced statements by registration in batch order', async () => {
+      const inRegistration = (n: string, registration?: string): Statement => ({
+        ...completedStatement(id(n)),
+        ...(registration ? { context: { registration } } : {}),
+      });
+      const registration = 'f1e2d3c4-b5a6-4978-8a9b-0c1d2e3f4a5b';
+      await lrs.storeStatements([
+        inRegistration('03', registration),
+        inRegistration('02'),
+        inRegistration('01', registration),
+      ]);
+
+      expect(await lrs.listUnsyncedRegistrations()).toEqual([registration, null]);
+      expect((await lrs.getUnsyncedStatements(10, { registration })).map((s) => s.id)).toEqual([
+        id('03'),
+        id('01'),
+      ]);
+      expect(
+        (await lrs.getUnsyncedStatements(10, { registration: null })).map((s) => s.id)
+      ).toEqual([id('02')]);
+      expect(await lrs.getUnsyncedStatements(10, { registration: '' })).toEqual([]);
+    });
+
+    it('stores pulled statements as synced', async () => {
+      await lrs.storeStatements([completedStatement(id('01'))], [], { synced: true });
+
+      expect(await lrs.getStatementSyncStatus(id('01'))).toEqual({ status: 'synced' });
+      expect(await lrs.countUnsyncedStatements()).toBe(0);
+    });
+
+    it('keeps sync metadata and lists state changes since a time', async () => {
+      expect(await lrs.getSyncMetadata('statements.since')).toBeNull();
+      await lrs.setSyncMetadata('statements.since', '2026-01-01T00:00:00.000Z');
+      await lrs.setSyncMetadata('statements.since', '2026-01-02T00:00:00.000Z');
+      expect(await lrs.getSyncMetadata('statements.since')).toBe('2026-01-02T00:00:00.000Z');
+
+      await lrs.mergeCMI5State(null, 'https://example.com/au', actor, 'fsrs:kubit-1', { due: 1 });
+      const since = new Date().toISOString();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await lrs.mergeCMI5State('reg-1', 'https://example.com/au', actor, 'progress', { step: 2 });
+
+      expect((await lrs.listCMI5StateChanges()).map((change) => change.stateId)).toEqual([
+        'fsrs:kubit-1',
+        'progress',
+      ]);
+      expect(await lrs.listCMI5StateChanges(since)).toEqual([
+        expect.objectContaining({
+          registration: 'reg-1',
+          activityId: 'https://example.com/au',
+          agent: actor,
+          stateId: 'progress',
+          content: { step: 2 },
+        }),
+      ]);
+    });
+  });
+
+  describe('activities and agents', () => {
+    const course = 'https://example.com/course';
+
+    function statement(id: string, overrides: Partial<Statement> = {}): Statement {
+      return { ...completedStatement(`6b1d2f3e-0c4a-4e8b-9f7d-2a5c8e1b3d${id}`), ...overrides };
+    }
+
+    it('merges activity definitions from every statement that mentions the activity', async () => {
+      await lrs.storeStatement(
+        statement('01', {
+          object: {
+            id: course,
+            definition: {
+              name: { 'en-US': 'Course' },
+              type: 'http://adlnet.gov/expapi/activities/course',
+            },
+          },
+        })
+      );
+      await lrs.storeStatement(
+        statement('02', {
+          context: {
+            contextActivities: {
+              parent: [{ id: course, definition: { name: { 'fr-FR': 'Cours' } } }],
+            },
+          },
+        })
+      );
+      await lrs.storeStatement(
+        statement('03', {
+          object: { id: course, definition: { name: { 'en-US': 'Course (2nd edition)' } } },
+        })
+      );
+
+      expect(await lrs.getActivity(course)).toEqual({
+        objectType: 'Activity',
+        id: course,
+        definition: {
+          name: { 'en-US': 'Course (2nd edition)', 'fr-FR': 'Cours' },
+          type: 'http://adlnet.gov/expapi/activities/course',
+        },
+      });
+    });
+
+    it('returns only the id of an unknown activity', async () => {
+      expect(await lrs.getActivity(course)).toEqual({ objectType: 'Activity', id: course });
+    });
+
+    it('aggregates names and IFIs seen for an agent into a Person', async () => {
+      const mboxSha1sum = await sha1Hex(actor.mbox);
+      await lrs.storeStatement(statement('01'));
+      await lrs.storeStatement(statement('02', { actor: { mbox: actor.mbox, name: 'Tess' } }));
+      await lrs.storeStatement(
+        statement('03', { actor: { mbox_sha1sum: mboxSha1sum, name: 'T. User' } })
+      );
+      await lrs.storeStatement(statement('04', { actor: { mbox: 'mailto:other@example.com' } }));
+
+      expect(await lrs.getPerson({ mbox: actor.mbox })).toEqual({
+        objectType: 'Person',
+        mbox: [actor.mbox],
+        name: ['Test User', 'Tess', 'T. User'],
+        mbox_sha1sum: [mboxSha1sum],
+      });
+    });
+  });
+
+  describe('attachments', () => {
+    const recording = new TextEncoder().encode('learner audio');
+
+    async function withRecording(id: string, length = recording.length): Promise<Statement> {
+      return {
+        ...completedStatement(id),
+        attachments: [
+          {
+            usageType: 'http://id.tincanapi.com/attachment/supporting_media',
+            display: { 'en-US': 'Recording' },
+            contentType: 'audio/webm',
+            length,
+            sha2: await sha2Hex(recording),
+          },
+        ],
+      };
+    }
+
+    it('stores verified content and returns it with the statements', async () => {
+      const statement = await withRecording('7c2e4a10-5b3d-4f6e-8a9b-0c1d2e3f4a01');
+      const sha2 = statement.attachments![0]!.sha2;
+      await lrs.storeStatement(statement, [
+        { sha2, contentType: 'audio/webm', content: recording },
+      ]);
+
+      const result = await lrs.queryStatements({ attachments: true });
+      expect(result.attachments).toEqual([{ sha2, contentType: 'audio/webm', content: recording }]);
+      expect((await lrs.queryStatements({})).attachments).toBeUndefined();
+      expect((await lrs.getAttachment(sha2))?.content).toEqual(recording);
+    });
+
+    it('rejects content that does not match its hash or declared length', async () => {
+      const statement = await withRecording('7c2e4a10-5b3d-4f6e-8a9b-0c1d2e3f4a02');
+      const sha2 = statement.attachments![0]!.sha2;
+
+      await expect(
+        lrs.storeStatement(statement, [
+          { sha2, contentType: 'audio/webm', content: new TextEncoder().encode('tampered') },
+        ])
+      ).rejects.toBeInstanceOf(AttachmentError);
+
+      const wrongLength = await withRecording('7c2e4a10-5b3d-4f6e-8a9b-0c1d2e3f4a03', 1);
+      await expect(
+        lrs.storeStatement(wrongLength, [{ sha2, contentType: 'audio/webm', content: recording }])
+      ).rejects.toBeInstanceOf(AttachmentError);
+      expect(await lrs.getAttachment(sha2)).toBeNull();
+    });
+
+    it('requires content unless it is already stored or referenced by fileUrl', async () => {
+      const first = await withRecording('7c2e4a10-5b3d-4f6e-8a9b-0c1d2e3f4a04');
+      const sha2 = first.attachments![0]!.sha2;
+
+      await expect(lrs.storeStatement(first)).rejects.toBeInstanceOf(AttachmentError);
+
+      await lrs.storeStatement(first, [{ sha2, contentType: 'audio/webm', content: recording }]);
+      await lrs.storeStatement(await withRecording('7c2e4a10-5b3d-4f6e-8a9b-0c1d2e3f4a05'));
+
+      const linked = await withRecording('7c2e4a10-5b3d-4f6e-8a9b-0c1d2e3f4a06');
+      linked.attachments![0]!.sha2 = 'f'.repeat(64);
+      linked.attachments![0]!.fileUrl = 'https://example.com/recording.webm';
+      await lrs.storeStatement(linked);
+
+      const result = await lrs.queryStatements({ attachments: true });
+      expect(result.statements).toHaveLength(3);
+      expect(result.attachments?.map((attachment) => attachment.sha2)).toEqual([sha2]);
+    });
+  });
+
+  describe('profiles', () => {
+    const activityId = 'https://example.com/course';
+    const learner = { mbox: 'mailto:learner@example.com', name: 'Learner' };
+
+    it('stores activity profiles per activity', async () => {
+      await lrs.saveActivityProfile(activityId, 'settings', { theme: 'dark' });
+      await lrs.saveActivityProfile('https://example.com/other', 'settings', { theme: 'light' });
+
+      const profile = await lrs.getActivityProfile(activityId, 'settings');
+      expect(profile?.content).toEqual({ theme: 'dark' });
+      expect(await lrs.getActivityProfile(activityId, 'missing')).toBeNull();
+    });
+
+    it('keys agent profiles by IFI', async () => {
+      await lrs.saveAgentProfile(learner, 'cmi5LearnerPreferences', {
+        languagePreference: 'en-US',
+      });
+
+      const profile = await lrs.getAgentProfile(
+        { objectType: 'Agent', mbox: learner.mbox },
+        'cmi5LearnerPreferences'
+      );
+      expect(profile?.content).toEqual({ languagePreference: 'en-US' });
+      expect(
+        await lrs.getAgentProfile({ mbox: 'mailto:other@example.com' }, 'cmi5LearnerPreferences')
+      ).toBeNull();
+    });
+
+    it('merges JSON objects and returns the new ETag', async () => {
+      await lrs.saveAgentProfile(learner, 'preferences', { audioPreference: 'on' });
+      const etag = await lrs.mergeAgentProfile(learner, 'preferences', {
+        languagePreference: 'fr',
+      });
+
+      const profile = await lrs.getAgentProfile(learner, 'preferences');
+      expect(profile?.content).toEqual({ audioPreference: 'on', languagePreference: 'fr' });
+      expect(profile?.etag).toBe(etag);
+
+      await lrs.saveActivityProfile(activityId, 'list', [1, 2]);
+      await expect(lrs.mergeActivityProfile(activityId, 'list', { a: 1 })).rejects.toBeInstanceOf(
+        DocumentMergeError
+      );
+    });
+
+    it('enforces preconditions on save and delete', async () => {
+      const etag = await lrs.saveActivityProfile(
+        activityId,
+        'settings',
+        { v: 1 },
+        {
+          ifNoneMatch: '*',
+        }
+      );
+      await expect(
+        lrs.saveActivityProfile(activityId, 'settings', { v: 2 }, { ifNoneMatch: '*' })
+      ).rejects.toBeInstanceOf(PreconditionFailedError);
+
+      await lrs.saveActivityProfile(activityId, 'settings', { v: 2 }, { ifMatch: etag });
+      await expect(
+        lrs.deleteActivityProfile(activityId, 'settings', { ifMatch: etag })
+      ).rejects.toBeInstanceOf(PreconditionFailedError);
+
+      const current = await lrs.getActivityProfile(activityId, 'settings');
+      await lrs.deleteActivityProfile(activityId, 'settings', { ifMatch: current!.etag });
+      expect(await lrs.getActivityProfile(activityId, 'settings')).toBeNull();
+    });
+
+    it('lists profile ids, optionally since a time', async () => {
+      await lrs.saveAgentProfile(learner, 'a', {});
+      const since = new Date().toISOString();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await lrs.saveAgentProfile(learner, 'b', {});
+
+      expect(await lrs.listAgentProfileIds(learner)).toEqual(['a', 'b']);
+      expect(await lrs.listAgentProfileIds(learner, since)).toEqual(['b']);
+      expect(await lrs.listActivityProfileIds(activityId)).toEqual([]);
+    });
+  });
+});
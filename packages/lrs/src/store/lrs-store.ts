@@ -11,16 +11,51 @@ import './suppress-wasm-logs';
 
 import { drizzle } from 'drizzle-orm/sqlite-proxy';
 import { createClient, type Client as LibSQLClient } from '@libsql/client-wasm';
-import { eq, and, desc, sql } from 'drizzle-orm';
-import { statementsTable, cmi5StateTable } from '../db/schema';
+import { eq, and, or, asc, desc, sql, type SQL } from 'drizzle-orm';
+import {
+  statementsTable,
+  cmi5StateTable,
+  activityProfilesTable,
+  agentProfilesTable,
+  attachmentsTable,
+  type StatementSyncStatus,
+} from '../db/schema';
+import { getSchemaVersion, migrate } from '../db/migrations';
 import type { Statement, Activity, StatementRef, SubStatement, Agent } from '@xapi/xapi';
-import type { StatementQueryParams } from '../types/xapi';
+import type { AttachmentContent, Person, StatementQueryParams } from '../types/xapi';
+import { XAPI_VOIDED_VERB_IRI } from '../types/xapi';
 import type { CMI5State } from '../types/cmi5';
+import {
+  AttachmentError,
+  StatementConflictError,
+  StatementValidationError,
+  StatementVoidingError,
+} from './errors';
+import { validateStatement } from '../validation';
+import {
+  addToPerson,
+  findAgents,
+  getAgentIFI,
+  getAgentIFIKey,
+  parseAgentParameter,
+  type AgentIFI,
+} from './agents';
+import { findActivities, mergeActivity } from './activities';
+import { formatStatement, isSameStatement, normalizeStatement } from './statement-format';
+import { decodeMoreToken, encodeMoreToken, type StatementCursor } from './cursor';
+import {
+  checkPreconditions,
+  mergeDocuments,
+  type DocumentWriteOptions,
+  type StoredDocument,
+} from './documents';
+import { sha1Hex, sha2Hex } from './hash';
 
 // Use @xapi/xapi Statement type directly for compatibility
 interface StatementResult {
   statements: Statement[];
   more?: string;
+  attachments?: AttachmentContent[];
 }
 
 /**
@@ -38,6 +73,236 @@ function generateUUID(): string {
   });
 }
 
+/** Default number of statements per page */
+const DEFAULT_PAGE_SIZE = 100;
+
+/** Largest page a single query returns, regardless of the requested limit */
+export const MAX_STATEMENT_PAGE_SIZE = 1000;
+
+/** JSON paths checked by the agent filter */
+const AGENT_PATHS = ['$.actor', '$.object'];
+
+/** Additional JSON paths checked when related_agents is set */
+const RELATED_AGENT_PATHS = [
+  '$.authority',
+  '$.context.instructor',
+  '$.context.team',
+  '$.object.actor',
+  '$.object.object',
+  '$.object.context.instructor',
+  '$.object.context.team',
+];
+
+/** JSON paths checked by the activity filter when related_activities is set */
+const RELATED_ACTIVITY_PATHS = [
+  '$.object.object',
+  ...['parent', 'grouping', 'category', 'other'].flatMap((key) => [
+    `$.context.contextActivities.${key}`,
+    `$.object.context.contextActivities.${key}`,
+  ]),
+];
+
+/**
+ * Match an agent or group at a JSON path of the statement column by IFI and objectType
+ */
+function agentAtPath(path: string, ifi: AgentIFI, objectType: string): SQL {
+  return sql`(coalesce(json_extract(${statementsTable.statement}, ${`${path}.objectType`}), 'Agent') = ${objectType} AND ${ifiMatches(
+    (key) => sql`json_extract(${statementsTable.statement}, ${`${path}.${key}`})`,
+    ifi
+  )})`;
+}
+
+/**
+ * Match an agent among the members of a group at a JSON path of the statement column
+ */
+function memberAtPath(path: string, ifi: AgentIFI): SQL {
+  return sql`EXISTS (SELECT 1 FROM json_each(${statementsTable.statement}, ${`${path}.member`}) AS m WHERE m.type = 'object' AND ${ifiMatches(
+    (key) => sql`json_extract(m.value, ${`$.${key}`})`,
+    ifi
+  )})`;
+}
+
+function ifiMatches(column: (key: string) => SQL, ifi: AgentIFI): SQL {
+  switch (ifi.type) {
+    case 'account':
+      return sql`(${column('account.homePage')} = ${ifi.homePage} AND ${column('account.name')} = ${ifi.name})`;
+    case 'mbox_sha1sum':
+      return sql`lower(${column('mbox_sha1sum')}) = ${ifi.value}`;
+    default:
+      return sql`${column(ifi.type)} = ${ifi.value}`;
+  }
+}
+
+/**
+ * Match an activity by ID at a JSON path holding an activity or a list of activities
+ */
+function activityAtPath(path: string, activityId: string): SQL {
+  return sql`(json_extract(${statementsTable.statement}, ${`${path}.id`}) = ${activityId} OR EXISTS (SELECT 1 FROM json_each(${statementsTable.statement}, ${path}) AS a WHERE a.type = 'object' AND json_extract(a.value, '$.id') = ${activityId}))`;
+}
+
+/**
+ * Table and key column of a profile resource
+ */
+interface ProfileResource {
+  table: string;
+  keyColumn: string;
+}
+
+const ACTIVITY_PROFILES: ProfileResource = {
+  table: 'xapi_activity_profiles',
+  keyColumn: 'activity_id',
+};
+const AGENT_PROFILES: ProfileResource = { table: 'xapi_agent_profiles', keyColumn: 'agent_ifi' };
+
+/**
+ * Get the IFI key of an agent, throwing if it has none
+ */
+function requireAgentIFIKey(agent: Agent): string {
+  return getAgentIFIKey(parseAgentParameter(agent))!;
+}
+
+/** Stored registration of state documents that are not scoped to a registration */
+const NO_REGISTRATION = '';
+
+/** Largest number of values bound in a single `IN (...)` list */
+const SQL_IN_CHUNK_SIZE = 500;
+
+/** Activity the FSRS scheduler configuration of a registration is stored under */
+const FSRS_SCHEDULER_ACTIVITY_ID = 'https://polyglot.tools/fsrs/scheduler';
+
+/**
+ * A statement prepared for insertion, with its indexed columns
+ */
+interface StatementRow {
+  id: string;
+  statement: Statement;
+  verbId: string;
+  objectId: string;
+  registration: string | null;
+  timestamp: string;
+  stored: string;
+  voided: boolean;
+}
+
+/**
+ * Prepare a statement for insertion
+ * Sets id, stored and version on the statement and extracts the indexed columns
+ */
+function toStatementRow(statement: Statement, id: string, stored: string): StatementRow {
+  return {
+    id,
+    statement: normalizeStatement({
+      ...statement,
+      id,
+      stored,
+      version: statement.version ?? '1.0.0',
+    }),
+    verbId: statement.verb.id,
+    objectId: getObjectId(statement),
+    registration: statement.context?.registration ?? null,
+    timestamp: statement.timestamp || stored,
+    stored,
+    voided: false,
+  };
+}
+
+/**
+ * Extract the indexed object id of a statement
+ */
+function getObjectId(statement: Statement): string {
+  if (typeof statement.object === 'string') {
+    return statement.object;
+  }
+  if (!('objectType' in statement.object)) {
+    // Fallback: try to get id property
+    return 'id' in statement.object ? (statement.object as any).id : '';
+  }
+
+  // Handle different object types
+  const obj = statement.object;
+  if (obj.objectType === 'Activity' || !obj.objectType) {
+    // Activity (default)
+    return (obj as Activity).id;
+  } else if (obj.objectType === 'StatementRef') {
+    // StatementRef
+    return (obj as StatementRef).id;
+  } else if (obj.objectType === 'SubStatement') {
+    // SubStatement - use object's id if it's an Activity
+    const subStmt = obj as SubStatement;
+    if (typeof subStmt.object === 'string') {
+      return subStmt.object;
+    }
+    return 'id' in subStmt.object ? (subStmt.object as Activity).id : '';
+  } else if (obj.objectType === 'Agent' || obj.objectType === 'Group') {
+    // Agent or Group - use mbox, account, or openid as identifier
+    const agent = obj as Agent;
+    return agent.mbox || agent.account?.name || agent.openid || agent.mbox_sha1sum || '';
+  }
+  return '';
+}
+
+/**
+ * Check given attachment content against its hash and index it by hash
+ * Content that no statement declares is rejected, as the xAPI statement resource requires
+ */
+async function verifyAttachmentContent(
+  statements: Statement[],
+  attachments: AttachmentContent[]
+): Promise<Map<string, AttachmentContent>> {
+  const declared = new Set(
+    statements.flatMap((statement) =>
+      (statement.attachments ?? []).map((attachment) => attachment.sha2.toLowerCase())
+    )
+  );
+
+  const contents = new Map<string, AttachmentContent>();
+  for (const attachment of attachments) {
+    const sha2 = attachment.sha2.toLowerCase();
+    if (!declared.has(sha2)) {
+      throw new AttachmentError(`Attachment ${sha2} is not declared by any statement`, sha2);
+    }
+    if ((await sha2Hex(attachment.content, sha2)) !== sha2) {
+      throw new AttachmentError(`Attachment content does not match its hash ${sha2}`, sha2);
+    }
+    contents.set(sha2, { ...attachment, sha2 });
+  }
+  return contents;
+}
+
+function chunked<T>(values: T[], size = SQL_IN_CHUNK_SIZE): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+/**
+ * Options for storing statements
+ */
+export interface StoreStatementOptions {
+  /**
+   * Store the statements as already synced, for statements pulled from the remote LRS
+   * Their attachment content is not required, as the remote LRS keeps it
+   */
+  synced?: boolean;
+}
+
+/**
+ * A state document with the keys it is stored under
+ */
+export interface StoredStateDocument extends StoredDocument {
+  /** Registration, or null for documents without one */
+  registration: string | null;
+  activityId: string;
+  agent: Agent;
+  stateId: string;
+}
+
 /**
  * Configuration options for LRS Store
  */
@@ -55,6 +320,7 @@ export class LRSStore {
   private libsqlClient: LibSQLClient | null = null;
   private db: ReturnType<typeof drizzle> | null = null;
   private initialized = false;
+  private writeQueue: Promise<void> = Promise.resolve();
 
   constructor(private options: LRSStoreOptions = {}) {}
 
@@ -86,10 +352,10 @@ export class LRSStore {
         });
 
         // Convert libsql result to expected format
+        // sqlite-proxy maps rows positionally, so each row must be an array of column values
         // Handle potential "undefined" strings in JSON columns before Drizzle parses them
         const rows = result.rows.map((row) => {
-          const obj: Record<string, unknown> = {};
-          result.columns.forEach((col, i) => {
+          return result.columns.map((col, i) => {
             let value = row[i];
             // Fix "undefined" strings that might be in JSON columns
             // This can happen if undefined values were incorrectly stored as strings
@@ -110,153 +376,318 @@ export class LRSStore {
                 }
               }
             }
-            obj[col] = value;
+            return value;
           });
-          return obj;
         });
 
-        return { rows };
+        // 'get' expects a single row rather than a list of rows
+        return { rows: method === 'get' ? (rows[0] as any) : rows };
       },
-      { schema: { statementsTable, cmi5StateTable } }
+      {
+        schema: {
+          statementsTable,
+          cmi5StateTable,
+          activityProfilesTable,
+          agentProfilesTable,
+          attachmentsTable,
+        },
+      }
     );
 
-    // Create tables if they don't exist
-    await this.createSchema();
+    // Create tables, or upgrade a database created by an older version
+    await migrate(this.libsqlClient);
 
     this.initialized = true;
   }
 
   /**
-   * Create database schema
+   * Get the schema version of the database (the latest applied migration)
    */
-  private async createSchema(): Promise<void> {
-    if (!this.libsqlClient) return;
+  async getSchemaVersion(): Promise<number> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+    return getSchemaVersion(this.libsqlClient);
+  }
 
-    // Create statements table
-    await this.libsqlClient.execute(`
-      CREATE TABLE IF NOT EXISTS xapi_statements (
-        id TEXT PRIMARY KEY,
-        statement TEXT NOT NULL,
-        actor TEXT NOT NULL,
-        verb_id TEXT NOT NULL,
-        object_id TEXT NOT NULL,
-        registration TEXT,
-        timestamp TEXT,
-        stored TEXT NOT NULL,
-        authority TEXT,
-        voided INTEGER NOT NULL DEFAULT 0
-      )
-    `);
-
-    // Create indexes for statements
-    await this.libsqlClient.execute(`
-      CREATE INDEX IF NOT EXISTS statements_verb_idx ON xapi_statements(verb_id)
-    `);
-    await this.libsqlClient.execute(`
-      CREATE INDEX IF NOT EXISTS statements_object_idx ON xapi_statements(object_id)
-    `);
-    await this.libsqlClient.execute(`
-      CREATE INDEX IF NOT EXISTS statements_registration_idx ON xapi_statements(registration)
-    `);
-    await this.libsqlClient.execute(`
-      CREATE INDEX IF NOT EXISTS statements_timestamp_idx ON xapi_statements(timestamp)
-    `);
-    await this.libsqlClient.execute(`
-      CREATE INDEX IF NOT EXISTS statements_stored_idx ON xapi_statements(stored)
-    `);
-
-    // Create CMI5 state table
-    await this.libsqlClient.execute(`
-      CREATE TABLE IF NOT EXISTS cmi5_state (
-        id TEXT PRIMARY KEY,
-        registration TEXT NOT NULL,
-        activity_id TEXT NOT NULL,
-        agent TEXT NOT NULL,
-        state_id TEXT NOT NULL,
-        state TEXT NOT NULL,
-        updated_at TEXT NOT NULL
-      )
-    `);
+  /**
+   * Store an xAPI statement
+   * Throws StatementValidationError if the statement is not valid xAPI 1.0.3
+   * Re-sending a stored statement is a no-op; a different statement with the
+   * same id throws StatementConflictError
+   *
+   * @param attachments - Content of the statement's attachments that have no fileUrl
+   * @param options - Store as already synced, for statements pulled from the remote LRS
+   */
+  async storeStatement(
+    statement: Statement,
+    attachments: AttachmentContent[] = [],
+    options: StoreStatementOptions = {}
+  ): Promise<string> {
+    const [statementId] = await this.writeStatements([statement], false, attachments, options);
+    return statementId!;
+  }
 
-    // Create indexes for CMI5 state
-    await this.libsqlClient.execute(`
-      CREATE INDEX IF NOT EXISTS cmi5_state_unique_idx ON cmi5_state(registration, activity_id, state_id)
-    `);
-    await this.libsqlClient.execute(`
-      CREATE INDEX IF NOT EXISTS cmi5_state_registration_idx ON cmi5_state(registration)
-    `);
-    await this.libsqlClient.execute(`
-      CREATE INDEX IF NOT EXISTS cmi5_state_activity_idx ON cmi5_state(activity_id)
-    `);
+  /**
+   * Store a batch of xAPI statements atomically
+   * Every statement is validated before anything is written, and the batch is
+   * written in a single transaction, so either all statements are stored or none
+   *
+   * @param attachments - Content of the statements' attachments that have no fileUrl
+   * @param options - Store as already synced, for statements pulled from the remote LRS
+   * @returns Statement ids, in the order of the given statements
+   */
+  async storeStatements(
+    statements: Statement[],
+    attachments: AttachmentContent[] = [],
+    options: StoreStatementOptions = {}
+  ): Promise<string[]> {
+    return this.writeStatements(statements, true, attachments, options);
   }
 
   /**
-   * Store an xAPI statement
+   * Validate, check and write statements in one transaction
+   *
+   * @param batch - Report validation paths per batch index (`$[i]`)
    */
-  async storeStatement(statement: Statement): Promise<string> {
-    if (!this.db) throw new Error('LRS not initialized');
+  private async writeStatements(
+    statements: Statement[],
+    batch: boolean,
+    attachments: AttachmentContent[],
+    options: StoreStatementOptions
+  ): Promise<string[]> {
+    if (!this.db || !this.libsqlClient) throw new Error('LRS not initialized');
+
+    const issues = statements.flatMap(
+      (statement, i) => validateStatement(statement, batch ? `$[${i}]` : '$').errors
+    );
+    if (issues.length > 0) {
+      throw new StatementValidationError(issues);
+    }
+    const contents = await verifyAttachmentContent(statements, attachments);
 
-    const statementId = statement.id || generateUUID();
-    const stored = new Date().toISOString();
-
-    // Extract fields for indexing
-    const verbId = statement.verb.id;
-    let objectId = '';
-    if (typeof statement.object === 'string') {
-      objectId = statement.object;
-    } else if ('objectType' in statement.object) {
-      // Handle different object types
-      const obj = statement.object;
-      if (obj.objectType === 'Activity' || !obj.objectType) {
-        // Activity (default)
-        objectId = (obj as Activity).id;
-      } else if (obj.objectType === 'StatementRef') {
-        // StatementRef
-        objectId = (obj as StatementRef).id;
-      } else if (obj.objectType === 'SubStatement') {
-        // SubStatement - use object's id if it's an Activity
-        const subStmt = obj as SubStatement;
-        if (typeof subStmt.object === 'string') {
-          objectId = subStmt.object;
-        } else if ('id' in subStmt.object) {
-          objectId = (subStmt.object as Activity).id;
-        } else {
-          objectId = '';
+    // Checks and writes run under the write lock so concurrent sends of the same id cannot race
+    return this.exclusive(async () => {
+      const stored = new Date().toISOString();
+      const existing = await this.getStoredStatements(
+        statements.flatMap((statement) => (statement.id ? [statement.id] : []))
+      );
+
+      // Resolve ids and drop re-sent statements, both already stored and repeated within the batch
+      const ids: string[] = [];
+      const rows: StatementRow[] = [];
+      const accepted = new Map<string, Statement>();
+      for (const statement of statements) {
+        const previous = statement.id
+          ? (existing.get(statement.id) ?? accepted.get(statement.id))
+          : undefined;
+        if (previous) {
+          if (!isSameStatement(previous, statement)) {
+            throw new StatementConflictError(statement.id!);
+          }
+          ids.push(statement.id!);
+          continue;
         }
-      } else if (obj.objectType === 'Agent' || obj.objectType === 'Group') {
-        // Agent or Group - use mbox, account, or openid as identifier
-        const agent = obj as Agent;
-        objectId = agent.mbox || agent.account?.name || agent.openid || agent.mbox_sha1sum || '';
+
+        const row = toStatementRow(statement, statement.id || generateUUID(), stored);
+        accepted.set(row.id, statement);
+        ids.push(row.id);
+        rows.push(row);
+      }
+
+      if (rows.length === 0) return ids;
+
+      await this.checkVoiding(rows);
+      if (!options.synced) await this.checkAttachments(rows, contents);
+
+      // Use raw SQL to bypass Drizzle's JSON handling issues with sqlite-proxy
+      // This ensures proper JSON serialization and avoids "undefined" string issues
+      await this.libsqlClient!.batch(
+        [
+          ...rows.map((row) => ({
+            sql: `INSERT INTO xapi_statements (id, statement, actor, verb_id, object_id, registration, timestamp, stored, authority, voided, sync_status)
+                  VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+            args: [
+              row.id,
+              JSON.stringify(row.statement),
+              JSON.stringify(row.statement.actor),
+              row.verbId,
+              row.objectId,
+              row.registration,
+              row.timestamp,
+              row.stored,
+              row.statement.authority ? JSON.stringify(row.statement.authority) : null,
+              row.voided ? 1 : 0,
+              options.synced ? 'synced' : 'pending',
+            ],
+          })),
+          ...rows
+            .filter((row) => row.verbId === XAPI_VOIDED_VERB_IRI)
+            .map((row) => ({
+              sql: 'UPDATE xapi_statements SET voided = 1 WHERE id = ?',
+              args: [row.objectId],
+            })),
+          ...[...contents.values()].map((attachment) => ({
+            sql: `INSERT OR IGNORE INTO xapi_attachments (sha2, content_type, length, content, stored)
+                  VALUES (?, ?, ?, ?, ?)`,
+            args: [
+              attachment.sha2,
+              attachment.contentType,
+              attachment.content.length,
+              attachment.content,
+              stored,
+            ],
+          })),
+        ],
+        'write'
+      );
+
+      return ids;
+    });
+  }
+
+  /**
+   * Check voiding statements against the xAPI voiding rules and flag voided rows
+   * The object must be a StatementRef and the target must not be a voiding statement,
+   * whether it is already stored or part of the same batch
+   */
+  private async checkVoiding(rows: StatementRow[]): Promise<void> {
+    const voidingRows = rows.filter((row) => row.verbId === XAPI_VOIDED_VERB_IRI);
+    for (const row of voidingRows) {
+      if (row.statement.object.objectType !== 'StatementRef') {
+        throw new StatementVoidingError('Voiding statement object must be a StatementRef');
+      }
+    }
+
+    const voidingIds = new Set(voidingRows.map((row) => row.id));
+    const storedVoidingIds = await this.selectIds(
+      'SELECT id FROM xapi_statements WHERE verb_id = ? AND id IN',
+      voidingRows.map((row) => row.objectId),
+      [XAPI_VOIDED_VERB_IRI]
+    );
+    for (const row of voidingRows) {
+      if (voidingIds.has(row.objectId) || storedVoidingIds.has(row.objectId)) {
+        throw new StatementVoidingError(
+          `Statement ${row.objectId} is a voiding statement and cannot be voided`,
+          row.objectId
+        );
+      }
+    }
+
+    // A voiding statement may arrive before its target (e.g. out-of-order sync)
+    const candidates = rows.filter((row) => row.verbId !== XAPI_VOIDED_VERB_IRI);
+    const targeted = await this.selectIds(
+      'SELECT object_id FROM xapi_statements WHERE verb_id = ? AND object_id IN',
+      candidates.map((row) => row.id),
+      [XAPI_VOIDED_VERB_IRI]
+    );
+    const targetedInBatch = new Set(voidingRows.map((row) => row.objectId));
+    for (const row of candidates) {
+      row.voided = targeted.has(row.id) || targetedInBatch.has(row.id);
+    }
+  }
+
+  /**
+   * Check that every attachment without a fileUrl has content, given or already stored,
+   * with the declared length
+   */
+  private async checkAttachments(
+    rows: StatementRow[],
+    contents: Map<string, AttachmentContent>
+  ): Promise<void> {
+    const declared = rows.flatMap((row) =>
+      (row.statement.attachments ?? []).filter((attachment) => !attachment.fileUrl)
+    );
+    const storedHashes = await this.selectIds(
+      'SELECT sha2 FROM xapi_attachments WHERE sha2 IN',
+      declared
+        .map((attachment) => attachment.sha2.toLowerCase())
+        .filter((sha2) => !contents.has(sha2)),
+      []
+    );
+
+    for (const attachment of declared) {
+      const sha2 = attachment.sha2.toLowerCase();
+      const content = contents.get(sha2);
+      if (content && content.content.length !== attachment.length) {
+        throw new AttachmentError(
+          `Attachment ${sha2} is ${content.content.length} bytes, but its statement declares ${attachment.length}`,
+          sha2
+        );
+      }
+      if (!content && !storedHashes.has(sha2)) {
+        throw new AttachmentError(`Missing content for attachment ${sha2}`, sha2);
       }
-    } else {
-      // Fallback: try to get id property
-      objectId = 'id' in statement.object ? (statement.object as any).id : '';
     }
-    const registration = statement.context?.registration;
-    const timestamp = statement.timestamp || stored;
+  }
 
-    // Use raw SQL to bypass Drizzle's JSON handling issues with sqlite-proxy
-    // This ensures proper JSON serialization and avoids "undefined" string issues
+  /**
+   * Get stored statements by id, including voided statements
+   */
+  private async getStoredStatements(statementIds: string[]): Promise<Map<string, Statement>> {
     if (!this.libsqlClient) throw new Error('LibSQL not initialized');
 
-    await this.libsqlClient.execute({
-      sql: `INSERT INTO xapi_statements (id, statement, actor, verb_id, object_id, registration, timestamp, stored, authority, voided)
-            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      args: [
-        statementId,
-        JSON.stringify(statement),
-        JSON.stringify(statement.actor),
-        verbId,
-        objectId,
-        registration ?? null,
-        timestamp ?? null,
-        stored,
-        statement.authority ? JSON.stringify(statement.authority) : null,
-        0, // voided = false
-      ],
-    });
+    const statements = new Map<string, Statement>();
+    for (const chunk of chunked([...new Set(statementIds)])) {
+      const result = await this.libsqlClient.execute({
+        sql: `SELECT id, statement FROM xapi_statements WHERE id IN (${placeholders(chunk)})`,
+        args: chunk,
+      });
+      for (const row of result.rows) {
+        statements.set(String(row[0]), JSON.parse(String(row[1])) as Statement);
+      }
+    }
+    return statements;
+  }
+
+  /**
+   * Run a single-column query with an `IN (...)` list, in chunks
+   *
+   * @param query - Query ending in `IN`, the list is appended
+   * @param values - Values for the `IN` list
+   * @param args - Arguments preceding the `IN` list
+   */
+  private async selectIds(query: string, values: string[], args: string[]): Promise<Set<string>> {
+    if (!this.libsqlClient) throw new Error('LibSQL not initialized');
+
+    const ids = new Set<string>();
+    for (const chunk of chunked([...new Set(values)])) {
+      const result = await this.libsqlClient.execute({
+        sql: `${query} (${placeholders(chunk)})`,
+        args: [...args, ...chunk],
+      });
+      for (const row of result.rows) ids.add(String(row[0]));
+    }
+    return ids;
+  }
+
+  /**
+   * Get the content of a stored attachment by its SHA-2 hash
+   */
+  async getAttachment(sha2: string): Promise<AttachmentContent | null> {
+    const attachments = await this.getAttachments([sha2]);
+    return attachments[0] ?? null;
+  }
+
+  /**
+   * Get stored attachment content, in chunks
+   */
+  private async getAttachments(hashes: string[]): Promise<AttachmentContent[]> {
+    if (!this.libsqlClient) throw new Error('LibSQL not initialized');
 
-    return statementId;
+    const attachments: AttachmentContent[] = [];
+    for (const chunk of chunked([...new Set(hashes.map((sha2) => sha2.toLowerCase()))])) {
+      const result = await this.libsqlClient.execute({
+        sql: `SELECT sha2, content_type, content FROM xapi_attachments WHERE sha2 IN (${placeholders(chunk)})`,
+        args: chunk,
+      });
+      for (const row of result.rows) {
+        attachments.push({
+          sha2: String(row[0]),
+          contentType: String(row[1]),
+          content: new Uint8Array(row[2] as ArrayBuffer),
+        });
+      }
+    }
+    return attachments;
   }
 
   /**
@@ -278,21 +709,67 @@ export class LRSStore {
 
   /**
    * Query statements
+   * Voided statements are excluded unless requested via voidedStatementId
+   * Agents are matched by IFI; related_agents and related_activities widen the
+   * agent and activity filters as described in the xAPI statement resource
+   * When more statements match than fit on a page, `more` holds a token for getMoreStatements
    */
   async queryStatements(params: StatementQueryParams): Promise<StatementResult> {
+    return this.queryStatementPage(params);
+  }
+
+  /**
+   * Get the next page of a statement query from the `more` token of a previous result
+   * Throws InvalidMoreTokenError if the token is malformed
+   */
+  async getMoreStatements(more: string): Promise<StatementResult> {
+    const { params, cursor } = decodeMoreToken(more);
+    return this.queryStatementPage(params, cursor);
+  }
+
+  /**
+   * Iterate over every page of a statement query
+   * Pages are fetched lazily, so large registrations can be exported without loading them at once
+   */
+  async *streamStatements(params: StatementQueryParams): AsyncGenerator<Statement[]> {
+    let page = await this.queryStatements(params);
+    yield page.statements;
+
+    while (page.more) {
+      page = await this.getMoreStatements(page.more);
+      yield page.statements;
+    }
+  }
+
+  /**
+   * Run a statement query, resuming after the cursor if given
+   */
+  private async queryStatementPage(
+    params: StatementQueryParams,
+    cursor?: StatementCursor
+  ): Promise<StatementResult> {
     if (!this.db) throw new Error('LRS not initialized');
 
     // Build query conditions
-    const conditions = [];
+    const conditions: SQL[] = [];
 
+    if (params.voidedStatementId) {
+      conditions.push(eq(statementsTable.id, params.voidedStatementId));
+      conditions.push(sql`${statementsTable.voided} = 1`);
+    } else {
+      conditions.push(sql`${statementsTable.voided} = 0`);
+    }
     if (params.statementId) {
       conditions.push(eq(statementsTable.id, params.statementId));
     }
+    if (params.agent) {
+      conditions.push(this.agentCondition(params.agent, params.related_agents ?? false));
+    }
     if (params.verb) {
       conditions.push(eq(statementsTable.verbId, params.verb));
     }
     if (params.activity) {
-      conditions.push(eq(statementsTable.objectId, params.activity));
+      conditions.push(this.activityCondition(params.activity, params.related_activities ?? false));
     }
     if (params.registration) {
       conditions.push(eq(statementsTable.registration, params.registration));
@@ -303,28 +780,44 @@ export class LRSStore {
     if (params.until) {
       conditions.push(sql`${statementsTable.stored} <= ${params.until}`);
     }
-
-    // Build query
-    let query = this.db.select().from(statementsTable);
-
-    if (conditions.length > 0) {
-      query = query.where(and(...conditions)) as any;
+    if (cursor) {
+      // Resume strictly after the last statement of the previous page
+      conditions.push(
+        params.ascending
+          ? sql`(${statementsTable.stored}, ${statementsTable.id}) > (${cursor.stored}, ${cursor.id})`
+          : sql`(${statementsTable.stored}, ${statementsTable.id}) < (${cursor.stored}, ${cursor.id})`
+      );
     }
 
-    // Order by stored timestamp
-    query = query.orderBy(desc(statementsTable.stored)) as any;
+    // Order by stored timestamp, newest first unless ascending, with id as tie-breaker
+    const order = params.ascending ? asc : desc;
+    const limit = Math.min(params.limit || DEFAULT_PAGE_SIZE, MAX_STATEMENT_PAGE_SIZE);
 
-    // Limit
-    const limit = params.limit || 100;
-    query = query.limit(limit) as any;
+    // Fetch one extra row to find out whether another page follows
+    const query = this.db
+      .select()
+      .from(statementsTable)
+      .where(and(...conditions))
+      .orderBy(order(statementsTable.stored), order(statementsTable.id))
+      .limit(limit + 1);
+
+    const format = (results: Array<{ id: string; stored: string; statement: unknown }>) => {
+      const page = results.slice(0, limit);
+      const last = page[page.length - 1];
+      const result: StatementResult = {
+        statements: page.map((r) =>
+          formatStatement(r.statement as Statement, params.format, params.languages)
+        ),
+      };
+      if (results.length > limit && last) {
+        result.more = encodeMoreToken(params, { stored: last.stored, id: last.id });
+      }
+      return result;
+    };
 
+    let result: StatementResult;
     try {
-      const results = await query;
-      const statements = results.map((r) => r.statement as Statement);
-
-      return {
-        statements,
-      };
+      result = format(await query);
     } catch (error) {
       // Handle JSON parsing errors (e.g., "undefined" strings in JSON columns)
       if (error instanceof Error && error.message.includes('not valid JSON')) {
@@ -332,14 +825,54 @@ export class LRSStore {
         // Try to clean up invalid JSON values in the database
         await this.cleanInvalidJSON();
         // Retry the query after cleanup
-        const results = await query;
-        const statements = results.map((r) => r.statement as Statement);
-        return {
-          statements,
-        };
+        result = format(await query);
+      } else {
+        throw error;
       }
-      throw error;
     }
+
+    if (params.attachments) {
+      result.attachments = await this.getAttachments(
+        result.statements.flatMap((statement) =>
+          (statement.attachments ?? []).map((attachment) => attachment.sha2)
+        )
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Build the agent filter
+   * Matches actor or object; related_agents also matches authority, instructor,
+   * team, members of groups in those positions, and the same inside a SubStatement
+   */
+  private agentCondition(
+    agentParam: NonNullable<StatementQueryParams['agent']>,
+    related: boolean
+  ): SQL {
+    const agent = parseAgentParameter(agentParam);
+    const ifi = getAgentIFI(agent)!;
+    const objectType = agent.objectType === 'Group' ? 'Group' : 'Agent';
+
+    const paths = related ? [...AGENT_PATHS, ...RELATED_AGENT_PATHS] : AGENT_PATHS;
+    const matches = paths.map((path) => agentAtPath(path, ifi, objectType));
+    if (related && objectType === 'Agent') {
+      matches.push(...paths.map((path) => memberAtPath(path, ifi)));
+    }
+
+    return or(...matches)!;
+  }
+
+  /**
+   * Build the activity filter
+   * Matches the statement object; related_activities also matches context
+   * activities and the object and context activities of a SubStatement
+   */
+  private activityCondition(activityId: string, related: boolean): SQL {
+    const isObject = sql`(${statementsTable.objectId} = ${activityId} AND coalesce(json_extract(${statementsTable.statement}, '$.object.objectType'), 'Activity') = 'Activity')`;
+    if (!related) return isObject;
+
+    return or(isObject, ...RELATED_ACTIVITY_PATHS.map((path) => activityAtPath(path, activityId)))!;
   }
 
   /**
@@ -382,99 +915,909 @@ export class LRSStore {
   }
 
   /**
-   * Save CMI5 state
+   * Save CMI5 state, replacing any stored document
+   * Documents are keyed by activity, agent (by IFI), stateId and optional registration
+   * Throws PreconditionFailedError if an If-Match / If-None-Match precondition fails
+   *
+   * @param registration - Registration the document belongs to, or null for none
+   * @returns ETag of the saved document
    */
   async saveCMI5State(
-    registration: string,
+    registration: string | null,
     activityId: string,
     agent: Agent,
     stateId: string,
-    state: CMI5State
-  ): Promise<void> {
-    if (!this.db) throw new Error('LRS not initialized');
-
-    const id = generateUUID();
-    const updatedAt = new Date().toISOString();
+    state: CMI5State,
+    options: DocumentWriteOptions = {}
+  ): Promise<string> {
+    return this.writeStateDocument(registration, activityId, agent, stateId, () => state, options);
+  }
 
-    await this.db.insert(cmi5StateTable).values({
-      id,
+  /**
+   * Merge a JSON object into CMI5 state, as for POST in the xAPI State API
+   * Top-level properties replace those of the stored document, which is created if missing
+   * Throws DocumentMergeError if either document is not a JSON object
+   *
+   * @param registration - Registration the document belongs to, or null for none
+   * @returns ETag of the merged document
+   */
+  async mergeCMI5State(
+    registration: string | null,
+    activityId: string,
+    agent: Agent,
+    stateId: string,
+    state: Partial<CMI5State> | Record<string, unknown>,
+    options: DocumentWriteOptions = {}
+  ): Promise<string> {
+    return this.writeStateDocument(
       registration,
       activityId,
-      agent: agent as any,
+      agent,
       stateId,
-      state: state as any,
-      updatedAt,
-    });
+      (current) => mergeDocuments(current, state),
+      options
+    );
   }
 
   /**
-   * Get CMI5 state
+   * Write a state document in one transaction
+   * The stored document is updated in place; duplicate rows left by older versions are removed
    */
-  async getCMI5State(
-    registration: string,
+  private async writeStateDocument(
+    registration: string | null,
     activityId: string,
     agent: Statement['actor'],
-    stateId: string
-  ): Promise<CMI5State | null> {
-    if (!this.db) throw new Error('LRS not initialized');
-
-    const result = await this.db
-      .select()
-      .from(cmi5StateTable)
-      .where(
-        and(
-          eq(cmi5StateTable.registration, registration),
-          eq(cmi5StateTable.activityId, activityId),
-          eq(cmi5StateTable.stateId, stateId)
-        )
-      )
-      .limit(1);
-
-    if (result.length === 0) return null;
-
-    return result[0]!.state as CMI5State;
+    stateId: string,
+    update: (current: unknown) => unknown,
+    options: DocumentWriteOptions
+  ): Promise<string> {
+    return this.writeTransaction(
+      this.prepareStateWrite(registration, activityId, agent, stateId, update, options)
+    );
   }
 
   /**
-   * Delete CMI5 state
+   * Prepare a state document write, to run in a write transaction
+   *
+   * @returns The write, resolving to the ETag of the written document
    */
-  async deleteCMI5State(
-    registration: string,
+  private prepareStateWrite(
+    registration: string | null,
     activityId: string,
     agent: Statement['actor'],
-    stateId: string
-  ): Promise<void> {
-    if (!this.db) throw new Error('LRS not initialized');
+    stateId: string,
+    update: (current: unknown) => unknown,
+    options: DocumentWriteOptions
+  ): (client: LibSQLClient) => Promise<string> {
+    if (!this.db || !this.libsqlClient) throw new Error('LRS not initialized');
 
-    await this.db
-      .delete(cmi5StateTable)
+    // Documents must be addressable by the agent's IFI
+    parseAgentParameter(agent as Agent);
+
+    const select = this.db
+      .select({ id: cmi5StateTable.id, state: cmi5StateTable.state })
+      .from(cmi5StateTable)
       .where(
         and(
-          eq(cmi5StateTable.registration, registration),
-          eq(cmi5StateTable.activityId, activityId),
+          ...this.stateConditions(registration, activityId, agent),
           eq(cmi5StateTable.stateId, stateId)
         )
+      )
+      .orderBy(desc(cmi5StateTable.updatedAt))
+      .toSQL();
+
+    return async (client) => {
+      const existing = await client.execute({ sql: select.sql, args: select.params as any[] });
+      const [current, ...duplicates] = existing.rows;
+      const currentText = current ? String(current[1]) : null;
+
+      checkPreconditions(options, currentText === null ? null : await sha1Hex(currentText));
+
+      const text = JSON.stringify(
+        update(currentText === null ? undefined : JSON.parse(currentText))
       );
+      const updatedAt = new Date().toISOString();
+
+      if (current) {
+        await client.execute({
+          sql: 'UPDATE cmi5_state SET state = ?, agent = ?, updated_at = ? WHERE id = ?',
+          args: [text, JSON.stringify(agent), updatedAt, String(current[0])],
+        });
+        for (const duplicate of duplicates) {
+          await client.execute({
+            sql: 'DELETE FROM cmi5_state WHERE id = ?',
+            args: [String(duplicate[0])],
+          });
+        }
+      } else {
+        await client.execute({
+          sql: `INSERT INTO cmi5_state (id, registration, activity_id, agent, state_id, state, updated_at)
+                VALUES (?, ?, ?, ?, ?, ?, ?)`,
+          args: [
+            generateUUID(),
+            registration ?? NO_REGISTRATION,
+            activityId,
+            JSON.stringify(agent),
+            stateId,
+            text,
+            updatedAt,
+          ],
+        });
+      }
+
+      return sha1Hex(text);
+    };
   }
 
   /**
-   * Clear all statements from the database
-   * USE WITH CAUTION - this is destructive and cannot be undone
+   * Run a read-then-write sequence in one SQLite transaction
+   * Writes from this store are serialized so their transactions never interleave
+   * on the shared connection (libsql's transaction() opens a new connection,
+   * which would not see in-memory databases)
    */
-  async clearAllStatements(): Promise<void> {
-    if (!this.libsqlClient) throw new Error('LRS not initialized');
-
-    await this.libsqlClient.execute('DELETE FROM xapi_statements');
+  private async writeTransaction<T>(work: (client: LibSQLClient) => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      const client = this.libsqlClient;
+      if (!client) throw new Error('LibSQL not initialized');
+
+      await client.execute('BEGIN IMMEDIATE');
+      try {
+        const result = await work(client);
+        await client.execute('COMMIT');
+        return result;
+      } catch (error) {
+        await client.execute('ROLLBACK');
+        throw error;
+      }
+    });
   }
 
   /**
-   * Clear all CMI5 state from the database
-   * USE WITH CAUTION - this is destructive and cannot be undone
+   * Serialize writes on the shared connection
    */
-  async clearAllCMI5State(): Promise<void> {
-    if (!this.libsqlClient) throw new Error('LRS not initialized');
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(work);
+    this.writeQueue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    return result;
+  }
+
+  /**
+   * Get CMI5 state
+   *
+   * @param registration - Registration the document belongs to, or null for none
+   */
+  async getCMI5State(
+    registration: string | null,
+    activityId: string,
+    agent: Statement['actor'],
+    stateId: string
+  ): Promise<CMI5State | null> {
+    const document = await this.getCMI5StateDocument(registration, activityId, agent, stateId);
+    return document?.content ?? null;
+  }
+
+  /**
+   * Get CMI5 state with its ETag, for conditional writes
+   *
+   * @param registration - Registration the document belongs to, or null for none
+   */
+  async getCMI5StateDocument(
+    registration: string | null,
+    activityId: string,
+    agent: Statement['actor'],
+    stateId: string
+  ): Promise<StoredDocument<CMI5State> | null> {
+    if (!this.libsqlClient || !this.db) throw new Error('LRS not initialized');
+
+    // Read the raw JSON so the ETag is computed over exactly what was stored
+    const select = this.db
+      .select({ state: cmi5StateTable.state, updatedAt: cmi5StateTable.updatedAt })
+      .from(cmi5StateTable)
+      .where(
+        and(
+          ...this.stateConditions(registration, activityId, agent),
+          eq(cmi5StateTable.stateId, stateId)
+        )
+      )
+      .orderBy(desc(cmi5StateTable.updatedAt))
+      .limit(1)
+      .toSQL();
+
+    const result = await this.libsqlClient.execute({
+      sql: select.sql,
+      args: select.params as any[],
+    });
+    const row = result.rows[0];
+    if (!row) return null;
+
+    const text = String(row[0]);
+    return {
+      content: JSON.parse(text) as CMI5State,
+      etag: await sha1Hex(text),
+      updated: String(row[1]),
+    };
+  }
+
+  /**
+   * List the stateIds stored for an activity and agent
+   *
+   * @param registration - Registration the documents belong to, or null for none
+   * @param since - Only include documents updated after this time (ISO 8601)
+   */
+  async listCMI5StateIds(
+    registration: string | null,
+    activityId: string,
+    agent: Statement['actor'],
+    since?: string
+  ): Promise<string[]> {
+    if (!this.db) throw new Error('LRS not initialized');
+
+    const conditions = this.stateConditions(registration, activityId, agent);
+    if (since) {
+      conditions.push(sql`${cmi5StateTable.updatedAt} > ${since}`);
+    }
+
+    const result = await this.db
+      .selectDistinct({ stateId: cmi5StateTable.stateId })
+      .from(cmi5StateTable)
+      .where(and(...conditions))
+      .orderBy(cmi5StateTable.stateId);
+
+    return result.map((row) => row.stateId);
+  }
+
+  /**
+   * List state documents updated after a time, across all activities and agents
+   * Used by cloud sync to find local changes
+   *
+   * @param since - Only include documents updated after this time (ISO 8601; omit for all)
+   */
+  async listCMI5StateChanges(since?: string): Promise<StoredStateDocument[]> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const result = await this.libsqlClient.execute({
+      sql: `SELECT registration, activity_id, agent, state_id, state, updated_at FROM cmi5_state
+            ${since ? 'WHERE updated_at > ?' : ''} ORDER BY updated_at, id`,
+      args: since ? [since] : [],
+    });
+
+    return Promise.all(
+      result.rows.map(async (row) => {
+        const text = String(row[4]);
+        return {
+          registration: row[0] === NO_REGISTRATION ? null : String(row[0]),
+          activityId: String(row[1]),
+          agent: JSON.parse(String(row[2])) as Agent,
+          stateId: String(row[3]),
+          content: JSON.parse(text),
+          etag: await sha1Hex(text),
+          updated: String(row[5]),
+        };
+      })
+    );
+  }
+
+  /**
+   * Delete CMI5 state
+   *
+   * @param registration - Registration the document belongs to, or null for none
+   */
+  async deleteCMI5State(
+    registration: string | null,
+    activityId: string,
+    agent: Statement['actor'],
+    stateId: string
+  ): Promise<void> {
+    if (!this.db) throw new Error('LRS not initialized');
+
+    await this.db
+      .delete(cmi5StateTable)
+      .where(
+        and(
+          ...this.stateConditions(registration, activityId, agent),
+          eq(cmi5StateTable.stateId, stateId)
+        )
+      );
+  }
+
+  /**
+   * Build the conditions selecting an agent's state documents for an activity
+   */
+  private stateConditions(
+    registration: string | null,
+    activityId: string,
+    agent: Statement['actor']
+  ): SQL[] {
+    return [
+      eq(cmi5StateTable.registration, registration ?? NO_REGISTRATION),
+      eq(cmi5StateTable.activityId, activityId),
+      this.stateAgentCondition(agent),
+    ];
+  }
+
+  /**
+   * Match state documents by the IFI of their agent
+   * Throws if the agent has no IFI
+   */
+  private stateAgentCondition(agent: Statement['actor']): SQL {
+    const ifi = getAgentIFI(parseAgentParameter(agent as Agent))!;
+    return ifiMatches((key) => sql`json_extract(${cmi5StateTable.agent}, ${`$.${key}`})`, ifi);
+  }
+
+  /**
+   * Clear all statements from the database
+   * USE WITH CAUTION - this is destructive and cannot be undone
+   */
+  async clearAllStatements(): Promise<void> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    await this.libsqlClient.execute('DELETE FROM xapi_statements');
+    await this.libsqlClient.execute('DELETE FROM xapi_attachments');
+  }
+
+  /**
+   * Clear all CMI5 state (and FSRS review logs) from the database
+   * USE WITH CAUTION - this is destructive and cannot be undone
+   */
+  async clearAllCMI5State(): Promise<void> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
 
     await this.libsqlClient.execute('DELETE FROM cmi5_state');
+    await this.libsqlClient.execute('DELETE FROM fsrs_review_log');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Sync Tracking Methods
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get statements that still have to be sent to the cloud (pending or failed)
+   * Statements come in stored order, oldest first, so the remote LRS receives them as they happened
+   * (statements stored in one batch keep their order in the batch)
+   *
+   * @param limit - Maximum number of statements to return (default 100)
+   * @param options - Only return statements of a registration (null for statements without one)
+   */
+  async getUnsyncedStatements(
+    limit = DEFAULT_PAGE_SIZE,
+    options: { registration?: string | null } = {}
+  ): Promise<Statement[]> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const { registration } = options;
+    const filter =
+      registration === undefined
+        ? ''
+        : registration === null
+          ? 'AND registration IS NULL'
+          : 'AND registration = ?';
+    const result = await this.libsqlClient.execute({
+      sql: `SELECT statement FROM xapi_statements WHERE sync_status IN ('pending', 'failed') ${filter}
+            ORDER BY stored ASC, rowid ASC LIMIT ?`,
+      args: typeof registration === 'string' ? [registration, limit] : [limit],
+    });
+    return result.rows.map((row) => JSON.parse(String(row[0])) as Statement);
+  }
+
+  /**
+   * List the registrations of statements that still have to be sent to the cloud
+   * Registrations come in the order of their oldest unsynced statement; null
+   * stands for statements without a registration
+   */
+  async listUnsyncedRegistrations(): Promise<Array<string | null>> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const result = await this.libsqlClient.execute(
+      `SELECT registration FROM xapi_statements WHERE sync_status IN ('pending', 'failed')
+       GROUP BY registration ORDER BY min(stored), min(rowid)`
+    );
+    return result.rows.map((row) => (row[0] === null ? null : String(row[0])));
+  }
+
+  /**
+   * Count statements that still have to be sent to the cloud, including those in flight
+   */
+  async countUnsyncedStatements(): Promise<number> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const result = await this.libsqlClient.execute(
+      "SELECT count(*) FROM xapi_statements WHERE sync_status NOT IN ('synced', 'rejected')"
+    );
+    return Number(result.rows[0]?.[0] ?? 0);
+  }
+
+  /**
+   * Count statements the remote LRS rejected and sync set aside
+   */
+  async countRejectedStatements(): Promise<number> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const result = await this.libsqlClient.execute(
+      "SELECT count(*) FROM xapi_statements WHERE sync_status = 'rejected'"
+    );
+    return Number(result.rows[0]?.[0] ?? 0);
+  }
+
+  /**
+   * Get statements the remote LRS rejected, oldest first, with the error it answered
+   *
+   * @param limit - Maximum number of statements to return (default 100)
+   */
+  async getRejectedStatements(
+    limit = DEFAULT_PAGE_SIZE
+  ): Promise<Array<{ statement: Statement; error: string }>> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const result = await this.libsqlClient.execute({
+      sql: `SELECT statement, sync_error FROM xapi_statements WHERE sync_status = 'rejected'
+            ORDER BY stored ASC, rowid ASC LIMIT ?`,
+      args: [limit],
+    });
+    return result.rows.map((row) => ({
+      statement: JSON.parse(String(row[0])) as Statement,
+      error: String(row[1] ?? ''),
+    }));
+  }
+
+  /**
+   * Queue rejected statements for sending again (e.g. after fixing the remote LRS)
+   *
+   * @param statementIds - Statements to retry (default: all rejected statements)
+   */
+  async retryRejectedStatements(statementIds?: string[]): Promise<void> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+    const client = this.libsqlClient;
+
+    if (statementIds) {
+      await this.exclusive(async () => {
+        for (const chunk of chunked([...new Set(statementIds)])) {
+          await client.execute({
+            sql: `UPDATE xapi_statements SET sync_status = 'pending', sync_error = NULL
+                  WHERE sync_status = 'rejected' AND id IN (${placeholders(chunk)})`,
+            args: chunk,
+          });
+        }
+      });
+      return;
+    }
+    await this.exclusive(() =>
+      client.execute(
+        `UPDATE xapi_statements SET sync_status = 'pending', sync_error = NULL
+         WHERE sync_status = 'rejected'`
+      )
+    );
+  }
+
+  /**
+   * Get the sync status of a statement, and the error of its last failed attempt
+   */
+  async getStatementSyncStatus(
+    statementId: string
+  ): Promise<{ status: StatementSyncStatus; error?: string } | null> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const result = await this.libsqlClient.execute({
+      sql: 'SELECT sync_status, sync_error FROM xapi_statements WHERE id = ?',
+      args: [statementId],
+    });
+    const row = result.rows[0];
+    if (!row) return null;
+
+    const status = String(row[0]) as StatementSyncStatus;
+    return row[1] === null ? { status } : { status, error: String(row[1]) };
+  }
+
+  /**
+   * Mark statements as being sent, so concurrent syncs do not pick them up again
+   */
+  async markStatementsInFlight(statementIds: string[]): Promise<void> {
+    await this.setSyncStatus(statementIds, 'in_flight', null);
+  }
+
+  /**
+   * Mark statements as acknowledged by the remote LRS
+   */
+  async markStatementsSynced(statementIds: string[]): Promise<void> {
+    await this.setSyncStatus(statementIds, 'synced', null, new Date().toISOString());
+  }
+
+  /**
+   * Mark statements as failed, keeping the error; they are retried by the next sync
+   */
+  async markStatementsFailed(statementIds: string[], error: string): Promise<void> {
+    await this.setSyncStatus(statementIds, 'failed', error);
+  }
+
+  /**
+   * Mark statements as rejected by the remote LRS for good (e.g. 400 or 409), keeping
+   * the error; they are set aside so the statements after them can still be sent
+   */
+  async markStatementsRejected(statementIds: string[], error: string): Promise<void> {
+    await this.setSyncStatus(statementIds, 'rejected', error);
+  }
+
+  /**
+   * Get a value kept by cloud sync between runs (e.g. the pull cursor)
+   */
+  async getSyncMetadata(key: string): Promise<string | null> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const result = await this.libsqlClient.execute({
+      sql: 'SELECT value FROM sync_metadata WHERE key = ?',
+      args: [key],
+    });
+    const row = result.rows[0];
+    return row ? String(row[0]) : null;
+  }
+
+  /**
+   * Set a value kept by cloud sync between runs
+   */
+  async setSyncMetadata(key: string, value: string): Promise<void> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+    const client = this.libsqlClient;
+
+    await this.exclusive(() =>
+      client.execute({
+        sql: `INSERT INTO sync_metadata (key, value) VALUES (?, ?)
+              ON CONFLICT (key) DO UPDATE SET value = excluded.value`,
+        args: [key, value],
+      })
+    );
+  }
+
+  /**
+   * Return statements left in flight (e.g. by a closed tab) to pending
+   */
+  async resetInFlightStatements(): Promise<void> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+    const client = this.libsqlClient;
+
+    await this.exclusive(() =>
+      client.execute(
+        "UPDATE xapi_statements SET sync_status = 'pending' WHERE sync_status = 'in_flight'"
+      )
+    );
+  }
+
+  private async setSyncStatus(
+    statementIds: string[],
+    status: StatementSyncStatus,
+    error: string | null,
+    syncedAt: string | null = null
+  ): Promise<void> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+    const client = this.libsqlClient;
+
+    await this.exclusive(async () => {
+      for (const chunk of chunked([...new Set(statementIds)])) {
+        await client.execute({
+          sql: `UPDATE xapi_statements SET sync_status = ?, sync_error = ?, synced_at = ?
+                WHERE id IN (${placeholders(chunk)})`,
+          args: [status, error, syncedAt, ...chunk],
+        });
+      }
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Activities and Agents Resources
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Get the canonical definition of an activity, merged from every stored statement that mentions it
+   * Statements are merged oldest first, so later definitions win per language and per property
+   *
+   * @returns The activity, with only its id if no statement defines it
+   */
+  async getActivity(activityId: string): Promise<Activity> {
+    let activity: Activity = { objectType: 'Activity', id: activityId };
+
+    const pages = this.streamStatements({
+      activity: activityId,
+      related_activities: true,
+      ascending: true,
+      limit: MAX_STATEMENT_PAGE_SIZE,
+    });
+    for await (const statements of pages) {
+      for (const statement of statements) {
+        for (const occurrence of findActivities(statement, activityId)) {
+          activity = mergeActivity(activity, occurrence);
+        }
+      }
+    }
+
+    return activity;
+  }
+
+  /**
+   * Get a Person combining every name and IFI seen for an agent in stored statements
+   * Agents given by mbox also pick up statements that identify them by mbox_sha1sum
+   */
+  async getPerson(agent: string | Agent): Promise<Person> {
+    const parsed = parseAgentParameter(agent);
+    const person = addToPerson({ objectType: 'Person' }, parsed);
+
+    const identities = [parsed];
+    if (parsed.mbox) {
+      identities.push({ objectType: parsed.objectType, mbox_sha1sum: await sha1Hex(parsed.mbox) });
+    }
+
+    for (const identity of identities) {
+      const ifiKey = getAgentIFIKey(identity)!;
+      const pages = this.streamStatements({
+        agent: identity,
+        related_agents: true,
+        ascending: true,
+        limit: MAX_STATEMENT_PAGE_SIZE,
+      });
+      for await (const statements of pages) {
+        for (const statement of statements) {
+          for (const found of findAgents(statement, ifiKey)) addToPerson(person, found);
+        }
+      }
+    }
+
+    return person;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Profile Methods (xAPI Activity Profile and Agent Profile resources)
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Save an activity profile, replacing the stored document
+   * Throws PreconditionFailedError if an If-Match / If-None-Match precondition fails
+   *
+   * @returns ETag of the saved document
+   */
+  async saveActivityProfile(
+    activityId: string,
+    profileId: string,
+    profile: unknown,
+    options: DocumentWriteOptions = {}
+  ): Promise<string> {
+    return this.writeProfile(ACTIVITY_PROFILES, activityId, profileId, () => profile, options);
+  }
+
+  /**
+   * Merge a JSON object into an activity profile (xAPI POST semantics)
+   * Throws DocumentMergeError if either document is not a JSON object
+   *
+   * @returns ETag of the merged document
+   */
+  async mergeActivityProfile(
+    activityId: string,
+    profileId: string,
+    profile: Record<string, unknown>,
+    options: DocumentWriteOptions = {}
+  ): Promise<string> {
+    return this.writeProfile(
+      ACTIVITY_PROFILES,
+      activityId,
+      profileId,
+      (current) => mergeDocuments(current, profile),
+      options
+    );
+  }
+
+  /**
+   * Get an activity profile with its ETag
+   */
+  async getActivityProfile(activityId: string, profileId: string): Promise<StoredDocument | null> {
+    return this.readProfile(ACTIVITY_PROFILES, activityId, profileId);
+  }
+
+  /**
+   * List the profileIds stored for an activity
+   *
+   * @param since - Only include documents updated after this time (ISO 8601)
+   */
+  async listActivityProfileIds(activityId: string, since?: string): Promise<string[]> {
+    return this.listProfileIds(ACTIVITY_PROFILES, activityId, since);
+  }
+
+  /**
+   * Delete an activity profile
+   * Throws PreconditionFailedError if an If-Match precondition fails
+   */
+  async deleteActivityProfile(
+    activityId: string,
+    profileId: string,
+    options: DocumentWriteOptions = {}
+  ): Promise<void> {
+    await this.deleteProfile(ACTIVITY_PROFILES, activityId, profileId, options);
+  }
+
+  /**
+   * Save an agent profile, replacing the stored document
+   * Profiles are keyed by the agent's IFI, so any name or objectType finds the same document
+   * Throws PreconditionFailedError if an If-Match / If-None-Match precondition fails
+   *
+   * @returns ETag of the saved document
+   */
+  async saveAgentProfile(
+    agent: Agent,
+    profileId: string,
+    profile: unknown,
+    options: DocumentWriteOptions = {}
+  ): Promise<string> {
+    return this.writeProfile(
+      AGENT_PROFILES,
+      requireAgentIFIKey(agent),
+      profileId,
+      () => profile,
+      options,
+      { agent: JSON.stringify(agent) }
+    );
+  }
+
+  /**
+   * Merge a JSON object into an agent profile (xAPI POST semantics)
+   * Throws DocumentMergeError if either document is not a JSON object
+   *
+   * @returns ETag of the merged document
+   */
+  async mergeAgentProfile(
+    agent: Agent,
+    profileId: string,
+    profile: Record<string, unknown>,
+    options: DocumentWriteOptions = {}
+  ): Promise<string> {
+    return this.writeProfile(
+      AGENT_PROFILES,
+      requireAgentIFIKey(agent),
+      profileId,
+      (current) => mergeDocuments(current, profile),
+      options,
+      { agent: JSON.stringify(agent) }
+    );
+  }
+
+  /**
+   * Get an agent profile with its ETag
+   */
+  async getAgentProfile(agent: Agent, profileId: string): Promise<StoredDocument | null> {
+    return this.readProfile(AGENT_PROFILES, requireAgentIFIKey(agent), profileId);
+  }
+
+  /**
+   * List the profileIds stored for an agent
+   *
+   * @param since - Only include documents updated after this time (ISO 8601)
+   */
+  async listAgentProfileIds(agent: Agent, since?: string): Promise<string[]> {
+    return this.listProfileIds(AGENT_PROFILES, requireAgentIFIKey(agent), since);
+  }
+
+  /**
+   * Delete an agent profile
+   * Throws PreconditionFailedError if an If-Match precondition fails
+   */
+  async deleteAgentProfile(
+    agent: Agent,
+    profileId: string,
+    options: DocumentWriteOptions = {}
+  ): Promise<void> {
+    await this.deleteProfile(AGENT_PROFILES, requireAgentIFIKey(agent), profileId, options);
+  }
+
+  /**
+   * Write a profile document in one transaction
+   *
+   * @param columns - Additional columns to set on the row (e.g. the agent JSON)
+   */
+  private async writeProfile(
+    resource: ProfileResource,
+    key: string,
+    profileId: string,
+    update: (current: unknown) => unknown,
+    options: DocumentWriteOptions,
+    columns: Record<string, string> = {}
+  ): Promise<string> {
+    const { table, keyColumn } = resource;
+
+    return this.writeTransaction(async (client) => {
+      const existing = await client.execute({
+        sql: `SELECT id, profile FROM ${table} WHERE ${keyColumn} = ? AND profile_id = ?`,
+        args: [key, profileId],
+      });
+      const current = existing.rows[0];
+      const currentText = current ? String(current[1]) : null;
+
+      checkPreconditions(options, currentText === null ? null : await sha1Hex(currentText));
+
+      const text = JSON.stringify(
+        update(currentText === null ? undefined : JSON.parse(currentText))
+      );
+      const updatedAt = new Date().toISOString();
+      const extraNames = Object.keys(columns);
+      const extraValues = Object.values(columns);
+
+      if (current) {
+        await client.execute({
+          sql: `UPDATE ${table} SET ${['profile', 'updated_at', ...extraNames].map((name) => `${name} = ?`).join(', ')} WHERE id = ?`,
+          args: [text, updatedAt, ...extraValues, String(current[0])],
+        });
+      } else {
+        const names = ['id', keyColumn, 'profile_id', 'profile', 'updated_at', ...extraNames];
+        await client.execute({
+          sql: `INSERT INTO ${table} (${names.join(', ')}) VALUES (${placeholders(names)})`,
+          args: [generateUUID(), key, profileId, text, updatedAt, ...extraValues],
+        });
+      }
+
+      return sha1Hex(text);
+    });
+  }
+
+  /**
+   * Read a profile document with its ETag
+   */
+  private async readProfile(
+    resource: ProfileResource,
+    key: string,
+    profileId: string
+  ): Promise<StoredDocument | null> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const result = await this.libsqlClient.execute({
+      sql: `SELECT profile, updated_at FROM ${resource.table} WHERE ${resource.keyColumn} = ? AND profile_id = ?`,
+      args: [key, profileId],
+    });
+    const row = result.rows[0];
+    if (!row) return null;
+
+    const text = String(row[0]);
+    return { content: JSON.parse(text), etag: await sha1Hex(text), updated: String(row[1]) };
+  }
+
+  /**
+   * List the profileIds stored under a key
+   */
+  private async listProfileIds(
+    resource: ProfileResource,
+    key: string,
+    since?: string
+  ): Promise<string[]> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const result = await this.libsqlClient.execute({
+      sql: `SELECT profile_id FROM ${resource.table} WHERE ${resource.keyColumn} = ?${since ? ' AND updated_at > ?' : ''} ORDER BY profile_id`,
+      args: since ? [key, since] : [key],
+    });
+    return result.rows.map((row) => String(row[0]));
+  }
+
+  /**
+   * Delete a profile document, checking an If-Match precondition if given
+   */
+  private async deleteProfile(
+    resource: ProfileResource,
+    key: string,
+    profileId: string,
+    options: DocumentWriteOptions
+  ): Promise<void> {
+    const { table, keyColumn } = resource;
+
+    await this.writeTransaction(async (client) => {
+      if (options.ifMatch !== undefined) {
+        const existing = await client.execute({
+          sql: `SELECT profile FROM ${table} WHERE ${keyColumn} = ? AND profile_id = ?`,
+          args: [key, profileId],
+        });
+        const row = existing.rows[0];
+        checkPreconditions(options, row ? await sha1Hex(String(row[0])) : null);
+      }
+
+      await client.execute({
+        sql: `DELETE FROM ${table} WHERE ${keyColumn} = ? AND profile_id = ?`,
+        args: [key, profileId],
+      });
+    });
   }
 
   // ---------------------------------------------------------------------------
@@ -494,7 +1837,8 @@ export class LRSStore {
     lastReview: string,
     nextReview: string,
     reviewCount: number,
-    firstReview?: string
+    firstReview?: string,
+    activityMastery?: Record<string, import('../types/fsrs').FSRSActivityMastery>
   ): Promise<void> {
     if (!this.db) throw new Error('LRS not initialized');
 
@@ -508,33 +1852,17 @@ export class LRSStore {
       nextReview,
       reviewCount,
       firstReview,
+      activityMastery,
     };
 
-    // Use upsert pattern - delete existing and insert new
-    const id = generateUUID();
-    const updatedAt = new Date().toISOString();
-
-    // Delete existing state first
-    await this.db
-      .delete(cmi5StateTable)
-      .where(
-        and(
-          eq(cmi5StateTable.registration, registration),
-          eq(cmi5StateTable.activityId, activityId),
-          eq(cmi5StateTable.stateId, stateId)
-        )
-      );
-
-    // Insert new state
-    await this.db.insert(cmi5StateTable).values({
-      id,
+    await this.writeStateDocument(
       registration,
       activityId,
-      agent: agent as any,
+      agent,
       stateId,
-      state: fsrsExtension as any,
-      updatedAt,
-    });
+      () => fsrsExtension,
+      {}
+    );
   }
 
   /**
@@ -555,8 +1883,7 @@ export class LRSStore {
       .from(cmi5StateTable)
       .where(
         and(
-          eq(cmi5StateTable.registration, registration),
-          eq(cmi5StateTable.activityId, activityId),
+          ...this.stateConditions(registration, activityId, agent),
           eq(cmi5StateTable.stateId, stateId)
         )
       )
@@ -578,13 +1905,14 @@ export class LRSStore {
   ): Promise<Map<string, import('../types/fsrs').FSRSExtension>> {
     if (!this.db) throw new Error('LRS not initialized');
 
-    // Query all states that start with 'fsrs:'
+    // Query all of the agent's states that start with 'fsrs:'
     const results = await this.db
       .select()
       .from(cmi5StateTable)
       .where(
         and(
           eq(cmi5StateTable.registration, registration),
+          this.stateAgentCondition(agent),
           sql`${cmi5StateTable.stateId} LIKE 'fsrs:%'`
         )
       );
@@ -600,4 +1928,163 @@ export class LRSStore {
 
     return statesMap;
   }
+
+  /**
+   * Append a review to the review log of a kubit
+   * Each review is a row of its own, kept apart from state documents so it is
+   * not copied by state sync
+   */
+  async appendFSRSReviewLog(
+    registration: string,
+    kubitId: string,
+    agent: Statement['actor'],
+    entry: import('../types/fsrs').FSRSReviewLogEntry
+  ): Promise<void> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+    const client = this.libsqlClient;
+    const insert = this.prepareReviewLogInsert(registration, kubitId, agent, entry);
+
+    await this.exclusive(() => insert(client));
+  }
+
+  /**
+   * Save the FSRS state of a kubit and append the review to its log in one transaction,
+   * so neither is stored without the other
+   */
+  async recordFSRSReview(
+    registration: string,
+    kubitId: string,
+    agent: Statement['actor'],
+    fsrsExtension: import('../types/fsrs').FSRSExtension,
+    entry: import('../types/fsrs').FSRSReviewLogEntry
+  ): Promise<void> {
+    const activityId = `https://polyglot.tools/kubits/${kubitId.replace(/:/g, '/')}`;
+    const saveState = this.prepareStateWrite(
+      registration,
+      activityId,
+      agent,
+      `fsrs:${kubitId}`,
+      () => fsrsExtension,
+      {}
+    );
+    const appendLog = this.prepareReviewLogInsert(registration, kubitId, agent, entry);
+
+    await this.writeTransaction(async (client) => {
+      await saveState(client);
+      await appendLog(client);
+    });
+  }
+
+  /**
+   * Prepare the insert of a review log row, to run on the write connection
+   */
+  private prepareReviewLogInsert(
+    registration: string,
+    kubitId: string,
+    agent: Statement['actor'],
+    entry: import('../types/fsrs').FSRSReviewLogEntry
+  ): (client: LibSQLClient) => Promise<unknown> {
+    const agentIfi = requireAgentIFIKey(agent as Agent);
+
+    return (client) =>
+      client.execute({
+        sql: `INSERT INTO fsrs_review_log (registration, agent_ifi, kubit_id, timestamp, entry)
+              VALUES (?, ?, ?, ?, ?)`,
+        args: [registration, agentIfi, kubitId, entry.timestamp, JSON.stringify(entry)],
+      });
+  }
+
+  /**
+   * Get the review log of a kubit, oldest review first
+   */
+  async getFSRSReviewLog(
+    registration: string,
+    kubitId: string,
+    agent: Statement['actor']
+  ): Promise<import('../types/fsrs').FSRSReviewLogEntry[]> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const result = await this.libsqlClient.execute({
+      sql: `SELECT entry FROM fsrs_review_log
+            WHERE registration = ? AND agent_ifi = ? AND kubit_id = ? ORDER BY id`,
+      args: [registration, requireAgentIFIKey(agent as Agent), kubitId],
+    });
+    return result.rows.map(
+      (row) => JSON.parse(String(row[0])) as import('../types/fsrs').FSRSReviewLogEntry
+    );
+  }
+
+  /**
+   * Get the review logs of all kubits of a registration
+   * Returns a Map of kubitId -> review log
+   */
+  async getAllFSRSReviewLogs(
+    registration: string,
+    agent: Statement['actor']
+  ): Promise<Map<string, import('../types/fsrs').FSRSReviewLogEntry[]>> {
+    if (!this.libsqlClient) throw new Error('LRS not initialized');
+
+    const result = await this.libsqlClient.execute({
+      sql: `SELECT kubit_id, entry FROM fsrs_review_log
+            WHERE registration = ? AND agent_ifi = ? ORDER BY id`,
+      args: [registration, requireAgentIFIKey(agent as Agent)],
+    });
+
+    const logs = new Map<string, import('../types/fsrs').FSRSReviewLogEntry[]>();
+    for (const row of result.rows) {
+      const kubitId = String(row[0]);
+      const entry = JSON.parse(String(row[1])) as import('../types/fsrs').FSRSReviewLogEntry;
+      const log = logs.get(kubitId) ?? [];
+      log.push(entry);
+      logs.set(kubitId, log);
+    }
+    return logs;
+  }
+
+  /**
+   * Save the FSRS scheduler configuration of a registration
+   * Uses CMI5 state storage with stateId = 'fsrs-scheduler'
+   */
+  async saveFSRSSchedulerConfig(
+    registration: string,
+    agent: Statement['actor'],
+    config: import('../types/fsrs').FSRSSchedulerConfig
+  ): Promise<void> {
+    if (!this.db) throw new Error('LRS not initialized');
+
+    await this.writeStateDocument(
+      registration,
+      FSRS_SCHEDULER_ACTIVITY_ID,
+      agent,
+      'fsrs-scheduler',
+      () => config,
+      {}
+    );
+  }
+
+  /**
+   * Get the FSRS scheduler configuration of a registration
+   */
+  async getFSRSSchedulerConfig(
+    registration: string,
+    agent: Statement['actor']
+  ): Promise<import('../types/fsrs').FSRSSchedulerConfig | null> {
+    if (!this.db) throw new Error('LRS not initialized');
+
+    const result = await this.db
+      .select()
+      .from(cmi5StateTable)
+      .where(
+        and(
+          ...this.stateConditions(registration, FSRS_SCHEDULER_ACTIVITY_ID, agent),
+          eq(cmi5StateTable.stateId, 'fsrs-scheduler')
+        )
+      )
+      .limit(1);
+
+    if (result.length === 0) return null;
+
+    // The state column stores FSRSSchedulerConfig for 'fsrs-scheduler'
+    return result[0]!.state as unknown as import('../types/fsrs').FSRSSchedulerConfig;
+  }
 }
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { Statement } from '@xapi/xapi';
+import { buildMultipartStatements, parseMultipartStatements } from './multipart';
+import { InvalidMultipartError } from './errors';
+
+const statement: Statement = {
+  actor: { mbox: 'mailto:learner@example.com' },
+  verb: { id: 'http://adlnet.gov/expapi/verbs/answered' },
+  object: { id: 'https://example.com/speaking/1' },
+};
+
+function encode(text: string): Uint8Array {
+  return new TextEncoder().encode(text);
+}
+
+describe('multipart statements', () => {
+  it('round-trips statements and binary attachments', () => {
+    const content = new Uint8Array([0, 13, 10, 45, 45, 255]);
+    const { body, contentType } = buildMultipartStatements(
+      [statement],
+      [{ sha2: 'a'.repeat(64), contentType: 'audio/webm', content }]
+    );
+
+    expect(contentType).toMatch(/^multipart\/mixed; boundary=/);
+    expect(parseMultipartStatements(body, contentType)).toEqual({
+      statements: [statement],
+      attachments: [{ sha2: 'a'.repeat(64), contentType: 'audio/webm', content }],
+    });
+  });
+
+  it('parses a request from another client with a quoted boundary and a single statement', () => {
+    const body = encode(
+      [
+        'preamble',
+        '--abc',
+        'Content-Type: application/json',
+        '',
+        JSON.stringify(statement),
+        '--abc',
+        'Content-Type: text/plain',
+        'X-Experience-API-Hash: ' + 'B'.repeat(64),
+        '',
+        'hello',
+        '--abc--',
+        '',
+      ].join('\r\n')
+    );
+
+    const parsed = parseMultipartStatements(body, 'multipart/mixed; boundary="abc"');
+    expect(parsed.statements).toEqual([statement]);
+    expect(parsed.attachments).toEqual([
+      { sha2: 'b'.repeat(64), contentType: 'text/plain', content: encode('hello') },
+    ]);
+  });
+
+  it('rejects malformed requests', () => {
+    const part = (headers: string) => encode(`--abc\r\n${headers}\r\n\r\n{}\r\n--abc--\r\n`);
+
+    expect(() => parseMultipartStatements(part(''), 'application/json')).toThrow(
+      InvalidMultipartError
+    );
+    expect(() =>
+      parseMultipartStatements(part('Content-Type: text/plain'), 'multipart/mixed; boundary=abc')
+    ).toThrow(InvalidMultipartError);
+    expect(() =>
+      parseMultipartStatements(encode('--abc\r\n'), 'multipart/mixed; boundary=abc')
+    ).toThrow(InvalidMultipartError);
+  });
+});
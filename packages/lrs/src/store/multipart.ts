@@ -0,0 +1,173 @@
+/**
+ * Multipart Statement Requests
+ *
+ * Parsing and generation of the multipart/mixed format the xAPI statement
+ * resource uses to send statements together with attachment content.
+ * The first part holds the statement JSON, each further part one attachment
+ * identified by its X-Experience-API-Hash header.
+ */
+
+import type { Statement } from '@xapi/xapi';
+import type { AttachmentContent } from '../types/xapi';
+import { InvalidMultipartError } from './errors';
+
+const CRLF = '\r\n';
+const HASH_HEADER = 'x-experience-api-hash';
+
+/**
+ * Statements and attachment content of a multipart/mixed request
+ */
+export interface MultipartStatements {
+  statements: Statement[];
+  attachments: AttachmentContent[];
+}
+
+/**
+ * Parse a multipart/mixed statement request
+ * Throws InvalidMultipartError if the body does not follow the xAPI multipart format
+ *
+ * @param contentType - Content-Type header of the request, including its boundary
+ */
+export function parseMultipartStatements(
+  body: Uint8Array,
+  contentType: string
+): MultipartStatements {
+  const boundary = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  if (!/^multipart\/mixed\b/i.test(contentType) || !boundary) {
+    throw new InvalidMultipartError('Expected multipart/mixed content with a boundary');
+  }
+
+  const [first, ...rest] = splitParts(body, boundary[1] ?? boundary[2]!);
+  if (!first || !/^application\/json\b/i.test(first.headers['content-type'] ?? '')) {
+    throw new InvalidMultipartError('The first part must contain the statements as JSON');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(first.content));
+  } catch {
+    throw new InvalidMultipartError('Invalid statement JSON in the first part');
+  }
+
+  const attachments = rest.map((part) => {
+    const sha2 = part.headers[HASH_HEADER];
+    if (!sha2) {
+      throw new InvalidMultipartError('Attachment parts must have an X-Experience-API-Hash header');
+    }
+    return {
+      sha2: sha2.toLowerCase(),
+      contentType: part.headers['content-type'] ?? 'application/octet-stream',
+      content: part.content,
+    };
+  });
+
+  return {
+    statements: (Array.isArray(parsed) ? parsed : [parsed]) as Statement[],
+    attachments,
+  };
+}
+
+/**
+ * Build a multipart/mixed statement request
+ * A single statement is sent as an object, several as an array
+ *
+ * @returns The request body and its Content-Type header
+ */
+export function buildMultipartStatements(
+  statements: Statement | Statement[],
+  attachments: AttachmentContent[],
+  boundary = generateBoundary()
+): { body: Uint8Array; contentType: string } {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const addPart = (headers: Record<string, string>, content: Uint8Array) => {
+    const head = Object.entries(headers)
+      .map(([name, value]) => `${name}: ${value}${CRLF}`)
+      .join('');
+    chunks.push(
+      encoder.encode(`--${boundary}${CRLF}${head}${CRLF}`),
+      content,
+      encoder.encode(CRLF)
+    );
+  };
+
+  addPart({ 'Content-Type': 'application/json' }, encoder.encode(JSON.stringify(statements)));
+  for (const attachment of attachments) {
+    addPart(
+      {
+        'Content-Type': attachment.contentType,
+        'Content-Transfer-Encoding': 'binary',
+        'X-Experience-API-Hash': attachment.sha2,
+      },
+      attachment.content
+    );
+  }
+  chunks.push(encoder.encode(`--${boundary}--${CRLF}`));
+
+  return { body: concat(chunks), contentType: `multipart/mixed; boundary=${boundary}` };
+}
+
+/**
+ * Split a multipart body into parts with lower-cased header names
+ */
+function splitParts(
+  body: Uint8Array,
+  boundary: string
+): Array<{ headers: Record<string, string>; content: Uint8Array }> {
+  const encoder = new TextEncoder();
+  const delimiter = encoder.encode(`--${boundary}`);
+  const nextDelimiter = encoder.encode(`${CRLF}--${boundary}`);
+  const separator = encoder.encode(`${CRLF}${CRLF}`);
+  const parts: Array<{ headers: Record<string, string>; content: Uint8Array }> = [];
+
+  let start = indexOf(body, delimiter, 0);
+  if (start === -1) throw new InvalidMultipartError('Boundary not found in multipart body');
+
+  for (;;) {
+    const partStart = start + delimiter.length;
+    // "--" after the delimiter closes the body
+    if (body[partStart] === 0x2d && body[partStart + 1] === 0x2d) return parts;
+
+    const next = indexOf(body, nextDelimiter, partStart);
+    if (next === -1) throw new InvalidMultipartError('Multipart body is not terminated');
+
+    const part = body.subarray(partStart + CRLF.length, next);
+    const headerEnd = indexOf(part, separator, 0);
+    if (headerEnd === -1) throw new InvalidMultipartError('Multipart part has no header section');
+
+    const headers: Record<string, string> = {};
+    for (const line of new TextDecoder().decode(part.subarray(0, headerEnd)).split(CRLF)) {
+      const colon = line.indexOf(':');
+      if (colon === -1) continue;
+      headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1).trim();
+    }
+    parts.push({ headers, content: part.slice(headerEnd + separator.length) });
+
+    start = next + CRLF.length;
+  }
+}
+
+function indexOf(haystack: Uint8Array, needle: Uint8Array, from: number): number {
+  outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
+
+function generateBoundary(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return `xapi-${Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+}
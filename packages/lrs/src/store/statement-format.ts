@@ -0,0 +1,287 @@
+/**
+ * Statement Formatting
+ *
+ * Normalization applied when statements are stored, and the `ids` and
+ * `canonical` output formats from the xAPI statement resource.
+ */
+
+import type { Statement } from '@xapi/xapi';
+import type { StatementQueryParams } from '../types/xapi';
+
+type JsonObject = Record<string, any>;
+
+const CONTEXT_ACTIVITY_KEYS = ['parent', 'grouping', 'category', 'other'] as const;
+const INTERACTION_COMPONENT_KEYS = ['choices', 'scale', 'source', 'target', 'steps'] as const;
+
+/**
+ * Normalize a statement for storage
+ * Context activities given as single objects are converted to arrays, as the spec requires
+ */
+export function normalizeStatement<T extends Statement>(statement: T): T {
+  const normalized: JsonObject = { ...statement };
+
+  normalized.context = normalizeContext(normalized.context);
+  if (normalized.object?.objectType === 'SubStatement') {
+    normalized.object = {
+      ...normalized.object,
+      context: normalizeContext(normalized.object.context),
+    };
+  }
+
+  return stripUndefined(normalized) as T;
+}
+
+function normalizeContext(context: JsonObject | undefined): JsonObject | undefined {
+  if (!context?.contextActivities) return context;
+
+  const contextActivities: JsonObject = {};
+  for (const key of CONTEXT_ACTIVITY_KEYS) {
+    const value = context.contextActivities[key];
+    if (value === undefined) continue;
+    contextActivities[key] = Array.isArray(value) ? value : [value];
+  }
+
+  return { ...context, contextActivities };
+}
+
+function stripUndefined(object: JsonObject): JsonObject {
+  for (const key of Object.keys(object)) {
+    if (object[key] === undefined) delete object[key];
+  }
+  return object;
+}
+
+/**
+ * Format a stored statement for output
+ *
+ * @param statement - Stored statement
+ * @param format - 'exact' (as stored), 'ids' (identifiers only) or 'canonical' (single language)
+ * @param languages - Preferred languages for the canonical format, in order
+ */
+export function formatStatement<T extends Statement>(
+  statement: T,
+  format: NonNullable<StatementQueryParams['format']> = 'exact',
+  languages: string[] = []
+): T {
+  switch (format) {
+    case 'ids':
+      return toIdsFormat(statement) as T;
+    case 'canonical':
+      return toCanonicalFormat(statement, languages) as T;
+    default:
+      return statement;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// ids format
+// -----------------------------------------------------------------------------
+
+function toIdsFormat(statement: JsonObject): JsonObject {
+  const formatted: JsonObject = {
+    ...statement,
+    actor: agentIds(statement.actor),
+    verb: { id: statement.verb.id },
+    object: objectIds(statement.object),
+  };
+  if (statement.authority) formatted.authority = agentIds(statement.authority);
+  if (statement.context) formatted.context = contextIds(statement.context);
+  return formatted;
+}
+
+function agentIds(agent: JsonObject): JsonObject {
+  const ids: JsonObject = { objectType: agent.objectType ?? 'Agent' };
+  if (agent.mbox) ids.mbox = agent.mbox;
+  else if (agent.mbox_sha1sum) ids.mbox_sha1sum = agent.mbox_sha1sum;
+  else if (agent.openid) ids.openid = agent.openid;
+  else if (agent.account) ids.account = agent.account;
+  else if (Array.isArray(agent.member)) ids.member = agent.member.map(agentIds);
+  return ids;
+}
+
+function objectIds(object: JsonObject): JsonObject {
+  switch (object.objectType) {
+    case 'Agent':
+    case 'Group':
+      return agentIds(object);
+    case 'StatementRef':
+      return object;
+    case 'SubStatement': {
+      const formatted: JsonObject = {
+        ...object,
+        actor: agentIds(object.actor),
+        verb: { id: object.verb.id },
+        object: objectIds(object.object),
+      };
+      if (object.context) formatted.context = contextIds(object.context);
+      return formatted;
+    }
+    default:
+      return { objectType: 'Activity', id: object.id };
+  }
+}
+
+function contextIds(context: JsonObject): JsonObject {
+  const formatted: JsonObject = { ...context };
+  if (context.instructor) formatted.instructor = agentIds(context.instructor);
+  if (context.team) formatted.team = agentIds(context.team);
+  if (context.contextActivities) {
+    formatted.contextActivities = mapContextActivities(context.contextActivities, (activity) =>
+      objectIds(activity)
+    );
+  }
+  return formatted;
+}
+
+// -----------------------------------------------------------------------------
+// canonical format
+// -----------------------------------------------------------------------------
+
+function toCanonicalFormat(statement: JsonObject, languages: string[]): JsonObject {
+  const formatted: JsonObject = {
+    ...statement,
+    verb: canonicalVerb(statement.verb, languages),
+    object: canonicalObject(statement.object, languages),
+  };
+  if (statement.context) formatted.context = canonicalContext(statement.context, languages);
+  if (Array.isArray(statement.attachments)) {
+    formatted.attachments = statement.attachments.map((attachment: JsonObject) =>
+      withLanguageMaps(attachment, ['display', 'description'], languages)
+    );
+  }
+  return formatted;
+}
+
+function canonicalVerb(verb: JsonObject, languages: string[]): JsonObject {
+  return withLanguageMaps(verb, ['display'], languages);
+}
+
+function canonicalObject(object: JsonObject, languages: string[]): JsonObject {
+  if (object.objectType === 'SubStatement') {
+    const formatted: JsonObject = {
+      ...object,
+      verb: canonicalVerb(object.verb, languages),
+      object: canonicalObject(object.object, languages),
+    };
+    if (object.context) formatted.context = canonicalContext(object.context, languages);
+    return formatted;
+  }
+  if (object.objectType !== undefined && object.objectType !== 'Activity') return object;
+  return canonicalActivity(object, languages);
+}
+
+function canonicalActivity(activity: JsonObject, languages: string[]): JsonObject {
+  if (!activity.definition) return activity;
+
+  const definition = withLanguageMaps(activity.definition, ['name', 'description'], languages);
+  for (const key of INTERACTION_COMPONENT_KEYS) {
+    if (Array.isArray(definition[key])) {
+      definition[key] = definition[key].map((component: JsonObject) =>
+        withLanguageMaps(component, ['description'], languages)
+      );
+    }
+  }
+
+  return { ...activity, definition };
+}
+
+function canonicalContext(context: JsonObject, languages: string[]): JsonObject {
+  if (!context.contextActivities) return context;
+  return {
+    ...context,
+    contextActivities: mapContextActivities(context.contextActivities, (activity) =>
+      canonicalActivity(activity, languages)
+    ),
+  };
+}
+
+function withLanguageMaps(object: JsonObject, keys: string[], languages: string[]): JsonObject {
+  const formatted: JsonObject = { ...object };
+  for (const key of keys) {
+    if (formatted[key]) formatted[key] = pickLanguage(formatted[key], languages);
+  }
+  return formatted;
+}
+
+/**
+ * Reduce a language map to the single best-matching entry
+ * Falls back from exact tag to primary subtag, then en-US, then the first entry
+ */
+export function pickLanguage(
+  map: Record<string, string>,
+  languages: string[]
+): Record<string, string> {
+  const entries = Object.keys(map);
+  if (entries.length <= 1) return map;
+
+  const preferred = [...languages, 'en-US', 'en'];
+  for (const language of preferred) {
+    const exact = entries.find((key) => key.toLowerCase() === language.toLowerCase());
+    if (exact) return { [exact]: map[exact]! };
+
+    const primary = language.split('-')[0]!.toLowerCase();
+    const partial = entries.find((key) => key.split('-')[0]!.toLowerCase() === primary);
+    if (partial) return { [partial]: map[partial]! };
+  }
+
+  const first = entries[0]!;
+  return { [first]: map[first]! };
+}
+
+function mapContextActivities(
+  contextActivities: JsonObject,
+  mapper: (activity: JsonObject) => JsonObject
+): JsonObject {
+  const mapped: JsonObject = {};
+  for (const [key, value] of Object.entries(contextActivities)) {
+    mapped[key] = Array.isArray(value) ? value.map(mapper) : mapper(value as JsonObject);
+  }
+  return mapped;
+}
+
+// -----------------------------------------------------------------------------
+// signature comparison
+// -----------------------------------------------------------------------------
+
+/** Properties set by the LRS, which are not part of a statement's signature */
+const NON_SIGNATURE_KEYS = ['stored', 'authority', 'version'];
+
+/**
+ * Check whether two statements have the same signature
+ * `stored`, `authority` and `version` are ignored, timestamps are compared as
+ * instants and context activities are normalized before comparing
+ */
+export function isSameStatement(a: Statement, b: Statement): boolean {
+  return deepEqual(signature(a), signature(b));
+}
+
+function signature(statement: Statement): JsonObject {
+  const normalized: JsonObject = normalizeStatement(statement);
+  const result: JsonObject = {};
+  for (const [key, value] of Object.entries(normalized)) {
+    if (!NON_SIGNATURE_KEYS.includes(key)) result[key] = value;
+  }
+  if (typeof result.timestamp === 'string') {
+    const time = Date.parse(result.timestamp);
+    if (!Number.isNaN(time)) result.timestamp = time;
+  }
+  return result;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return a.length === other.length && a.every((item, i) => deepEqual(item, other[i]));
+  }
+
+  const aKeys = Object.keys(a).filter((key) => (a as JsonObject)[key] !== undefined);
+  const bKeys = Object.keys(b).filter((key) => (b as JsonObject)[key] !== undefined);
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => deepEqual((a as JsonObject)[key], (b as JsonObject)[key]))
+  );
+}
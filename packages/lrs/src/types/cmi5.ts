@@ -79,7 +79,7 @@ export interface CMI5Extensions {
   /** CMI5 mastery score */
   masteryScore?: number;
   /** CMI5 move-on criteria */
-  moveOn?: 'Passed' | 'Completed' | 'CompletedAndPassed' | 'NotApplicable';
+  moveOn?: 'Passed' | 'Completed' | 'CompletedAndPassed' | 'CompletedOrPassed' | 'NotApplicable';
 }
 
 /**
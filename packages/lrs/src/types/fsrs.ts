@@ -117,6 +117,62 @@ export interface FSRSExtension {
   reviewCount: number;
   /** First review timestamp (ISO 8601) */
   firstReview?: string;
+  /** Performance per activity type */
+  activityMastery?: Record<string, FSRSActivityMastery>;
+}
+
+/**
+ * Performance of a kubit in one activity type
+ */
+export interface FSRSActivityMastery {
+  /** Total attempts */
+  attempts: number;
+  /** Correct attempts */
+  correct: number;
+  /** Last attempt timestamp (ISO 8601) */
+  lastAttempt: string;
+  /** Average response time in milliseconds */
+  avgResponseTime: number;
+}
+
+/**
+ * A single review of a kubit, stored for every review
+ * Stored as a row of the FSRS review log, apart from state documents
+ */
+export interface FSRSReviewLogEntry {
+  /** Review timestamp (ISO 8601) */
+  timestamp: string;
+  /** Activity type used */
+  activity: string;
+  /** Rating given */
+  rating: FSRSRating;
+  /** Response time in milliseconds */
+  responseTime: number;
+  /** Whether the answer was correct */
+  wasCorrect: boolean;
+  /** FSRS state before the review */
+  stateBefore: FSRSState;
+  /** FSRS state after the review */
+  stateAfter: FSRSState;
+}
+
+/**
+ * FSRS scheduler configuration of a registration, e.g. weights fitted to its reviews
+ * Stored in CMI5 state storage with stateId = 'fsrs-scheduler'
+ */
+export interface FSRSSchedulerConfig {
+  /** Probability of recall reviews are scheduled at */
+  requestRetention?: number;
+  /** Longest interval in days */
+  maximumInterval?: number;
+  /** Model weights */
+  weights?: number[];
+  /** Whether intervals are randomized slightly */
+  enableFuzz?: boolean;
+  /** When the weights were last optimized (ISO 8601) */
+  optimizedAt?: string;
+  /** Number of reviews the weights were optimized on */
+  reviewCount?: number;
 }
 
 /**
@@ -5,6 +5,12 @@
  * https://github.com/adlnet/xAPI-Spec
  */
 
+/**
+ * Voided verb IRI
+ * Statements using this verb void the statement referenced by their StatementRef object
+ */
+export const XAPI_VOIDED_VERB_IRI = 'http://adlnet.gov/expapi/verbs/voided';
+
 /**
  * xAPI Statement
  */
@@ -75,6 +81,26 @@ export interface Group {
   member?: Agent[];
 }
 
+/**
+ * Person (everything known about one learner, as returned by the xAPI Agents resource)
+ */
+export interface Person {
+  objectType: 'Person';
+  /** Names seen for the person */
+  name?: string[];
+  /** Emails (mbox) */
+  mbox?: string[];
+  /** Email SHA1s */
+  mbox_sha1sum?: string[];
+  /** OpenIDs */
+  openid?: string[];
+  /** Accounts */
+  account?: Array<{
+    homePage: string;
+    name: string;
+  }>;
+}
+
 /**
  * Verb (action performed)
  */
@@ -245,6 +271,18 @@ export interface Attachment {
   fileUrl?: string;
 }
 
+/**
+ * Attachment Content (raw data of an attachment, keyed by its SHA-2 hash)
+ */
+export interface AttachmentContent {
+  /** SHA-2 hash (hex), as in `Attachment.sha2` */
+  sha2: string;
+  /** Content type */
+  contentType: string;
+  /** Raw data */
+  content: Uint8Array;
+}
+
 /**
  * Statement Query Parameters
  */
@@ -253,17 +291,17 @@ export interface StatementQueryParams {
   statementId?: string;
   /** Voided statement ID */
   voidedStatementId?: string;
-  /** Agent (JSON) */
-  agent?: string;
+  /** Agent or identified Group (JSON or object), matched by IFI */
+  agent?: string | Agent | Group;
   /** Verb ID */
   verb?: string;
   /** Activity ID */
   activity?: string;
   /** Registration ID */
   registration?: string;
-  /** Related activities */
+  /** Also match the activity in context activities and sub-statements */
   related_activities?: boolean;
-  /** Related agents */
+  /** Also match the agent as authority, instructor, team, group member or in sub-statements */
   related_agents?: boolean;
   /** Since (ISO 8601) */
   since?: string;
@@ -273,9 +311,11 @@ export interface StatementQueryParams {
   limit?: number;
   /** Format */
   format?: 'ids' | 'exact' | 'canonical';
-  /** Attachments */
+  /** Preferred languages for the canonical format (like Accept-Language), in order */
+  languages?: string[];
+  /** Include the content of the statements' attachments in the result */
   attachments?: boolean;
-  /** Ascending */
+  /** Ascending (oldest stored first, default: false) */
   ascending?: boolean;
 }
 
@@ -287,4 +327,6 @@ export interface StatementResult {
   statements: Statement[];
   /** More URL (for pagination) */
   more?: string;
+  /** Attachment content of the statements (when requested with `attachments`) */
+  attachments?: AttachmentContent[];
 }
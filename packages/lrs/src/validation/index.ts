@@ -0,0 +1,7 @@
+/**
+ * LRS Validation
+ *
+ * xAPI statement validation exports
+ */
+
+export * from './statement';
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { validateStatement } from './statement';
+
+function createStatement(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    actor: { mbox: 'mailto:learner@example.com', name: 'Learner' },
+    verb: { id: 'http://adlnet.gov/expapi/verbs/completed', display: { 'en-US': 'completed' } },
+    object: { id: 'https://example.com/activities/lesson-1', objectType: 'Activity' },
+    ...overrides,
+  };
+}
+
+function codesAt(statement: unknown): Array<[string, string]> {
+  return validateStatement(statement).errors.map((error) => [error.code, error.path]);
+}
+
+describe('validateStatement', () => {
+  it('accepts a valid statement', () => {
+    const result = validateStatement(
+      createStatement({
+        id: '6f1f3f5a-3c2b-4d4e-8f6a-1b2c3d4e5f60',
+        result: {
+          score: { scaled: 0.5, raw: 5, min: 0, max: 10 },
+          success: true,
+          duration: 'PT1M30.5S',
+        },
+        context: {
+          registration: 'registration-1',
+          platform: 'Web',
+          contextActivities: { parent: { id: 'https://example.com/course' } },
+        },
+        timestamp: '2024-01-15T10:30:00.000Z',
+      })
+    );
+
+    expect(result.valid).toBe(true);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('rejects non-object statements', () => {
+    expect(codesAt('statement')).toEqual([['invalid_type', '$']]);
+  });
+
+  it('reports missing required properties', () => {
+    expect(codesAt({})).toEqual([
+      ['required', '$.actor'],
+      ['required', '$.verb'],
+      ['required', '$.object'],
+    ]);
+  });
+
+  it('requires exactly one IFI on agents', () => {
+    expect(codesAt(createStatement({ actor: { name: 'No IFI' } }))).toEqual([
+      ['invalid_ifi', '$.actor'],
+    ]);
+    expect(
+      codesAt(
+        createStatement({
+          actor: { mbox: 'mailto:a@example.com', openid: 'https://example.com/openid/a' },
+        })
+      )
+    ).toEqual([['invalid_ifi', '$.actor']]);
+  });
+
+  it('validates mbox and account IFIs', () => {
+    expect(codesAt(createStatement({ actor: { mbox: 'a@example.com' } }))).toEqual([
+      ['invalid_mbox', '$.actor.mbox'],
+    ]);
+    expect(
+      codesAt(createStatement({ actor: { account: { homePage: 'example.com', name: '' } } }))
+    ).toEqual([
+      ['invalid_iri', '$.actor.account.homePage'],
+      ['invalid_account', '$.actor.account.name'],
+    ]);
+  });
+
+  it('requires members on anonymous groups', () => {
+    expect(codesAt(createStatement({ actor: { objectType: 'Group', member: [] } }))).toEqual([
+      ['invalid_group', '$.actor'],
+    ]);
+  });
+
+  it('validates verb and activity IRIs', () => {
+    expect(
+      codesAt(
+        createStatement({
+          verb: { id: 'completed' },
+          object: { id: 'lesson-1', definition: { type: 'not an iri' } },
+        })
+      )
+    ).toEqual([
+      ['invalid_iri', '$.verb.id'],
+      ['invalid_iri', '$.object.id'],
+      ['invalid_iri', '$.object.definition.type'],
+    ]);
+  });
+
+  it('rejects scaled scores outside [-1, 1] and raw outside [min, max]', () => {
+    expect(
+      codesAt(createStatement({ result: { score: { scaled: 1.5, raw: 11, min: 0, max: 10 } } }))
+    ).toEqual([
+      ['score_out_of_range', '$.result.score.scaled'],
+      ['score_out_of_range', '$.result.score.raw'],
+    ]);
+  });
+
+  it('rejects invalid ISO 8601 durations', () => {
+    expect(codesAt(createStatement({ result: { duration: '90 seconds' } }))).toEqual([
+      ['invalid_duration', '$.result.duration'],
+    ]);
+    expect(codesAt(createStatement({ result: { duration: 'PT' } }))).toEqual([
+      ['invalid_duration', '$.result.duration'],
+    ]);
+  });
+
+  it('only allows revision and platform for Activity objects', () => {
+    expect(
+      codesAt(
+        createStatement({
+          object: { objectType: 'Agent', mbox: 'mailto:other@example.com' },
+          context: { revision: '2', platform: 'Web' },
+        })
+      )
+    ).toEqual([
+      ['context_not_allowed', '$.context.revision'],
+      ['context_not_allowed', '$.context.platform'],
+    ]);
+  });
+
+  it('reports indexed paths inside context activities', () => {
+    expect(
+      codesAt(
+        createStatement({
+          context: {
+            contextActivities: {
+              grouping: [{ id: 'https://example.com/course' }, { id: 'bad' }],
+            },
+          },
+        })
+      )
+    ).toEqual([['invalid_iri', '$.context.contextActivities.grouping[1].id']]);
+  });
+
+  it('rejects nested SubStatements', () => {
+    const subStatement = {
+      objectType: 'SubStatement',
+      ...createStatement({ object: { objectType: 'SubStatement', ...createStatement() } }),
+    };
+    expect(codesAt(createStatement({ object: subStatement }))).toEqual([
+      ['not_allowed', '$.object.object'],
+    ]);
+  });
+
+  it('uses the provided base path', () => {
+    const result = validateStatement(createStatement({ verb: { id: 'bad' } }), '$[3]');
+    expect(result.errors[0]?.path).toBe('$[3].verb.id');
+  });
+});
@@ -0,0 +1,644 @@
+/**
+ * xAPI Statement Validation
+ *
+ * Validates statements against the xAPI 1.0.3 data model before they are
+ * stored or sent. Each problem is reported with a stable error code and the
+ * JSON path of the offending property (e.g. `$.result.score.scaled`).
+ */
+
+/**
+ * Validation error codes
+ */
+export type StatementValidationCode =
+  | 'required'
+  | 'invalid_type'
+  | 'invalid_iri'
+  | 'invalid_uuid'
+  | 'invalid_mbox'
+  | 'invalid_sha1sum'
+  | 'invalid_account'
+  | 'invalid_ifi'
+  | 'invalid_group'
+  | 'invalid_language_map'
+  | 'invalid_language_tag'
+  | 'invalid_timestamp'
+  | 'invalid_duration'
+  | 'invalid_version'
+  | 'invalid_interaction_type'
+  | 'score_out_of_range'
+  | 'context_not_allowed'
+  | 'not_allowed';
+
+/**
+ * A single validation problem
+ */
+export interface StatementValidationIssue {
+  /** Error code */
+  code: StatementValidationCode;
+  /** JSON path of the invalid property */
+  path: string;
+  /** Human-readable message */
+  message: string;
+}
+
+/**
+ * Statement validation result
+ */
+export interface StatementValidationResult {
+  valid: boolean;
+  errors: StatementValidationIssue[];
+}
+
+const IRI_PATTERN = /^[a-z][a-z0-9+.-]*:\S+$/i;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const MBOX_PATTERN = /^mailto:[^@\s]+@[^@\s]+$/;
+const SHA1_PATTERN = /^[0-9a-f]{40}$/i;
+const LANGUAGE_TAG_PATTERN = /^[a-z]{1,8}(-[a-z0-9]{1,8})*$/i;
+const TIMESTAMP_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}(:?\d{2})?)?$/;
+const DURATION_PATTERN =
+  /^P(?=\d|T\d)(\d+(\.\d+)?Y)?(\d+(\.\d+)?M)?(\d+(\.\d+)?W)?(\d+(\.\d+)?D)?(T(?=\d)(\d+(\.\d+)?H)?(\d+(\.\d+)?M)?(\d+(\.\d+)?S)?)?$/;
+const VERSION_PATTERN = /^1\.0(\.\d+)?$/;
+
+const INTERACTION_TYPES = [
+  'true-false',
+  'choice',
+  'fill-in',
+  'long-fill-in',
+  'matching',
+  'performance',
+  'sequencing',
+  'likert',
+  'numeric',
+  'other',
+];
+
+const CONTEXT_ACTIVITY_KEYS = ['parent', 'grouping', 'category', 'other'];
+
+/**
+ * Validate an xAPI statement
+ *
+ * @param statement - Statement to validate
+ * @param path - JSON path of the statement (default: '$')
+ * @returns Validation result with all problems found
+ */
+export function validateStatement(statement: unknown, path = '$'): StatementValidationResult {
+  const errors: StatementValidationIssue[] = [];
+  const report = (code: StatementValidationCode, at: string, message: string) => {
+    errors.push({ code, path: at, message });
+  };
+
+  if (!isObject(statement)) {
+    report('invalid_type', path, 'Statement must be an object');
+    return { valid: false, errors };
+  }
+
+  if (statement.id !== undefined && !isUUID(statement.id)) {
+    report('invalid_uuid', `${path}.id`, 'Statement ID must be a UUID');
+  }
+
+  validateStatementBody(statement, path, report, false);
+
+  if (statement.version !== undefined) {
+    if (typeof statement.version !== 'string' || !VERSION_PATTERN.test(statement.version)) {
+      report('invalid_version', `${path}.version`, 'Version must be a 1.0.x version string');
+    }
+  }
+  if (statement.stored !== undefined) {
+    validateTimestamp(statement.stored, `${path}.stored`, report);
+  }
+  if (statement.authority !== undefined) {
+    validateAgentOrGroup(statement.authority, `${path}.authority`, report);
+  }
+  if (statement.attachments !== undefined) {
+    validateAttachments(statement.attachments, `${path}.attachments`, report);
+  }
+
+  return { valid: errors.length === 0, errors };
+}
+
+type Reporter = (code: StatementValidationCode, path: string, message: string) => void;
+
+/**
+ * Validate the properties shared by statements and sub-statements
+ */
+function validateStatementBody(
+  statement: Record<string, unknown>,
+  path: string,
+  report: Reporter,
+  inSubStatement: boolean
+): void {
+  if (statement.actor === undefined) {
+    report('required', `${path}.actor`, 'Actor is required');
+  } else {
+    validateAgentOrGroup(statement.actor, `${path}.actor`, report);
+  }
+
+  if (statement.verb === undefined) {
+    report('required', `${path}.verb`, 'Verb is required');
+  } else {
+    validateVerb(statement.verb, `${path}.verb`, report);
+  }
+
+  if (statement.object === undefined) {
+    report('required', `${path}.object`, 'Object is required');
+  } else {
+    validateObject(statement.object, `${path}.object`, report, inSubStatement);
+  }
+
+  if (statement.result !== undefined) {
+    validateResult(statement.result, `${path}.result`, report);
+  }
+  if (statement.context !== undefined) {
+    validateContext(statement.context, statement.object, `${path}.context`, report);
+  }
+  if (statement.timestamp !== undefined) {
+    validateTimestamp(statement.timestamp, `${path}.timestamp`, report);
+  }
+}
+
+/**
+ * Validate an Agent or Group
+ * Agents need exactly one IFI; Groups are either identified (one IFI) or anonymous (members only)
+ */
+function validateAgentOrGroup(agent: unknown, path: string, report: Reporter): void {
+  if (!isObject(agent)) {
+    report('invalid_type', path, 'Agent must be an object');
+    return;
+  }
+
+  const objectType = agent.objectType;
+  if (objectType !== undefined && objectType !== 'Agent' && objectType !== 'Group') {
+    report('invalid_type', `${path}.objectType`, 'objectType must be "Agent" or "Group"');
+    return;
+  }
+
+  if (agent.name !== undefined && !isName(agent.name)) {
+    report('invalid_type', `${path}.name`, 'Name must be a string');
+  }
+
+  const ifiCount = validateIFIs(agent, path, report);
+
+  if (objectType === 'Group') {
+    if (agent.member !== undefined) {
+      if (!Array.isArray(agent.member)) {
+        report('invalid_type', `${path}.member`, 'Group members must be an array');
+      } else {
+        agent.member.forEach((member, i) => {
+          const memberPath = `${path}.member[${i}]`;
+          if (isObject(member) && member.objectType === 'Group') {
+            report('invalid_group', memberPath, 'Group members must be Agents');
+            return;
+          }
+          validateAgentOrGroup(member, memberPath, report);
+        });
+      }
+    }
+    if (ifiCount === 0 && (!Array.isArray(agent.member) || agent.member.length === 0)) {
+      report('invalid_group', path, 'Anonymous Groups must have at least one member');
+    }
+    if (ifiCount > 1) {
+      report('invalid_ifi', path, 'Identified Groups must have exactly one IFI');
+    }
+    return;
+  }
+
+  if (agent.member !== undefined) {
+    report('not_allowed', `${path}.member`, 'Only Groups may have members');
+  }
+  if (ifiCount !== 1) {
+    report('invalid_ifi', path, 'Agents must have exactly one IFI');
+  }
+}
+
+/**
+ * Validate inverse functional identifiers and return how many are present
+ */
+function validateIFIs(agent: Record<string, unknown>, path: string, report: Reporter): number {
+  let count = 0;
+
+  if (agent.mbox !== undefined) {
+    count++;
+    if (typeof agent.mbox !== 'string' || !MBOX_PATTERN.test(agent.mbox)) {
+      report('invalid_mbox', `${path}.mbox`, 'mbox must be a mailto: IRI');
+    }
+  }
+  if (agent.mbox_sha1sum !== undefined) {
+    count++;
+    if (typeof agent.mbox_sha1sum !== 'string' || !SHA1_PATTERN.test(agent.mbox_sha1sum)) {
+      report('invalid_sha1sum', `${path}.mbox_sha1sum`, 'mbox_sha1sum must be a hex SHA-1 hash');
+    }
+  }
+  if (agent.openid !== undefined) {
+    count++;
+    validateIRI(agent.openid, `${path}.openid`, report);
+  }
+  if (agent.account !== undefined) {
+    count++;
+    const account = agent.account;
+    if (!isObject(account)) {
+      report('invalid_account', `${path}.account`, 'Account must be an object');
+    } else {
+      if (account.homePage === undefined) {
+        report('required', `${path}.account.homePage`, 'Account homePage is required');
+      } else {
+        validateIRI(account.homePage, `${path}.account.homePage`, report);
+      }
+      if (typeof account.name !== 'string' || account.name.length === 0) {
+        report(
+          'invalid_account',
+          `${path}.account.name`,
+          'Account name must be a non-empty string'
+        );
+      }
+    }
+  }
+
+  return count;
+}
+
+/**
+ * Validate a Verb
+ */
+function validateVerb(verb: unknown, path: string, report: Reporter): void {
+  if (!isObject(verb)) {
+    report('invalid_type', path, 'Verb must be an object');
+    return;
+  }
+  if (verb.id === undefined) {
+    report('required', `${path}.id`, 'Verb ID is required');
+  } else {
+    validateIRI(verb.id, `${path}.id`, report);
+  }
+  if (verb.display !== undefined) {
+    validateLanguageMap(verb.display, `${path}.display`, report);
+  }
+}
+
+/**
+ * Validate a statement object (Activity, Agent, Group, StatementRef or SubStatement)
+ */
+function validateObject(
+  object: unknown,
+  path: string,
+  report: Reporter,
+  inSubStatement: boolean
+): void {
+  if (!isObject(object)) {
+    report('invalid_type', path, 'Object must be an object');
+    return;
+  }
+
+  switch (object.objectType) {
+    case undefined:
+    case 'Activity':
+      validateActivity(object, path, report);
+      return;
+    case 'Agent':
+    case 'Group':
+      validateAgentOrGroup(object, path, report);
+      return;
+    case 'StatementRef':
+      validateStatementRef(object, path, report);
+      return;
+    case 'SubStatement':
+      if (inSubStatement) {
+        report('not_allowed', path, 'A SubStatement cannot contain a SubStatement');
+        return;
+      }
+      for (const key of ['id', 'stored', 'version', 'authority']) {
+        if (object[key] !== undefined) {
+          report('not_allowed', `${path}.${key}`, `SubStatements cannot have "${key}"`);
+        }
+      }
+      validateStatementBody(object, path, report, true);
+      return;
+    default:
+      report('invalid_type', `${path}.objectType`, 'Unknown objectType');
+  }
+}
+
+/**
+ * Validate an Activity and its definition
+ */
+function validateActivity(activity: unknown, path: string, report: Reporter): void {
+  if (!isObject(activity)) {
+    report('invalid_type', path, 'Activity must be an object');
+    return;
+  }
+  if (activity.objectType !== undefined && activity.objectType !== 'Activity') {
+    report('invalid_type', `${path}.objectType`, 'objectType must be "Activity"');
+  }
+  if (activity.id === undefined) {
+    report('required', `${path}.id`, 'Activity ID is required');
+  } else {
+    validateIRI(activity.id, `${path}.id`, report);
+  }
+
+  const definition = activity.definition;
+  if (definition === undefined) return;
+  const definitionPath = `${path}.definition`;
+  if (!isObject(definition)) {
+    report('invalid_type', definitionPath, 'Activity definition must be an object');
+    return;
+  }
+  if (definition.name !== undefined) {
+    validateLanguageMap(definition.name, `${definitionPath}.name`, report);
+  }
+  if (definition.description !== undefined) {
+    validateLanguageMap(definition.description, `${definitionPath}.description`, report);
+  }
+  if (definition.type !== undefined) {
+    validateIRI(definition.type, `${definitionPath}.type`, report);
+  }
+  if (definition.moreInfo !== undefined) {
+    validateIRI(definition.moreInfo, `${definitionPath}.moreInfo`, report);
+  }
+  if (definition.extensions !== undefined) {
+    validateExtensions(definition.extensions, `${definitionPath}.extensions`, report);
+  }
+  if (definition.interactionType !== undefined) {
+    if (
+      typeof definition.interactionType !== 'string' ||
+      !INTERACTION_TYPES.includes(definition.interactionType)
+    ) {
+      report(
+        'invalid_interaction_type',
+        `${definitionPath}.interactionType`,
+        `interactionType must be one of: ${INTERACTION_TYPES.join(', ')}`
+      );
+    }
+  }
+}
+
+/**
+ * Validate a StatementRef
+ */
+function validateStatementRef(ref: unknown, path: string, report: Reporter): void {
+  if (!isObject(ref)) {
+    report('invalid_type', path, 'StatementRef must be an object');
+    return;
+  }
+  if (ref.objectType !== 'StatementRef') {
+    report('invalid_type', `${path}.objectType`, 'objectType must be "StatementRef"');
+  }
+  if (!isUUID(ref.id)) {
+    report('invalid_uuid', `${path}.id`, 'StatementRef ID must be a UUID');
+  }
+}
+
+/**
+ * Validate a Result
+ */
+function validateResult(result: unknown, path: string, report: Reporter): void {
+  if (!isObject(result)) {
+    report('invalid_type', path, 'Result must be an object');
+    return;
+  }
+
+  if (result.score !== undefined) {
+    validateScore(result.score, `${path}.score`, report);
+  }
+  for (const key of ['success', 'completion']) {
+    if (result[key] !== undefined && typeof result[key] !== 'boolean') {
+      report('invalid_type', `${path}.${key}`, `${key} must be a boolean`);
+    }
+  }
+  if (result.response !== undefined && typeof result.response !== 'string') {
+    report('invalid_type', `${path}.response`, 'response must be a string');
+  }
+  if (result.duration !== undefined) {
+    if (typeof result.duration !== 'string' || !DURATION_PATTERN.test(result.duration)) {
+      report('invalid_duration', `${path}.duration`, 'duration must be an ISO 8601 duration');
+    }
+  }
+  if (result.extensions !== undefined) {
+    validateExtensions(result.extensions, `${path}.extensions`, report);
+  }
+}
+
+/**
+ * Validate a Score
+ * scaled must be within [-1, 1] and raw within [min, max]
+ */
+function validateScore(score: unknown, path: string, report: Reporter): void {
+  if (!isObject(score)) {
+    report('invalid_type', path, 'Score must be an object');
+    return;
+  }
+
+  for (const key of ['scaled', 'raw', 'min', 'max']) {
+    if (score[key] !== undefined && !isFiniteNumber(score[key])) {
+      report('invalid_type', `${path}.${key}`, `${key} must be a number`);
+    }
+  }
+
+  const { scaled, raw, min, max } = score;
+  if (isFiniteNumber(scaled) && (scaled < -1 || scaled > 1)) {
+    report('score_out_of_range', `${path}.scaled`, 'scaled must be between -1 and 1');
+  }
+  if (isFiniteNumber(min) && isFiniteNumber(max) && min >= max) {
+    report('score_out_of_range', `${path}.min`, 'min must be less than max');
+  }
+  if (isFiniteNumber(raw)) {
+    if (isFiniteNumber(min) && raw < min) {
+      report('score_out_of_range', `${path}.raw`, 'raw must not be less than min');
+    }
+    if (isFiniteNumber(max) && raw > max) {
+      report('score_out_of_range', `${path}.raw`, 'raw must not be greater than max');
+    }
+  }
+}
+
+/**
+ * Validate a Context
+ * Registration is not required to be a UUID: local registrations use readable IDs
+ */
+function validateContext(context: unknown, object: unknown, path: string, report: Reporter): void {
+  if (!isObject(context)) {
+    report('invalid_type', path, 'Context must be an object');
+    return;
+  }
+
+  if (context.registration !== undefined && typeof context.registration !== 'string') {
+    report('invalid_type', `${path}.registration`, 'registration must be a string');
+  }
+  if (context.instructor !== undefined) {
+    validateAgentOrGroup(context.instructor, `${path}.instructor`, report);
+  }
+  if (context.team !== undefined) {
+    if (!isObject(context.team) || context.team.objectType !== 'Group') {
+      report('invalid_type', `${path}.team`, 'team must be a Group');
+    } else {
+      validateAgentOrGroup(context.team, `${path}.team`, report);
+    }
+  }
+
+  const objectIsActivity =
+    isObject(object) && (object.objectType === undefined || object.objectType === 'Activity');
+  for (const key of ['revision', 'platform']) {
+    if (context[key] === undefined) continue;
+    if (!objectIsActivity) {
+      report(
+        'context_not_allowed',
+        `${path}.${key}`,
+        `${key} is only allowed when the object is an Activity`
+      );
+    } else if (typeof context[key] !== 'string') {
+      report('invalid_type', `${path}.${key}`, `${key} must be a string`);
+    }
+  }
+
+  if (context.language !== undefined) {
+    if (typeof context.language !== 'string' || !LANGUAGE_TAG_PATTERN.test(context.language)) {
+      report(
+        'invalid_language_tag',
+        `${path}.language`,
+        'language must be an RFC 5646 language tag'
+      );
+    }
+  }
+  if (context.statement !== undefined) {
+    validateStatementRef(context.statement, `${path}.statement`, report);
+  }
+  if (context.extensions !== undefined) {
+    validateExtensions(context.extensions, `${path}.extensions`, report);
+  }
+
+  const contextActivities = context.contextActivities;
+  if (contextActivities === undefined) return;
+  const activitiesPath = `${path}.contextActivities`;
+  if (!isObject(contextActivities)) {
+    report('invalid_type', activitiesPath, 'contextActivities must be an object');
+    return;
+  }
+  for (const [key, value] of Object.entries(contextActivities)) {
+    if (!CONTEXT_ACTIVITY_KEYS.includes(key)) {
+      report('not_allowed', `${activitiesPath}.${key}`, `Unknown context activity type "${key}"`);
+      continue;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((activity, i) =>
+        validateActivity(activity, `${activitiesPath}.${key}[${i}]`, report)
+      );
+    } else {
+      validateActivity(value, `${activitiesPath}.${key}`, report);
+    }
+  }
+}
+
+/**
+ * Validate statement attachments metadata
+ */
+function validateAttachments(attachments: unknown, path: string, report: Reporter): void {
+  if (!Array.isArray(attachments)) {
+    report('invalid_type', path, 'attachments must be an array');
+    return;
+  }
+
+  attachments.forEach((attachment, i) => {
+    const attachmentPath = `${path}[${i}]`;
+    if (!isObject(attachment)) {
+      report('invalid_type', attachmentPath, 'Attachment must be an object');
+      return;
+    }
+    if (attachment.usageType === undefined) {
+      report('required', `${attachmentPath}.usageType`, 'usageType is required');
+    } else {
+      validateIRI(attachment.usageType, `${attachmentPath}.usageType`, report);
+    }
+    if (attachment.display === undefined) {
+      report('required', `${attachmentPath}.display`, 'display is required');
+    } else {
+      validateLanguageMap(attachment.display, `${attachmentPath}.display`, report);
+    }
+    if (attachment.description !== undefined) {
+      validateLanguageMap(attachment.description, `${attachmentPath}.description`, report);
+    }
+    if (typeof attachment.contentType !== 'string' || attachment.contentType.length === 0) {
+      report('required', `${attachmentPath}.contentType`, 'contentType is required');
+    }
+    if (
+      typeof attachment.length !== 'number' ||
+      !Number.isInteger(attachment.length) ||
+      attachment.length < 0
+    ) {
+      report('invalid_type', `${attachmentPath}.length`, 'length must be a non-negative integer');
+    }
+    if (typeof attachment.sha2 !== 'string' || attachment.sha2.length === 0) {
+      report('required', `${attachmentPath}.sha2`, 'sha2 is required');
+    }
+    if (attachment.fileUrl !== undefined) {
+      validateIRI(attachment.fileUrl, `${attachmentPath}.fileUrl`, report);
+    }
+  });
+}
+
+/**
+ * Validate a language map (keys are language tags, values are strings)
+ */
+function validateLanguageMap(map: unknown, path: string, report: Reporter): void {
+  if (!isObject(map)) {
+    report('invalid_language_map', path, 'Language map must be an object');
+    return;
+  }
+  for (const [language, value] of Object.entries(map)) {
+    if (!LANGUAGE_TAG_PATTERN.test(language)) {
+      report(
+        'invalid_language_tag',
+        `${path}.${language}`,
+        `"${language}" is not a valid language tag`
+      );
+    }
+    if (typeof value !== 'string') {
+      report('invalid_language_map', `${path}.${language}`, 'Language map values must be strings');
+    }
+  }
+}
+
+/**
+ * Validate an extensions map (keys must be IRIs)
+ */
+function validateExtensions(extensions: unknown, path: string, report: Reporter): void {
+  if (!isObject(extensions)) {
+    report('invalid_type', path, 'Extensions must be an object');
+    return;
+  }
+  for (const key of Object.keys(extensions)) {
+    if (!IRI_PATTERN.test(key)) {
+      report('invalid_iri', `${path}['${key}']`, 'Extension keys must be IRIs');
+    }
+  }
+}
+
+function validateIRI(value: unknown, path: string, report: Reporter): void {
+  if (typeof value !== 'string' || !IRI_PATTERN.test(value)) {
+    report('invalid_iri', path, 'Value must be an absolute IRI');
+  }
+}
+
+function validateTimestamp(value: unknown, path: string, report: Reporter): void {
+  if (typeof value !== 'string' || !TIMESTAMP_PATTERN.test(value) || isNaN(Date.parse(value))) {
+    report('invalid_timestamp', path, 'Timestamp must be an ISO 8601 date-time');
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isUUID(value: unknown): boolean {
+  return typeof value === 'string' && UUID_PATTERN.test(value);
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+// Names are strings per xAPI, but cmi5 launch actors in this repo may carry string arrays
+function isName(value: unknown): boolean {
+  return (
+    typeof value === 'string' ||
+    (Array.isArray(value) && value.every((name) => typeof name === 'string'))
+  );
+}